@@ -3,6 +3,7 @@ import { Toaster } from 'react-hot-toast';
 import { AuthProvider } from './contexts';
 import { AppRoutes } from './routes/AppRoutes';
 import { SessionWarningModal } from './components/ui/SessionWarningModal';
+import { TerminalLockScreen } from './components/ui/TerminalLockScreen';
 import './index.css';
 
 function App() {
@@ -10,6 +11,7 @@ function App() {
     <AuthProvider>
       <AppRoutes />
       <SessionWarningModal />
+      <TerminalLockScreen />
       <Toaster
         position="top-right"
         toastOptions={{
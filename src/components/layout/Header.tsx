@@ -10,12 +10,15 @@ import {
   Menu,
   Wallet,
   LogOut,
-  ChevronDown
+  ChevronDown,
+  Lock,
+  Users
 } from 'lucide-react';
 import { useAppStore } from '@/store/useAppStore';
 import { useAuth } from '@/contexts';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
+import type { TerminalLockMode } from '@/types';
 
 interface HeaderProps {
   className?: string;
@@ -29,13 +32,18 @@ export const Header: React.FC<HeaderProps> = ({ className }) => {
     toggleMobileMenu,
     isSidebarCollapsed 
   } = useAppStore();
-  const { user, logout } = useAuth();
+  const { user, logout, lockTerminal } = useAuth();
 
   const handleLogout = async () => {
     await logout();
     setShowUserMenu(false);
   };
 
+  const handleLock = (mode: TerminalLockMode) => {
+    setShowUserMenu(false);
+    lockTerminal(mode);
+  };
+
   return (
     <motion.header
       initial={{ opacity: 0, y: -20 }}
@@ -201,6 +209,29 @@ export const Header: React.FC<HeaderProps> = ({ className }) => {
                     Configuración
                   </button>
                   
+                  <div className="border-t border-gray-200 dark:border-gray-700 my-1"></div>
+
+                  {/* Without a PIN of their own the user couldn't get back to the terminal */}
+                  {user?.pinEnabled && (
+                    <>
+                      <button
+                        onClick={() => handleLock('lock')}
+                        className="w-full text-left px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 flex items-center"
+                      >
+                        <Lock className="h-4 w-4 mr-3" />
+                        Bloquear
+                      </button>
+
+                      <button
+                        onClick={() => handleLock('switch')}
+                        className="w-full text-left px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 flex items-center"
+                      >
+                        <Users className="h-4 w-4 mr-3" />
+                        Cambiar cajero
+                      </button>
+                    </>
+                  )}
+
                   <div className="border-t border-gray-200 dark:border-gray-700 my-1"></div>
                   
                   <button
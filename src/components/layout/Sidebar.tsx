@@ -8,21 +8,39 @@ import {
   Users, 
   ChevronLeft,
   Menu,
-  CreditCard
+  CreditCard,
+  ShieldAlert,
+  UserCog,
+  Wallet
 } from 'lucide-react';
 import { useAppStore } from '@/store/useAppStore';
 import { Button } from '@/components/ui/Button';
+import { usePermissions, usePlan } from '@/hooks';
+import { FeatureFlag, Permission } from '@/types';
 
 interface SidebarProps {
   className?: string;
 }
 
-const menuItems = [
-  { id: 'dashboard', label: 'Dashboard', icon: Home, href: '/' },
-  { id: 'reports', label: 'Reportes', icon: BarChart3, href: '/reports' },
-  { id: 'clients', label: 'Clientes', icon: Users, href: '/clients' },
-  { id: 'calendar', label: 'Calendario', icon: Calendar, href: '/calendar' },
+interface MenuItem {
+  id: string;
+  label: string;
+  icon: React.ComponentType<{ className?: string }>;
+  href: string;
+  /** Omitted for entries every signed-in user can open */
+  permission?: Permission;
+  feature?: FeatureFlag;
+}
+
+const menuItems: MenuItem[] = [
+  { id: 'dashboard', label: 'Dashboard', icon: Home, href: '/', permission: Permission.DASHBOARD_VIEW },
+  { id: 'reports', label: 'Reportes', icon: BarChart3, href: '/reports', permission: Permission.REPORTS_VIEW, feature: FeatureFlag.REPORTS },
+  { id: 'clients', label: 'Clientes', icon: Users, href: '/clients', permission: Permission.CLIENTS_VIEW },
+  { id: 'credit', label: 'Cartera', icon: Wallet, href: '/credit', permission: Permission.CREDIT_VIEW },
+  { id: 'calendar', label: 'Calendario', icon: Calendar, href: '/calendar', permission: Permission.CALENDAR_VIEW, feature: FeatureFlag.CALENDAR },
+  { id: 'users', label: 'Usuarios', icon: UserCog, href: '/users', permission: Permission.USERS_MANAGE },
   { id: 'settings', label: 'Configuración', icon: Settings, href: '/settings' },
+  { id: 'security', label: 'Seguridad', icon: ShieldAlert, href: '/security', permission: Permission.SECURITY_VIEW },
 ];
 
 export const Sidebar: React.FC<SidebarProps> = ({ className }) => {
@@ -34,6 +52,13 @@ export const Sidebar: React.FC<SidebarProps> = ({ className }) => {
     isMobileMenuOpen,
     setMobileMenuOpen 
   } = useAppStore();
+  const hasPermission = usePermissions();
+  const { hasFeature } = usePlan();
+
+  // Hide entries the user can't open or the company's plan doesn't include
+  const visibleMenuItems = menuItems.filter((item) =>
+    (!item.permission || hasPermission(item.permission)) && (!item.feature || hasFeature(item.feature))
+  );
 
   const handleMenuClick = (itemId: string) => {
     setCurrentPage(itemId);
@@ -116,7 +141,7 @@ export const Sidebar: React.FC<SidebarProps> = ({ className }) => {
 
           {/* Navigation */}
           <nav className="flex-1 px-4 py-6 space-y-2">
-            {menuItems.map((item) => {
+            {visibleMenuItems.map((item) => {
               const Icon = item.icon;
               const isActive = currentPage === item.id;
               
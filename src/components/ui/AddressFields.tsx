@@ -0,0 +1,145 @@
+import React, { useMemo } from 'react';
+import { getDepartments, getMunicipalities, resolveAddress } from '@/services';
+import type { Address } from '@/types';
+
+type AddressField = 'street' | 'details' | 'departmentCode' | 'municipalityCode';
+
+interface AddressFieldsProps {
+  value: Partial<Address> | undefined;
+  onChange: (address: Address) => void;
+  onBlur?: () => void;
+  errors?: Partial<Record<AddressField, string | undefined>>;
+  /** `onDark` for the gradient auth pages, `default` for cards */
+  tone?: 'default' | 'onDark';
+  /** Prefix for the input ids, when a page shows more than one address */
+  idPrefix?: string;
+  disabled?: boolean;
+}
+
+const TONE_CLASSES = {
+  default: {
+    label: 'text-sm font-medium text-gray-900 dark:text-white',
+    field:
+      'h-10 w-full rounded-md border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 px-3 text-sm text-gray-900 dark:text-white placeholder:text-gray-400 focus:outline-none focus:ring-2 focus:ring-nequi-pink disabled:opacity-50',
+    option: '',
+    error: 'text-sm text-red-600 dark:text-red-400',
+  },
+  onDark: {
+    label: 'block text-white font-medium',
+    field:
+      'w-full py-3 px-4 bg-white/20 border border-white/30 rounded-lg text-white placeholder-white/60 focus:outline-none focus:ring-2 focus:ring-nequi-pink focus:border-transparent transition-all disabled:opacity-50',
+    option: 'text-gray-900',
+    error: 'text-red-300 text-sm',
+  },
+};
+
+/**
+ * Department and municipality pickers from the DANE dataset plus the street
+ * line. Always reports a complete `Address` with the names filled in.
+ */
+export const AddressFields: React.FC<AddressFieldsProps> = ({
+  value,
+  onChange,
+  onBlur,
+  errors = {},
+  tone = 'default',
+  idPrefix = 'address',
+  disabled,
+}) => {
+  const address = resolveAddress(value ?? {});
+  const municipalities = useMemo(() => getMunicipalities(address.departmentCode), [address.departmentCode]);
+  const classes = TONE_CLASSES[tone];
+
+  const update = (changes: Partial<Address>) => onChange(resolveAddress({ ...address, ...changes }));
+
+  const renderError = (field: AddressField) =>
+    errors[field] ? <p className={classes.error}>{errors[field]}</p> : null;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <label htmlFor={`${idPrefix}-department`} className={classes.label}>
+            Departamento
+          </label>
+          <select
+            id={`${idPrefix}-department`}
+            value={address.departmentCode}
+            onChange={(event) => update({ departmentCode: event.target.value })}
+            onBlur={onBlur}
+            disabled={disabled}
+            className={classes.field}
+          >
+            <option value="" className={classes.option}>
+              Selecciona
+            </option>
+            {getDepartments().map((department) => (
+              <option key={department.code} value={department.code} className={classes.option}>
+                {department.name}
+              </option>
+            ))}
+          </select>
+          {renderError('departmentCode')}
+        </div>
+
+        <div className="space-y-2">
+          <label htmlFor={`${idPrefix}-municipality`} className={classes.label}>
+            Municipio
+          </label>
+          <select
+            id={`${idPrefix}-municipality`}
+            value={address.municipalityCode}
+            onChange={(event) => update({ municipalityCode: event.target.value })}
+            onBlur={onBlur}
+            disabled={disabled || !address.departmentCode}
+            className={classes.field}
+          >
+            <option value="" className={classes.option}>
+              {address.departmentCode ? 'Selecciona' : 'Elige primero el departamento'}
+            </option>
+            {municipalities.map((municipality) => (
+              <option key={municipality.code} value={municipality.code} className={classes.option}>
+                {municipality.name}
+              </option>
+            ))}
+          </select>
+          {renderError('municipalityCode')}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <label htmlFor={`${idPrefix}-street`} className={classes.label}>
+          Dirección
+        </label>
+        <input
+          id={`${idPrefix}-street`}
+          value={address.street}
+          onChange={(event) => update({ street: event.target.value })}
+          onBlur={onBlur}
+          disabled={disabled}
+          className={classes.field}
+          placeholder="Calle 10 # 5-20"
+          autoComplete="address-line1"
+        />
+        {renderError('street')}
+      </div>
+
+      <div className="space-y-2">
+        <label htmlFor={`${idPrefix}-details`} className={classes.label}>
+          Complemento <span className="font-normal opacity-70">(opcional)</span>
+        </label>
+        <input
+          id={`${idPrefix}-details`}
+          value={address.details}
+          onChange={(event) => update({ details: event.target.value })}
+          onBlur={onBlur}
+          disabled={disabled}
+          className={classes.field}
+          placeholder="Local 2, barrio Centro"
+          autoComplete="address-line2"
+        />
+        {renderError('details')}
+      </div>
+    </div>
+  );
+};
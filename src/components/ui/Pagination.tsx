@@ -0,0 +1,41 @@
+import * as React from "react";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import type { PaginatedResponse } from "@/types";
+import { cn } from "@/utils/cn";
+import { Button } from "./Button";
+
+export interface PaginationProps {
+  pagination: PaginatedResponse<unknown>["pagination"];
+  onPageChange: (page: number) => void;
+  /** Noun for the total, e.g. "usuarios" */
+  itemLabel?: string;
+  className?: string;
+}
+
+const Pagination: React.FC<PaginationProps> = ({ pagination, onPageChange, itemLabel = "resultados", className }) => {
+  const { page, limit, total, totalPages, hasPrev, hasNext } = pagination;
+  const from = total === 0 ? 0 : (page - 1) * limit + 1;
+  const to = Math.min(page * limit, total);
+
+  return (
+    <div className={cn("flex items-center justify-between text-sm text-gray-600 dark:text-gray-400", className)}>
+      <span>
+        {from}–{to} de {total} {itemLabel}
+      </span>
+      <div className="flex items-center space-x-2">
+        <Button variant="outline" size="icon" onClick={() => onPageChange(page - 1)} disabled={!hasPrev} aria-label="Página anterior">
+          <ChevronLeft className="h-4 w-4" />
+        </Button>
+        <span>
+          Página {page} de {Math.max(totalPages, 1)}
+        </span>
+        <Button variant="outline" size="icon" onClick={() => onPageChange(page + 1)} disabled={!hasNext} aria-label="Página siguiente">
+          <ChevronRight className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+};
+Pagination.displayName = "Pagination";
+
+export { Pagination };
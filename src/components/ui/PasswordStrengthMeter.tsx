@@ -0,0 +1,76 @@
+import React, { useMemo } from 'react';
+import { Check, X } from 'lucide-react';
+import {
+  DEFAULT_PASSWORD_POLICY,
+  checkPassword,
+  describePasswordRule,
+  getActiveRules,
+  getPasswordStrength
+} from '@/services';
+import type { PasswordContext } from '@/services';
+import type { PasswordPolicy } from '@/types';
+
+interface PasswordStrengthMeterProps {
+  password: string;
+  policy?: PasswordPolicy;
+  context?: PasswordContext;
+  /** `onDark` for the gradient auth pages, `default` for cards */
+  tone?: 'default' | 'onDark';
+  className?: string;
+}
+
+const SCORE_COLORS = ['bg-red-500', 'bg-orange-500', 'bg-yellow-500', 'bg-green-500', 'bg-emerald-600'];
+
+export const PasswordStrengthMeter: React.FC<PasswordStrengthMeterProps> = ({
+  password,
+  policy = DEFAULT_PASSWORD_POLICY,
+  context = {},
+  tone = 'default',
+  className = '',
+}) => {
+  const { name, email } = context;
+  const strength = useMemo(
+    () => getPasswordStrength(password, policy, { name, email }),
+    [password, policy, name, email]
+  );
+  const broken = useMemo(
+    () => new Set(checkPassword(password, policy, { name, email })),
+    [password, policy, name, email]
+  );
+
+  const textClass = tone === 'onDark' ? 'text-white/80' : 'text-gray-600 dark:text-gray-400';
+  const trackClass = tone === 'onDark' ? 'bg-white/20' : 'bg-gray-200 dark:bg-gray-700';
+  const passedClass = tone === 'onDark' ? 'text-green-300' : 'text-green-600 dark:text-green-400';
+
+  return (
+    <div className={`space-y-2 ${className}`} aria-live="polite">
+      <div className="flex items-center space-x-2">
+        <div className="flex flex-1 space-x-1">
+          {[1, 2, 3, 4].map((step) => (
+            <div
+              key={step}
+              className={`h-1.5 flex-1 rounded-full transition-colors ${
+                password && strength.score >= step ? SCORE_COLORS[strength.score] : trackClass
+              }`}
+            />
+          ))}
+        </div>
+        {password && <span className={`text-xs font-medium ${textClass}`}>{strength.label}</span>}
+      </div>
+
+      <ul className="grid grid-cols-1 sm:grid-cols-2 gap-1">
+        {getActiveRules(policy).map((rule) => {
+          const passed = password.length > 0 && !broken.has(rule);
+          const Icon = passed ? Check : X;
+
+          return (
+            <li key={rule} className={`flex items-center space-x-1 text-xs ${passed ? passedClass : textClass}`}>
+              <Icon className="h-3 w-3 flex-shrink-0" />
+              <span>{describePasswordRule(rule, policy)}</span>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,80 @@
+import React from 'react';
+import { CALLING_CODES, COLOMBIA_CALLING_CODE, getColombianPhoneKind, splitPhone, toE164 } from '@/services';
+
+interface PhoneInputProps {
+  /** E.164 value; may be incomplete while the user types */
+  value: string | undefined;
+  onChange: (value: string) => void;
+  onBlur?: () => void;
+  /** `onDark` for the gradient auth pages, `default` for cards */
+  tone?: 'default' | 'onDark';
+  id?: string;
+  disabled?: boolean;
+  className?: string;
+}
+
+const TONE_CLASSES = {
+  default: {
+    field:
+      'h-10 rounded-md border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 px-3 text-sm text-gray-900 dark:text-white placeholder:text-gray-400 focus:outline-none focus:ring-2 focus:ring-nequi-pink disabled:opacity-50',
+    option: '',
+    hint: 'text-xs text-gray-500 dark:text-gray-400',
+  },
+  onDark: {
+    field:
+      'py-3 px-3 bg-white/20 border border-white/30 rounded-lg text-white placeholder-white/60 focus:outline-none focus:ring-2 focus:ring-nequi-pink focus:border-transparent transition-all disabled:opacity-50',
+    option: 'text-gray-900',
+    hint: 'text-xs text-white/70',
+  },
+};
+
+export const PhoneInput: React.FC<PhoneInputProps> = ({
+  value,
+  onChange,
+  onBlur,
+  tone = 'default',
+  id,
+  disabled,
+  className = '',
+}) => {
+  const { callingCode, national } = splitPhone(value || `+${COLOMBIA_CALLING_CODE}`);
+  const classes = TONE_CLASSES[tone];
+  const isColombian = callingCode === COLOMBIA_CALLING_CODE;
+  const kind = isColombian ? getColombianPhoneKind(national) : null;
+
+  return (
+    <div className={`space-y-1 ${className}`}>
+      <div className="flex space-x-2">
+        <select
+          value={callingCode}
+          onChange={(event) => onChange(toE164(event.target.value, national))}
+          onBlur={onBlur}
+          disabled={disabled}
+          className={`w-28 flex-shrink-0 ${classes.field}`}
+          aria-label="Indicativo del país"
+        >
+          {CALLING_CODES.map(({ iso, country, code }) => (
+            <option key={iso} value={code} className={classes.option}>
+              {iso} +{code} · {country}
+            </option>
+          ))}
+        </select>
+        <input
+          id={id}
+          type="tel"
+          inputMode="tel"
+          autoComplete="tel-national"
+          value={national}
+          onChange={(event) => onChange(toE164(callingCode, event.target.value))}
+          onBlur={onBlur}
+          disabled={disabled}
+          className={`flex-1 min-w-0 ${classes.field}`}
+          placeholder={isColombian ? '300 123 4567' : 'Número'}
+        />
+      </div>
+      {kind && (
+        <p className={classes.hint}>{kind === 'mobile' ? 'Celular' : 'Teléfono fijo'}</p>
+      )}
+    </div>
+  );
+};
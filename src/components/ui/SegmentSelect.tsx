@@ -0,0 +1,28 @@
+import React from 'react';
+import type { ClientSegment } from '@/types';
+import { Select } from './Select';
+
+interface SegmentSelectProps {
+  segments: ClientSegment[];
+  /** Segment id, '' for every client */
+  value: string;
+  onChange: (segmentId: string) => void;
+  className?: string;
+}
+
+/** Picks one of the user's saved segments, showing how many clients it holds */
+export const SegmentSelect: React.FC<SegmentSelectProps> = ({ segments, value, onChange, className }) => (
+  <Select
+    value={value}
+    onChange={(event) => onChange(event.target.value)}
+    className={className}
+    aria-label="Segmento"
+  >
+    <option value="">Todos los clientes</option>
+    {segments.map((segment) => (
+      <option key={segment.id} value={segment.id}>
+        {segment.name} ({segment.clientCount.toLocaleString('es-CO')})
+      </option>
+    ))}
+  </Select>
+);
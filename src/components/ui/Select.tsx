@@ -0,0 +1,17 @@
+import * as React from "react";
+import { cn } from "@/utils/cn";
+
+/** Shared field styling, also used by inputs that sit next to selects in a filter row */
+export const selectClassName =
+  "h-10 rounded-md border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 px-3 text-sm text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-nequi-pink";
+
+export type SelectProps = React.SelectHTMLAttributes<HTMLSelectElement>;
+
+const Select = React.forwardRef<HTMLSelectElement, SelectProps>(
+  ({ className, ...props }, ref) => {
+    return <select className={cn(selectClassName, className)} ref={ref} {...props} />;
+  }
+);
+Select.displayName = "Select";
+
+export { Select };
@@ -2,15 +2,20 @@ import React, { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { AlertTriangle, Clock, X } from 'lucide-react';
 import { useAuth } from '@/contexts';
+import { SessionSecurityService } from '@/services';
+import type { SessionExpiryReason, SessionWarningDetail } from '@/services';
 
 export const SessionWarningModal: React.FC = () => {
   const [showWarning, setShowWarning] = useState(false);
   const [remainingTime, setRemainingTime] = useState(0);
-  const { logout } = useAuth();
+  const [reason, setReason] = useState<SessionExpiryReason>('idle');
+  const [isExtending, setIsExtending] = useState(false);
+  const { logout, extendSession } = useAuth();
 
   useEffect(() => {
-    const handleSessionWarning = (event: CustomEvent) => {
+    const handleSessionWarning = (event: CustomEvent<SessionWarningDetail>) => {
       setRemainingTime(event.detail.remainingTime);
+      setReason(event.detail.reason);
       setShowWarning(true);
     };
 
@@ -18,25 +23,59 @@ export const SessionWarningModal: React.FC = () => {
       setShowWarning(false);
     };
 
+    // Activity in another tab or a remote logout makes the warning obsolete
+    const handleSessionResolved = () => {
+      setShowWarning(false);
+    };
+
     window.addEventListener('session-warning', handleSessionWarning as EventListener);
     window.addEventListener('session-expired', handleSessionExpired);
+    window.addEventListener('session-extended', handleSessionResolved);
+    window.addEventListener('session-logout', handleSessionResolved);
 
     return () => {
       window.removeEventListener('session-warning', handleSessionWarning as EventListener);
       window.removeEventListener('session-expired', handleSessionExpired);
+      window.removeEventListener('session-extended', handleSessionResolved);
+      window.removeEventListener('session-logout', handleSessionResolved);
     };
   }, []);
 
+  // Count down live against the active session policy
+  useEffect(() => {
+    if (!showWarning) {
+      return;
+    }
+
+    const interval = window.setInterval(() => {
+      const remaining = SessionSecurityService.getRemainingTime();
+      setRemainingTime(remaining);
+
+      // Don't wait for the next monitor tick once time is up
+      if (remaining === 0) {
+        SessionSecurityService.checkSession();
+      }
+    }, 1000);
+
+    return () => window.clearInterval(interval);
+  }, [showWarning]);
+
   const formatTime = (ms: number): string => {
     const minutes = Math.floor(ms / 60000);
     const seconds = Math.floor((ms % 60000) / 1000);
     return `${minutes}:${seconds.toString().padStart(2, '0')}`;
   };
 
-  const handleExtendSession = () => {
-    // In a real app, you might want to ping the server to extend the session
-    setShowWarning(false);
-    window.dispatchEvent(new CustomEvent('extend-session'));
+  // The modal closes on the 'session-extended' event once the server confirms
+  const handleExtendSession = async () => {
+    setIsExtending(true);
+    try {
+      await extendSession();
+    } catch {
+      // The context already shows the message; the countdown keeps running
+    } finally {
+      setIsExtending(false);
+    }
   };
 
   const handleLogout = async () => {
@@ -78,7 +117,9 @@ export const SessionWarningModal: React.FC = () => {
 
             <div className="mb-6">
               <p className="text-gray-600 dark:text-gray-300 mb-4">
-                Tu sesión expirará pronto por inactividad. ¿Deseas continuar?
+                {reason === 'absolute'
+                  ? 'Tu sesión alcanzó la duración máxima permitida por tu empresa. Guarda tu trabajo; tendrás que iniciar sesión de nuevo.'
+                  : 'Tu sesión expirará pronto por inactividad. ¿Deseas continuar?'}
               </p>
               
               <div className="flex items-center space-x-2 bg-gray-50 dark:bg-gray-700 rounded-lg p-3">
@@ -92,12 +133,15 @@ export const SessionWarningModal: React.FC = () => {
             </div>
 
             <div className="flex space-x-3">
-              <button
-                onClick={handleExtendSession}
-                className="flex-1 bg-nequi-pink hover:bg-nequi-pink-dark text-white font-medium py-2 px-4 rounded-lg transition-colors"
-              >
-                Continuar Sesión
-              </button>
+              {reason === 'idle' && (
+                <button
+                  onClick={handleExtendSession}
+                  disabled={isExtending}
+                  className="flex-1 bg-nequi-pink hover:bg-nequi-pink-dark disabled:opacity-50 text-white font-medium py-2 px-4 rounded-lg transition-colors"
+                >
+                  {isExtending ? 'Extendiendo...' : 'Continuar Sesión'}
+                </button>
+              )}
               <button
                 onClick={handleLogout}
                 className="flex-1 bg-gray-200 dark:bg-gray-600 hover:bg-gray-300 dark:hover:bg-gray-500 text-gray-800 dark:text-gray-200 font-medium py-2 px-4 rounded-lg transition-colors"
@@ -0,0 +1,253 @@
+import React, { useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { ArrowLeft, Delete, Lock, LogOut, User, Users } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useAuth } from '@/contexts';
+import { ROLE_LABELS, terminalLockService } from '@/services';
+import type { TerminalLockMode, TerminalUser } from '@/types';
+import { getErrorMessage } from '@/utils/formErrors';
+
+const PIN_MIN_LENGTH = 4;
+const PIN_MAX_LENGTH = 6;
+const KEYPAD = ['1', '2', '3', '4', '5', '6', '7', '8', '9'];
+
+export const TerminalLockScreen: React.FC = () => {
+  const { isAuthenticated, terminalLock, user, unlockTerminal, logout } = useAuth();
+  const [mode, setMode] = useState<TerminalLockMode>('lock');
+  const [terminalUsers, setTerminalUsers] = useState<TerminalUser[]>([]);
+  const [isLoadingUsers, setIsLoadingUsers] = useState(false);
+  const [selectedUser, setSelectedUser] = useState<TerminalUser | null>(null);
+  const [pin, setPin] = useState('');
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  const isLocked = isAuthenticated && terminalLock !== null;
+
+  // Start from the mode the terminal was locked with
+  useEffect(() => {
+    if (!terminalLock) {
+      return;
+    }
+
+    setMode(terminalLock.mode);
+    setSelectedUser(terminalLock.mode === 'lock' && user ? user : null);
+    setPin('');
+  }, [terminalLock, user]);
+
+  useEffect(() => {
+    if (!isLocked || mode !== 'switch') {
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoadingUsers(true);
+    terminalLockService
+      .getTerminalUsers()
+      .then((users) => {
+        if (!cancelled) {
+          setTerminalUsers(users);
+        }
+      })
+      .catch((error) => {
+        toast.error(getErrorMessage(error, 'No se pudo cargar la lista de cajeros'));
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setIsLoadingUsers(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isLocked, mode]);
+
+  const selectUser = (terminalUser: TerminalUser | null) => {
+    setSelectedUser(terminalUser);
+    setPin('');
+  };
+
+  const switchCashier = () => {
+    setMode('switch');
+    selectUser(null);
+  };
+
+  // Back to the signed-in user's own PIN
+  const backToLock = () => {
+    setMode('lock');
+    selectUser(user);
+  };
+
+  const appendDigit = (digit: string) => {
+    setPin((current) => (current.length < PIN_MAX_LENGTH ? current + digit : current));
+  };
+
+  const handleUnlock = async (event?: React.FormEvent) => {
+    event?.preventDefault();
+    if (!selectedUser || pin.length < PIN_MIN_LENGTH) {
+      return;
+    }
+
+    setIsUnlocking(true);
+    try {
+      await unlockTerminal(selectedUser.id, pin);
+    } catch {
+      // The context already shows the message
+      setPin('');
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {isLocked && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 bg-gradient-to-br from-nequi-purple-light to-nequi-purple-dark flex items-center justify-center z-[60] p-4"
+        >
+          <motion.div
+            initial={{ scale: 0.95, opacity: 0 }}
+            animate={{ scale: 1, opacity: 1 }}
+            className="bg-white/10 backdrop-blur-lg rounded-2xl p-8 shadow-xl border border-white/20 w-full max-w-sm"
+          >
+            <div className="text-center mb-6">
+              <div className="w-14 h-14 bg-white/20 rounded-full flex items-center justify-center mx-auto mb-4">
+                <Lock className="w-7 h-7 text-white" />
+              </div>
+              <h2 className="text-xl font-semibold text-white font-raleway">Terminal bloqueada</h2>
+              <p className="text-white/80 text-sm mt-1">
+                {selectedUser ? `Ingresa el PIN de ${selectedUser.name}` : 'Selecciona el cajero que va a continuar'}
+              </p>
+            </div>
+
+            {!selectedUser ? (
+              <div className="space-y-2 max-h-72 overflow-y-auto">
+                {isLoadingUsers && (
+                  <div className="flex justify-center py-6">
+                    <div className="w-6 h-6 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+                  </div>
+                )}
+                {!isLoadingUsers && terminalUsers.length === 0 && (
+                  <p className="text-center text-white/70 text-sm py-6">
+                    No hay cajeros con PIN configurado.
+                  </p>
+                )}
+                {terminalUsers.map((terminalUser) => (
+                  <button
+                    key={terminalUser.id}
+                    type="button"
+                    onClick={() => selectUser(terminalUser)}
+                    className="w-full flex items-center space-x-3 bg-white/10 hover:bg-white/20 rounded-lg px-4 py-3 transition-colors text-left"
+                  >
+                    <div className="w-9 h-9 bg-gradient-to-r from-nequi-pink to-nequi-purple-dark rounded-full flex items-center justify-center">
+                      {terminalUser.avatar ? (
+                        <img src={terminalUser.avatar} alt={terminalUser.name} className="w-9 h-9 rounded-full object-cover" />
+                      ) : (
+                        <User className="h-4 w-4 text-white" />
+                      )}
+                    </div>
+                    <div>
+                      <p className="text-white font-medium">{terminalUser.name}</p>
+                      <p className="text-white/60 text-xs">{ROLE_LABELS[terminalUser.role]}</p>
+                    </div>
+                  </button>
+                ))}
+              </div>
+            ) : (
+              <form onSubmit={handleUnlock} className="space-y-4">
+                <input
+                  value={pin}
+                  onChange={(event) => setPin(event.target.value.replace(/\D/g, '').slice(0, PIN_MAX_LENGTH))}
+                  type="password"
+                  inputMode="numeric"
+                  autoComplete="off"
+                  autoFocus
+                  aria-label="PIN"
+                  className="w-full px-4 py-3 bg-white/20 border border-white/30 rounded-lg text-white text-center text-2xl tracking-[0.5em] focus:outline-none focus:ring-2 focus:ring-nequi-pink focus:border-transparent"
+                />
+
+                <div className="grid grid-cols-3 gap-2">
+                  {KEYPAD.map((digit) => (
+                    <button
+                      key={digit}
+                      type="button"
+                      onClick={() => appendDigit(digit)}
+                      className="bg-white/10 hover:bg-white/20 text-white text-xl font-semibold rounded-lg py-3 transition-colors"
+                    >
+                      {digit}
+                    </button>
+                  ))}
+                  <button
+                    type="button"
+                    onClick={() => setPin((current) => current.slice(0, -1))}
+                    className="bg-white/10 hover:bg-white/20 text-white rounded-lg py-3 flex items-center justify-center transition-colors"
+                    aria-label="Borrar"
+                  >
+                    <Delete className="w-5 h-5" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => appendDigit('0')}
+                    className="bg-white/10 hover:bg-white/20 text-white text-xl font-semibold rounded-lg py-3 transition-colors"
+                  >
+                    0
+                  </button>
+                  <button
+                    type="submit"
+                    disabled={isUnlocking || pin.length < PIN_MIN_LENGTH}
+                    className="bg-nequi-pink hover:bg-nequi-pink-dark disabled:opacity-50 disabled:cursor-not-allowed text-white font-semibold rounded-lg py-3 transition-colors"
+                  >
+                    {isUnlocking ? '...' : 'OK'}
+                  </button>
+                </div>
+              </form>
+            )}
+
+            <div className="flex items-center justify-between text-sm mt-6">
+              {mode === 'switch' && selectedUser ? (
+                <button
+                  type="button"
+                  onClick={() => selectUser(null)}
+                  className="flex items-center space-x-1 text-white/80 hover:text-white transition-colors"
+                >
+                  <ArrowLeft className="w-4 h-4" />
+                  <span>Otro cajero</span>
+                </button>
+              ) : mode === 'lock' ? (
+                <button
+                  type="button"
+                  onClick={switchCashier}
+                  className="flex items-center space-x-1 text-white/80 hover:text-white transition-colors"
+                >
+                  <Users className="w-4 h-4" />
+                  <span>Cambiar cajero</span>
+                </button>
+              ) : user?.pinEnabled ? (
+                <button
+                  type="button"
+                  onClick={backToLock}
+                  className="flex items-center space-x-1 text-white/80 hover:text-white transition-colors"
+                >
+                  <ArrowLeft className="w-4 h-4" />
+                  <span>Usar mi PIN</span>
+                </button>
+              ) : (
+                <span />
+              )}
+              <button
+                type="button"
+                onClick={() => logout()}
+                className="flex items-center space-x-1 text-nequi-pink hover:text-nequi-pink-light transition-colors"
+              >
+                <LogOut className="w-4 h-4" />
+                <span>Cerrar sesión</span>
+              </button>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
@@ -0,0 +1,42 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { Lock, Sparkles } from 'lucide-react';
+import { usePlan } from '@/hooks';
+import { FEATURE_LABELS, PLAN_LABELS, getRequiredPlan } from '@/services';
+import type { FeatureFlag } from '@/types';
+
+interface UpgradePromptProps {
+  feature?: FeatureFlag;
+  title?: string;
+  description?: string;
+  className?: string;
+}
+
+export const UpgradePrompt: React.FC<UpgradePromptProps> = ({ feature, title, description, className = '' }) => {
+  const { plan } = usePlan();
+  const requiredPlan = feature ? getRequiredPlan(feature) : null;
+
+  return (
+    <div className={`bg-white dark:bg-gray-800 rounded-xl border border-nequi-pink/30 shadow-nequi p-8 text-center ${className}`}>
+      <div className="w-14 h-14 bg-gradient-nequi rounded-full flex items-center justify-center mx-auto mb-4">
+        <Lock className="w-6 h-6 text-white" />
+      </div>
+      <h2 className="text-xl font-bold text-gray-900 dark:text-white font-raleway mb-2">
+        {title ?? (feature ? `${FEATURE_LABELS[feature]} no está incluido en tu plan` : 'Mejora tu plan')}
+      </h2>
+      <p className="text-gray-600 dark:text-gray-300 mb-6">
+        {description ?? (requiredPlan
+          ? `Disponible desde el plan ${PLAN_LABELS[requiredPlan]}.`
+          : 'Alcanzaste el límite de tu plan actual.')}
+        {plan && ` Tu plan actual es ${PLAN_LABELS[plan]}.`}
+      </p>
+      <Link
+        to="/settings"
+        className="inline-flex items-center space-x-2 bg-nequi-pink hover:bg-nequi-pink-dark text-white font-medium px-6 py-2 rounded-lg transition-colors"
+      >
+        <Sparkles className="w-4 h-4" />
+        <span>Ver planes</span>
+      </Link>
+    </div>
+  );
+};
@@ -1,3 +1,6 @@
 export * from './Button';
 export * from './Card';
-export * from './Input';
\ No newline at end of file
+export * from './Input';
+export * from './Pagination';
+export * from './SegmentSelect';
+export * from './Select';
\ No newline at end of file
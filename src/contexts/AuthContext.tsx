@@ -6,9 +6,23 @@ import type {
   Company, 
   LoginCredentials, 
   RegisterData, 
-  ChangePasswordData 
+  ChangePasswordData,
+  UpdateProfileData,
+  TwoFactorChallenge,
+  TwoFactorMethod,
+  TerminalLock,
+  TerminalLockMode
 } from '@/types';
-import { authService } from '@/services';
+import {
+  authService,
+  isTwoFactorChallenge,
+  RateLimitError,
+  resolvePasswordPolicy,
+  resolveSessionPolicy,
+  SessionSecurityService,
+  terminalLockService
+} from '@/services';
+import { getErrorMessage } from '@/utils/formErrors';
 import toast from 'react-hot-toast';
 
 // Action types
@@ -18,7 +32,13 @@ type AuthAction =
   | { type: 'AUTH_FAILURE'; payload: string }
   | { type: 'AUTH_LOGOUT' }
   | { type: 'AUTH_CLEAR_ERROR' }
-  | { type: 'AUTH_UPDATE_USER'; payload: User };
+  | { type: 'AUTH_UPDATE_USER'; payload: User }
+  | { type: 'AUTH_UPDATE_COMPANY'; payload: Company }
+  | { type: 'AUTH_TOKEN_REFRESHED'; payload: string }
+  | { type: 'AUTH_2FA_REQUIRED'; payload: TwoFactorChallenge }
+  | { type: 'AUTH_2FA_CANCEL' }
+  | { type: 'AUTH_LOCK'; payload: TerminalLock }
+  | { type: 'AUTH_UNLOCK' };
 
 // Initial state
 const initialState: AuthState = {
@@ -29,6 +49,8 @@ const initialState: AuthState = {
   isAuthenticated: false,
   isLoading: false,
   error: null,
+  twoFactorChallenge: null,
+  terminalLock: null,
 };
 
 // Reducer
@@ -51,6 +73,7 @@ function authReducer(state: AuthState, action: AuthAction): AuthState {
         isAuthenticated: true,
         isLoading: false,
         error: null,
+        twoFactorChallenge: null,
       };
 
     case 'AUTH_FAILURE':
@@ -82,6 +105,45 @@ function authReducer(state: AuthState, action: AuthAction): AuthState {
         user: action.payload,
       };
 
+    case 'AUTH_UPDATE_COMPANY':
+      return {
+        ...state,
+        company: action.payload,
+      };
+
+    case 'AUTH_TOKEN_REFRESHED':
+      return {
+        ...state,
+        accessToken: action.payload,
+      };
+
+    case 'AUTH_2FA_REQUIRED':
+      return {
+        ...state,
+        isLoading: false,
+        error: null,
+        twoFactorChallenge: action.payload,
+      };
+
+    case 'AUTH_2FA_CANCEL':
+      return {
+        ...state,
+        error: null,
+        twoFactorChallenge: null,
+      };
+
+    case 'AUTH_LOCK':
+      return {
+        ...state,
+        terminalLock: action.payload,
+      };
+
+    case 'AUTH_UNLOCK':
+      return {
+        ...state,
+        terminalLock: null,
+      };
+
     default:
       return state;
   }
@@ -89,12 +151,21 @@ function authReducer(state: AuthState, action: AuthAction): AuthState {
 
 // Context type
 interface AuthContextType extends AuthState {
-  login: (credentials: LoginCredentials) => Promise<void>;
+  login: (credentials: LoginCredentials) => Promise<{ twoFactorRequired: boolean }>;
+  verifyTwoFactor: (code: string, method: TwoFactorMethod) => Promise<void>;
+  cancelTwoFactor: () => void;
   register: (data: RegisterData) => Promise<void>;
   logout: () => Promise<void>;
   changePassword: (data: ChangePasswordData) => Promise<void>;
+  updateProfile: (data: UpdateProfileData) => Promise<void>;
+  updateAvatar: (image: Blob | null) => Promise<void>;
   clearError: () => void;
   checkAuth: () => Promise<void>;
+  updateCompany: (company: Company) => void;
+  updateUser: (user: User) => void;
+  extendSession: () => Promise<void>;
+  lockTerminal: (mode: TerminalLockMode) => void;
+  unlockTerminal: (userId: string, pin: string) => Promise<void>;
 }
 
 // Create context
@@ -107,22 +178,70 @@ interface AuthProviderProps {
 
 // Provider component
 export function AuthProvider({ children }: AuthProviderProps) {
-  const [state, dispatch] = useReducer(authReducer, initialState);
+  // A locked terminal stays locked across reloads
+  const [state, dispatch] = useReducer(authReducer, initialState, (initial) => ({
+    ...initial,
+    terminalLock: terminalLockService.getLock(),
+  }));
 
   // Check authentication status on mount
   useEffect(() => {
     checkAuth();
   }, []);
 
+  // Sign out when another tab logs out or its session expires
+  useEffect(() => {
+    const handleRemoteLogout = () => {
+      dispatch({ type: 'AUTH_LOGOUT' });
+    };
+
+    window.addEventListener('session-logout', handleRemoteLogout);
+    return () => {
+      window.removeEventListener('session-logout', handleRemoteLogout);
+    };
+  }, []);
+
+  // Mirror lock/unlock from other tabs on the same terminal
+  useEffect(() => {
+    return terminalLockService.onLockChange((lock, unlockedBy) => {
+      if (lock) {
+        dispatch({ type: 'AUTH_LOCK', payload: lock });
+        return;
+      }
+
+      if (unlockedBy) {
+        dispatch({ type: 'AUTH_UPDATE_USER', payload: unlockedBy.user });
+        dispatch({ type: 'AUTH_TOKEN_REFRESHED', payload: unlockedBy.accessToken });
+      }
+      dispatch({ type: 'AUTH_UNLOCK' });
+    });
+  }, []);
+
+  // Apply the company's session timeout policy for the signed-in user's role
+  useEffect(() => {
+    SessionSecurityService.applyPolicy(resolveSessionPolicy(state.company, state.user));
+  }, [state.company, state.user]);
+
+  // Keep the access token in state current with proactive refreshes
+  useEffect(() => {
+    return authService.onTokenRefreshEvent((event) => {
+      if (event.type === 'refreshed') {
+        dispatch({ type: 'AUTH_TOKEN_REFRESHED', payload: event.accessToken });
+      } else if (event.type === 'failed') {
+        console.error('Proactive token refresh failed:', event.error);
+      }
+    });
+  }, []);
+
   // Login function
-  const login = async (credentials: LoginCredentials): Promise<void> => {
+  const login = async (credentials: LoginCredentials): Promise<{ twoFactorRequired: boolean }> => {
     // Rate limiting check
     const rateLimitKey = `login_${credentials.email}`;
     if (authService.isRateLimited(rateLimitKey)) {
       const error = 'Too many login attempts. Please try again in 15 minutes.';
       dispatch({ type: 'AUTH_FAILURE', payload: error });
       toast.error(error);
-      return;
+      throw new RateLimitError(error, { retryAfter: 15 * 60 * 1000 });
     }
 
     dispatch({ type: 'AUTH_START' });
@@ -130,6 +249,22 @@ export function AuthProvider({ children }: AuthProviderProps) {
     try {
       const response = await authService.login(credentials);
 
+      if (isTwoFactorChallenge(response)) {
+        const { challengeToken, methods, expiresIn } = response.data;
+        dispatch({
+          type: 'AUTH_2FA_REQUIRED',
+          payload: {
+            challengeToken,
+            methods,
+            expiresIn,
+            email: credentials.email,
+            rememberMe: credentials.rememberMe,
+          },
+        });
+        authService.resetRateLimit(rateLimitKey);
+        return { twoFactorRequired: true };
+      }
+
       if (response.success) {
         dispatch({
           type: 'AUTH_SUCCESS',
@@ -144,6 +279,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
         // Reset rate limit on successful login
         authService.resetRateLimit(rateLimitKey);
         toast.success(`¡Bienvenido, ${response.data.user.name}!`);
+        return { twoFactorRequired: false };
       } else {
         throw new Error(response.message || 'Error al iniciar sesión');
       }
@@ -151,19 +287,64 @@ export function AuthProvider({ children }: AuthProviderProps) {
       const errorMessage = error.message || 'Error al iniciar sesión';
       dispatch({ type: 'AUTH_FAILURE', payload: errorMessage });
       toast.error(errorMessage);
+      // Let the form map server field errors (ApiError.fieldErrors)
+      throw error;
+    }
+  };
+
+  // Two-factor verification function
+  const verifyTwoFactor = async (code: string, method: TwoFactorMethod): Promise<void> => {
+    const challenge = state.twoFactorChallenge;
+    if (!challenge) {
+      throw new Error('No hay una verificación en dos pasos pendiente');
+    }
+
+    dispatch({ type: 'AUTH_START' });
+
+    try {
+      const response = await authService.verifyTwoFactor(
+        { challengeToken: challenge.challengeToken, code, method },
+        challenge.email,
+        challenge.rememberMe
+      );
+
+      if (response.success) {
+        dispatch({
+          type: 'AUTH_SUCCESS',
+          payload: {
+            user: response.data.user,
+            company: response.data.company,
+            accessToken: response.data.accessToken,
+            refreshToken: response.data.refreshToken,
+          },
+        });
+        toast.success(`¡Bienvenido, ${response.data.user.name}!`);
+      } else {
+        throw new Error(response.message || 'Código de verificación inválido');
+      }
+    } catch (error) {
+      const errorMessage = getErrorMessage(error, 'Código de verificación inválido');
+      dispatch({ type: 'AUTH_FAILURE', payload: errorMessage });
+      toast.error(errorMessage);
+      throw error;
     }
   };
 
+  const cancelTwoFactor = (): void => {
+    dispatch({ type: 'AUTH_2FA_CANCEL' });
+  };
+
   // Register function
+  // Registration doesn't sign in: the account waits for email verification.
+  // AUTH_START is avoided because nothing would clear isLoading on success
   const register = async (data: RegisterData): Promise<void> => {
-    dispatch({ type: 'AUTH_START' });
+    dispatch({ type: 'AUTH_CLEAR_ERROR' });
 
     try {
       const response = await authService.register(data);
 
       if (response.success) {
-        toast.success('Cuenta creada exitosamente. Por favor, inicia sesión.');
-        dispatch({ type: 'AUTH_CLEAR_ERROR' });
+        toast.success('Cuenta creada. Revisa tu correo para verificarla.');
       } else {
         throw new Error(response.message || 'Error al registrar usuario');
       }
@@ -171,6 +352,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
       const errorMessage = error.message || 'Error al registrar usuario';
       dispatch({ type: 'AUTH_FAILURE', payload: errorMessage });
       toast.error(errorMessage);
+      throw error;
     }
   };
 
@@ -187,23 +369,55 @@ export function AuthProvider({ children }: AuthProviderProps) {
     }
   };
 
-  // Change password function
+  // Change password function. Failures are rethrown so the form can show
+  // field errors; they must not go through AUTH_FAILURE, which signs out
   const changePassword = async (data: ChangePasswordData): Promise<void> => {
-    dispatch({ type: 'AUTH_START' });
+    try {
+      const { response, otherSessionsRevoked } = await authService.changePassword(data, resolvePasswordPolicy(state.company), {
+        name: state.user?.name,
+        email: state.user?.email,
+      });
+
+      if (!response.success) {
+        throw new Error(response.message || 'Error al cambiar contraseña');
+      }
+      if (otherSessionsRevoked) {
+        toast.success('Contraseña cambiada. Cerramos tus sesiones en otros dispositivos.');
+      } else {
+        toast.success('Contraseña cambiada');
+        toast.error('No pudimos cerrar tus otras sesiones. Ciérralas desde Sesiones activas.');
+      }
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Error al cambiar contraseña'));
+      throw error;
+    }
+  };
 
+  // Profile functions
+  const updateProfile = async (data: UpdateProfileData): Promise<void> => {
     try {
-      const response = await authService.changePassword(data);
+      const user = await authService.updateProfile(data);
+      dispatch({ type: 'AUTH_UPDATE_USER', payload: user });
 
-      if (response.success) {
-        toast.success('Contraseña cambiada exitosamente');
-        dispatch({ type: 'AUTH_CLEAR_ERROR' });
+      if (user.pendingEmail && user.pendingEmail !== state.user?.pendingEmail) {
+        toast.success(`Te enviamos un enlace a ${user.pendingEmail} para confirmar tu nuevo correo`);
       } else {
-        throw new Error(response.message || 'Error al cambiar contraseña');
+        toast.success('Perfil actualizado');
       }
-    } catch (error: any) {
-      const errorMessage = error.message || 'Error al cambiar contraseña';
-      dispatch({ type: 'AUTH_FAILURE', payload: errorMessage });
-      toast.error(errorMessage);
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Error al actualizar el perfil'));
+      throw error;
+    }
+  };
+
+  const updateAvatar = async (image: Blob | null): Promise<void> => {
+    try {
+      const user = image ? await authService.uploadAvatar(image) : await authService.removeAvatar();
+      dispatch({ type: 'AUTH_UPDATE_USER', payload: user });
+      toast.success(image ? 'Foto de perfil actualizada' : 'Foto de perfil eliminada');
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Error al actualizar la foto de perfil'));
+      throw error;
     }
   };
 
@@ -212,9 +426,70 @@ export function AuthProvider({ children }: AuthProviderProps) {
     dispatch({ type: 'AUTH_CLEAR_ERROR' });
   };
 
+  // Update user function
+  const updateUser = (user: User): void => {
+    dispatch({ type: 'AUTH_UPDATE_USER', payload: user });
+  };
+
+  // Update company function
+  const updateCompany = (company: Company): void => {
+    dispatch({ type: 'AUTH_UPDATE_COMPANY', payload: company });
+  };
+
+  // Keep-alive from the session warning
+  const extendSession = async (): Promise<void> => {
+    try {
+      await authService.extendSession();
+      toast.success('Sesión extendida');
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'No se pudo extender la sesión'));
+      throw error;
+    }
+  };
+
+  // Terminal lock functions
+  const lockTerminal = (mode: TerminalLockMode): void => {
+    if (!state.user) {
+      return;
+    }
+
+    dispatch({ type: 'AUTH_LOCK', payload: terminalLockService.lock(mode, state.user) });
+  };
+
+  const unlockTerminal = async (userId: string, pin: string): Promise<void> => {
+    const lock = state.terminalLock;
+    if (!lock) {
+      return;
+    }
+
+    try {
+      const response = await authService.unlockWithPin({ userId, pin }, lock.userId);
+
+      if (response.success) {
+        dispatch({
+          type: 'AUTH_SUCCESS',
+          payload: {
+            user: response.data.user,
+            company: response.data.company,
+            accessToken: response.data.accessToken,
+            refreshToken: response.data.refreshToken,
+          },
+        });
+        dispatch({ type: 'AUTH_UNLOCK' });
+        toast.success(`¡Hola, ${response.data.user.name}!`);
+      } else {
+        throw new Error(response.message || 'PIN incorrecto');
+      }
+    } catch (error) {
+      // The company session stays signed in, so only report the failure
+      toast.error(getErrorMessage(error, 'PIN incorrecto'));
+      throw error;
+    }
+  };
+
   // Check authentication status
   const checkAuth = async (): Promise<void> => {
-    if (!authService.isAuthenticated()) {
+    if (!(await authService.restoreSession())) {
       dispatch({ type: 'AUTH_LOGOUT' });
       return;
     }
@@ -222,16 +497,25 @@ export function AuthProvider({ children }: AuthProviderProps) {
     dispatch({ type: 'AUTH_START' });
 
     try {
-      const user = await authService.getCurrentUser();
+      const [user, company] = await Promise.all([
+        authService.getCurrentUser(),
+        authService.getCurrentCompany(),
+      ]);
       const token = authService.getAccessToken();
 
-      if (user && token) {
-        // Note: In a real app, you'd also fetch company data
+      // A user deactivated since their last visit must not get back in
+      if (user && !user.isActive) {
+        await authService.logout();
+        dispatch({ type: 'AUTH_LOGOUT' });
+        return;
+      }
+
+      if (user && company && token) {
         dispatch({
           type: 'AUTH_SUCCESS',
           payload: {
             user,
-            company: {} as Company, // Placeholder
+            company,
             accessToken: token,
             refreshToken: '', // Will be handled by the service
           },
@@ -249,11 +533,20 @@ export function AuthProvider({ children }: AuthProviderProps) {
   const value: AuthContextType = {
     ...state,
     login,
+    verifyTwoFactor,
+    cancelTwoFactor,
     register,
     logout,
     changePassword,
+    updateProfile,
+    updateAvatar,
     clearError,
     checkAuth,
+    updateCompany,
+    updateUser,
+    extendSession,
+    lockTerminal,
+    unlockTerminal,
   };
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
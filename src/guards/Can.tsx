@@ -0,0 +1,16 @@
+import type { ReactNode } from 'react';
+import type { Permission } from '@/types';
+import { usePermission } from '@/hooks';
+
+interface CanProps {
+  permission: Permission | Permission[];
+  /** Require at least one of the permissions instead of all of them */
+  any?: boolean;
+  fallback?: ReactNode;
+  children: ReactNode;
+}
+
+export function Can({ permission, any = false, fallback = null, children }: CanProps) {
+  const allowed = usePermission(permission, { any });
+  return <>{allowed ? children : fallback}</>;
+}
@@ -0,0 +1,21 @@
+import type { ReactNode } from 'react';
+import type { FeatureFlag } from '@/types';
+import { useFeature } from '@/hooks';
+import { UpgradePrompt } from '@/components/ui/UpgradePrompt';
+
+interface FeatureGateProps {
+  feature: FeatureFlag;
+  /** Rendered instead of the upgrade prompt when the plan lacks the feature */
+  fallback?: ReactNode;
+  children: ReactNode;
+}
+
+export function FeatureGate({ feature, fallback, children }: FeatureGateProps) {
+  const enabled = useFeature(feature);
+
+  if (enabled) {
+    return <>{children}</>;
+  }
+
+  return <>{fallback !== undefined ? fallback : <UpgradePrompt feature={feature} />}</>;
+}
@@ -2,19 +2,30 @@ import React from 'react';
 import type { ReactNode } from 'react';
 import { Navigate, useLocation } from 'react-router-dom';
 import { useAuth } from '@/contexts';
+import { can, hasFeature } from '@/services';
+import type { FeatureFlag, Permission } from '@/types';
+import { UpgradePrompt } from '@/components/ui/UpgradePrompt';
 
 interface ProtectedRouteProps {
   children: ReactNode;
   requiredRole?: string[];
+  requiredPermission?: Permission | Permission[];
+  /** Accept any of `requiredPermission` instead of requiring all of them */
+  anyPermission?: boolean;
+  /** Plan feature the company must have; otherwise an upgrade prompt is shown */
+  requiredFeature?: FeatureFlag;
   redirectTo?: string;
 }
 
 export function ProtectedRoute({ 
   children, 
   requiredRole = [], 
+  requiredPermission,
+  anyPermission = false,
+  requiredFeature,
   redirectTo = '/login' 
 }: ProtectedRouteProps) {
-  const { isAuthenticated, user, isLoading } = useAuth();
+  const { isAuthenticated, user, company, isLoading } = useAuth();
   const location = useLocation();
 
   // Show loading while checking authentication
@@ -34,11 +45,13 @@ export function ProtectedRoute({
     return <Navigate to={redirectTo} state={{ from: location }} replace />;
   }
 
-  // Check role-based access
-  if (requiredRole.length > 0 && user) {
-    const hasRequiredRole = requiredRole.includes(user.role);
+  // Check role- and permission-based access
+  if (user) {
+    const hasRequiredRole = requiredRole.length === 0 || requiredRole.includes(user.role);
+    const hasRequiredPermission = !requiredPermission
+      || can(user, requiredPermission, company?.permissionOverrides, anyPermission ? 'any' : 'all');
     
-    if (!hasRequiredRole) {
+    if (!hasRequiredRole || !hasRequiredPermission) {
       return (
         <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-nequi-purple-light to-nequi-purple-dark">
           <div className="bg-white rounded-lg shadow-xl p-8 max-w-md mx-4 text-center">
@@ -61,6 +74,15 @@ export function ProtectedRoute({
     }
   }
 
+  // Check plan-based access
+  if (requiredFeature && !hasFeature(company, requiredFeature)) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-nequi-purple-light to-nequi-purple-dark">
+        <UpgradePrompt feature={requiredFeature} className="max-w-md mx-4" />
+      </div>
+    );
+  }
+
   return <>{children}</>;
 }
 
@@ -1 +1,3 @@
-export { ProtectedRoute, PublicRoute } from './RouteGuards';
\ No newline at end of file
+export { ProtectedRoute, PublicRoute } from './RouteGuards';
+export { Can } from './Can';
+export { FeatureGate } from './FeatureGate';
\ No newline at end of file
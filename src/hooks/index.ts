@@ -1,2 +1,7 @@
 export { usePasswordReset } from './usePasswordReset';
-export { useAuthCheck } from './useAuthCheck';
\ No newline at end of file
+export { useAuthCheck } from './useAuthCheck';
+export { usePermission, usePermissions } from './usePermission';
+export { usePlan, useFeature } from './usePlan';
+export { useCooldown } from './useCooldown';
+export { useDebouncedValue } from './useDebouncedValue';
+export { useClientSegments } from './useClientSegments';
\ No newline at end of file
@@ -0,0 +1,34 @@
+import { useCallback, useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { clientSegmentService } from '@/services';
+import type { ClientSegment } from '@/types';
+import { getErrorMessage } from '@/utils/formErrors';
+
+interface UseClientSegmentsReturn {
+  segments: ClientSegment[];
+  isLoading: boolean;
+  reload: () => Promise<void>;
+}
+
+/** The current user's saved client segments, counts included */
+export function useClientSegments(): UseClientSegmentsReturn {
+  const [segments, setSegments] = useState<ClientSegment[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const reload = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setSegments(await clientSegmentService.list());
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'No se pudieron cargar los segmentos'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  return { segments, isLoading, reload };
+}
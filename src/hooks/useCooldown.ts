@@ -0,0 +1,42 @@
+import { useCallback, useEffect, useState } from 'react';
+
+interface UseCooldownReturn {
+  /** Whole seconds left before the action may run again */
+  remainingSeconds: number;
+  isCoolingDown: boolean;
+  start: (durationMs: number) => void;
+}
+
+function readDeadline(storageKey: string): number {
+  const stored = Number(sessionStorage.getItem(storageKey));
+  return Number.isFinite(stored) && stored > Date.now() ? stored : 0;
+}
+
+/**
+ * Countdown for "resend" style actions. The deadline lives in sessionStorage
+ * under `storageKey`, so reloading the page doesn't reset it.
+ */
+export function useCooldown(storageKey: string): UseCooldownReturn {
+  const [deadline, setDeadline] = useState(() => readDeadline(storageKey));
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (deadline <= now) {
+      return;
+    }
+
+    const timeout = window.setTimeout(() => setNow(Date.now()), 1000);
+    return () => window.clearTimeout(timeout);
+  }, [deadline, now]);
+
+  const start = useCallback((durationMs: number) => {
+    const next = Date.now() + durationMs;
+    sessionStorage.setItem(storageKey, String(next));
+    setNow(Date.now());
+    setDeadline(next);
+  }, [storageKey]);
+
+  const remainingSeconds = Math.max(0, Math.ceil((deadline - now) / 1000));
+
+  return { remainingSeconds, isCoolingDown: remainingSeconds > 0, start };
+}
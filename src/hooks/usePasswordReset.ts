@@ -1,21 +1,35 @@
 import { useState, useCallback } from 'react';
-import type { PasswordResetRequest, PasswordReset } from '@/types';
-import { authService } from '@/services';
+import type { PasswordReset, PasswordPolicy, PasswordResetTokenInfo } from '@/types';
+import { authService, RateLimitError } from '@/services';
+import { getErrorMessage } from '@/utils/formErrors';
+import { useCooldown } from './useCooldown';
 import toast from 'react-hot-toast';
 
+// Minimum wait between reset emails, unless the server asks for longer
+const RESEND_COOLDOWN = 60 * 1000;
+
 interface UsePasswordResetReturn {
   isLoading: boolean;
   error: string | null;
+  /** Seconds until another reset email may be requested */
+  resendCooldown: number;
   requestReset: (email: string) => Promise<boolean>;
-  resetPassword: (data: PasswordReset) => Promise<boolean>;
+  validateToken: (token: string) => Promise<PasswordResetTokenInfo>;
+  resetPassword: (data: PasswordReset, policy?: PasswordPolicy) => Promise<boolean>;
   clearError: () => void;
 }
 
 export function usePasswordReset(): UsePasswordResetReturn {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const cooldown = useCooldown('mercalo_password_reset_cooldown');
+  const { isCoolingDown, start: startCooldown } = cooldown;
 
   const requestReset = useCallback(async (email: string): Promise<boolean> => {
+    if (isCoolingDown) {
+      return false;
+    }
+
     setIsLoading(true);
     setError(null);
 
@@ -23,27 +37,35 @@ export function usePasswordReset(): UsePasswordResetReturn {
       const response = await authService.requestPasswordReset({ email });
       
       if (response.success) {
+        startCooldown(RESEND_COOLDOWN);
         toast.success('Se ha enviado un enlace de recuperación a tu correo electrónico');
         return true;
       } else {
         throw new Error(response.message || 'Error al solicitar recuperación');
       }
-    } catch (err: any) {
-      const errorMessage = err.message || 'Error al solicitar recuperación';
+    } catch (err) {
+      if (err instanceof RateLimitError) {
+        startCooldown(Math.max(err.retryAfter, RESEND_COOLDOWN));
+      }
+      const errorMessage = getErrorMessage(err, 'Error al solicitar recuperación');
       setError(errorMessage);
       toast.error(errorMessage);
       return false;
     } finally {
       setIsLoading(false);
     }
+  }, [isCoolingDown, startCooldown]);
+
+  const validateToken = useCallback((token: string): Promise<PasswordResetTokenInfo> => {
+    return authService.validateResetToken(token);
   }, []);
 
-  const resetPassword = useCallback(async (data: PasswordReset): Promise<boolean> => {
+  const resetPassword = useCallback(async (data: PasswordReset, policy?: PasswordPolicy): Promise<boolean> => {
     setIsLoading(true);
     setError(null);
 
     try {
-      const response = await authService.resetPassword(data);
+      const response = await authService.resetPassword(data, policy);
       
       if (response.success) {
         toast.success('Contraseña restablecida exitosamente');
@@ -68,7 +90,9 @@ export function usePasswordReset(): UsePasswordResetReturn {
   return {
     isLoading,
     error,
+    resendCooldown: cooldown.remainingSeconds,
     requestReset,
+    validateToken,
     resetPassword,
     clearError,
   };
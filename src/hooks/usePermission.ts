@@ -0,0 +1,25 @@
+import { useCallback } from 'react';
+import type { Permission } from '@/types';
+import { useAuth } from '@/contexts';
+import { can } from '@/services';
+
+interface UsePermissionOptions {
+  /** Require at least one of the permissions instead of all of them */
+  any?: boolean;
+}
+
+export function usePermission(permission: Permission | Permission[], options: UsePermissionOptions = {}): boolean {
+  const { user, company } = useAuth();
+  return can(user, permission, company?.permissionOverrides, options.any ? 'any' : 'all');
+}
+
+// For checking several unrelated permissions in one component
+export function usePermissions(): (permission: Permission | Permission[], options?: UsePermissionOptions) => boolean {
+  const { user, company } = useAuth();
+
+  return useCallback(
+    (permission: Permission | Permission[], options: UsePermissionOptions = {}) =>
+      can(user, permission, company?.permissionOverrides, options.any ? 'any' : 'all'),
+    [user, company]
+  );
+}
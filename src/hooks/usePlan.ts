@@ -0,0 +1,27 @@
+import { useMemo } from 'react';
+import type { FeatureFlag, PlanFeatures, PlanLimit, PlanType } from '@/types';
+import { useAuth } from '@/contexts';
+import { getPlanFeatures, hasFeature, isWithinLimit } from '@/services';
+
+interface UsePlanReturn {
+  plan: PlanType | null;
+  features: PlanFeatures;
+  hasFeature: (feature: FeatureFlag) => boolean;
+  isWithinLimit: (limit: PlanLimit, current: number) => boolean;
+}
+
+export function usePlan(): UsePlanReturn {
+  const { company } = useAuth();
+
+  return useMemo(() => ({
+    plan: company?.plan ?? null,
+    features: getPlanFeatures(company),
+    hasFeature: (feature: FeatureFlag) => hasFeature(company, feature),
+    isWithinLimit: (limit: PlanLimit, current: number) => isWithinLimit(company, limit, current),
+  }), [company]);
+}
+
+export function useFeature(feature: FeatureFlag): boolean {
+  const { company } = useAuth();
+  return hasFeature(company, feature);
+}
@@ -0,0 +1,242 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { yupResolver } from '@hookform/resolvers/yup';
+import * as yup from 'yup';
+import { Eye, EyeOff, Lock, User, AlertCircle } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { PasswordStrengthMeter } from '@/components/ui/PasswordStrengthMeter';
+import {
+  DEFAULT_PASSWORD_POLICY,
+  ROLE_LABELS,
+  invitationService,
+  passwordConfirmationSchema,
+  passwordSchema
+} from '@/services';
+import type { InvitationInfo, TokenStatus } from '@/types';
+import { applyServerFieldErrors, getErrorMessage } from '@/utils/formErrors';
+import { AuthLayout, AuthSpinner, TokenError } from './AuthLayout';
+
+const tokenMessages: Record<Exclude<TokenStatus, 'valid'>, { title: string; description: string }> = {
+  expired: {
+    title: 'La invitación expiró',
+    description: 'Pide al administrador de tu negocio que te envíe una nueva invitación.',
+  },
+  used: {
+    title: 'La invitación ya fue aceptada',
+    description: 'Ya tienes una cuenta con esta invitación. Inicia sesión con tu correo y contraseña.',
+  },
+  invalid: {
+    title: 'Invitación no válida',
+    description: 'No reconocemos esta invitación. Puede que haya sido revocada o que el enlace esté incompleto.',
+  },
+};
+
+interface FormData {
+  name: string;
+  password: string;
+  confirmPassword: string;
+}
+
+const inputClassName =
+  'w-full pl-10 pr-12 py-3 bg-white/20 border border-white/30 rounded-lg text-white placeholder-white/60 focus:outline-none focus:ring-2 focus:ring-nequi-pink focus:border-transparent transition-all';
+
+export default function AcceptInvitePage() {
+  const { token = '' } = useParams<{ token: string }>();
+  const navigate = useNavigate();
+  const [invitation, setInvitation] = useState<InvitationInfo | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [showPassword, setShowPassword] = useState(false);
+
+  const policy = invitation?.passwordPolicy ?? DEFAULT_PASSWORD_POLICY;
+  const email = invitation?.email;
+  const schema = useMemo(
+    () =>
+      yup.object({
+        name: yup
+          .string()
+          .required('El nombre es requerido')
+          .min(2, 'El nombre debe tener al menos 2 caracteres'),
+        password: passwordSchema(policy, { email }),
+        confirmPassword: passwordConfirmationSchema('password'),
+      }),
+    [policy, email]
+  );
+
+  const {
+    register,
+    handleSubmit,
+    watch,
+    setError,
+    formState: { errors, isSubmitting },
+  } = useForm<FormData>({
+    resolver: yupResolver(schema),
+    mode: 'onChange',
+  });
+
+  useEffect(() => {
+    let cancelled = false;
+
+    invitationService
+      .validate(token)
+      .then((info) => {
+        if (!cancelled) setInvitation(info);
+      })
+      .catch((err) => {
+        if (!cancelled) setLoadError(getErrorMessage(err, 'No se pudo cargar la invitación'));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
+  const onSubmit = async (data: FormData) => {
+    try {
+      await invitationService.accept({ token, ...data }, policy, email);
+      toast.success('¡Bienvenido! Tu cuenta está lista.');
+      navigate('/login?reason=invite-accepted', { replace: true });
+    } catch (error) {
+      if (applyServerFieldErrors(error, setError).length === 0) {
+        toast.error(getErrorMessage(error, 'No se pudo aceptar la invitación'));
+      }
+    }
+  };
+
+  const renderContent = () => {
+    if (loadError) {
+      return (
+        <div className="bg-red-500/20 border border-red-500/50 rounded-lg p-4 flex items-center space-x-3">
+          <AlertCircle className="w-5 h-5 text-red-300 flex-shrink-0" />
+          <span className="text-red-100 text-sm">{loadError}</span>
+        </div>
+      );
+    }
+
+    if (!invitation) {
+      return <AuthSpinner />;
+    }
+
+    if (invitation.status !== 'valid') {
+      return (
+        <TokenError
+          status={invitation.status}
+          messages={tokenMessages}
+          action={invitation.status === 'used' ? { to: '/login', label: 'Iniciar sesión' } : undefined}
+        />
+      );
+    }
+
+    return (
+      <>
+        <div className="text-center mb-6">
+          <h2 className="text-xl font-semibold text-white mb-2">
+            {invitation.companyName ? `Únete a ${invitation.companyName}` : 'Acepta tu invitación'}
+          </h2>
+          <p className="text-white/80 text-sm">
+            {invitation.invitedByName && <>{invitation.invitedByName} te invitó </>}
+            {invitation.role && (
+              <>
+                {invitation.invitedByName ? 'como ' : 'Tu rol será '}
+                <span className="font-medium text-nequi-pink">{ROLE_LABELS[invitation.role]}</span>
+              </>
+            )}
+            {email && (
+              <>
+                . Tu usuario será <span className="font-medium text-nequi-pink">{email}</span>
+              </>
+            )}
+          </p>
+        </div>
+
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+          {/* Name */}
+          <div className="space-y-2">
+            <label className="block text-white font-medium">Nombre Completo</label>
+            <div className="relative">
+              <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                <User className="h-5 w-5 text-white/60" />
+              </div>
+              <input {...register('name')} className={inputClassName} placeholder="Tu nombre" autoComplete="name" />
+            </div>
+            {errors.name && <p className="text-red-300 text-sm">{errors.name.message}</p>}
+          </div>
+
+          {/* Password */}
+          <div className="space-y-2">
+            <label className="block text-white font-medium">Contraseña</label>
+            <div className="relative">
+              <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                <Lock className="h-5 w-5 text-white/60" />
+              </div>
+              <input
+                {...register('password')}
+                type={showPassword ? 'text' : 'password'}
+                className={inputClassName}
+                placeholder="••••••••"
+                autoComplete="new-password"
+              />
+              <button
+                type="button"
+                className="absolute inset-y-0 right-0 pr-3 flex items-center"
+                onClick={() => setShowPassword(!showPassword)}
+              >
+                {showPassword ? (
+                  <EyeOff className="h-5 w-5 text-white/60 hover:text-white transition-colors" />
+                ) : (
+                  <Eye className="h-5 w-5 text-white/60 hover:text-white transition-colors" />
+                )}
+              </button>
+            </div>
+            {errors.password && <p className="text-red-300 text-sm">{errors.password.message}</p>}
+            <PasswordStrengthMeter
+              password={watch('password') ?? ''}
+              policy={policy}
+              context={{ name: watch('name'), email }}
+              tone="onDark"
+            />
+          </div>
+
+          {/* Confirm Password */}
+          <div className="space-y-2">
+            <label className="block text-white font-medium">Confirmar Contraseña</label>
+            <div className="relative">
+              <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                <Lock className="h-5 w-5 text-white/60" />
+              </div>
+              <input
+                {...register('confirmPassword')}
+                type={showPassword ? 'text' : 'password'}
+                className={inputClassName}
+                placeholder="••••••••"
+                autoComplete="new-password"
+              />
+            </div>
+            {errors.confirmPassword && <p className="text-red-300 text-sm">{errors.confirmPassword.message}</p>}
+          </div>
+
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="w-full bg-nequi-pink hover:bg-nequi-pink-dark disabled:opacity-50 disabled:cursor-not-allowed text-white font-semibold py-3 px-4 rounded-lg transition-all duration-200 transform hover:scale-[1.02] active:scale-[0.98] flex items-center justify-center space-x-2"
+          >
+            {isSubmitting ? (
+              <>
+                <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+                <span>Creando cuenta...</span>
+              </>
+            ) : (
+              <span>Crear mi cuenta</span>
+            )}
+          </button>
+        </form>
+      </>
+    );
+  };
+
+  return (
+    <AuthLayout subtitle="Invitación a MercaloPOS">
+      {renderContent()}
+    </AuthLayout>
+  );
+}
@@ -0,0 +1,106 @@
+import React from 'react';
+import type { ReactNode } from 'react';
+import { Link } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { AlertCircle, ArrowLeft } from 'lucide-react';
+import type { TokenStatus } from '@/types';
+
+interface AuthLayoutProps {
+  subtitle: string;
+  children: ReactNode;
+  showBackToLogin?: boolean;
+}
+
+// Gradient page, logo and glass card shared by the single-purpose auth pages
+export function AuthLayout({ subtitle, children, showBackToLogin = true }: AuthLayoutProps) {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-nequi-purple-light to-nequi-purple-dark flex items-center justify-center p-4">
+      <div className="w-full max-w-md">
+        {/* Logo and Title */}
+        <motion.div
+          initial={{ opacity: 0, y: -20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.6 }}
+          className="text-center mb-8"
+        >
+          <div className="w-20 h-20 bg-white rounded-full flex items-center justify-center mx-auto mb-4 shadow-lg">
+            <span className="text-2xl font-bold text-nequi-purple-dark">M</span>
+          </div>
+          <h1 className="text-3xl font-bold text-white font-raleway mb-2">MercaloPOS</h1>
+          <p className="text-nequi-purple-light">{subtitle}</p>
+        </motion.div>
+
+        {/* Form Container */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.6, delay: 0.2 }}
+          className="bg-white/10 backdrop-blur-lg rounded-2xl p-8 shadow-xl border border-white/20"
+        >
+          {children}
+
+          {showBackToLogin && (
+            <div className="mt-6 text-center">
+              <Link
+                to="/login"
+                className="inline-flex items-center text-nequi-pink hover:text-nequi-pink-light font-medium transition-colors text-sm"
+              >
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Volver al inicio de sesión
+              </Link>
+            </div>
+          )}
+        </motion.div>
+
+        {/* Footer */}
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          transition={{ duration: 0.6, delay: 0.4 }}
+          className="text-center mt-8"
+        >
+          <p className="text-white/60 text-xs">
+            © 2024 MercaloPOS. Todos los derechos reservados.
+          </p>
+        </motion.div>
+      </div>
+    </div>
+  );
+}
+
+export function AuthSpinner() {
+  return (
+    <div className="flex justify-center py-8">
+      <div className="w-8 h-8 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+    </div>
+  );
+}
+
+interface TokenErrorProps {
+  status: Exclude<TokenStatus, 'valid'>;
+  messages: Record<Exclude<TokenStatus, 'valid'>, { title: string; description: string }>;
+  action?: { to: string; label: string };
+}
+
+// Dead-end state for an emailed link that is expired, used or unknown
+export function TokenError({ status, messages, action }: TokenErrorProps) {
+  const message = messages[status];
+
+  return (
+    <div className="text-center">
+      <div className="w-16 h-16 bg-red-500/80 rounded-full flex items-center justify-center mx-auto mb-4">
+        <AlertCircle className="w-8 h-8 text-white" />
+      </div>
+      <h2 className="text-xl font-semibold text-white mb-2">{message.title}</h2>
+      <p className="text-white/80 text-sm mb-6">{message.description}</p>
+      {action && (
+        <Link
+          to={action.to}
+          className="block w-full bg-nequi-pink hover:bg-nequi-pink-dark text-white font-semibold py-3 px-4 rounded-lg transition-all duration-200"
+        >
+          {action.label}
+        </Link>
+      )}
+    </div>
+  );
+}
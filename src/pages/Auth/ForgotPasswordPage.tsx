@@ -21,7 +21,7 @@ interface FormData {
 
 export default function ForgotPasswordPage() {
   const [isSuccess, setIsSuccess] = useState(false);
-  const { requestReset, isLoading, error } = usePasswordReset();
+  const { requestReset, resendCooldown, isLoading, error } = usePasswordReset();
 
   const {
     register,
@@ -39,6 +39,8 @@ export default function ForgotPasswordPage() {
     }
   };
 
+  const handleResend = () => requestReset(getValues('email'));
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-nequi-purple-light to-nequi-purple-dark flex items-center justify-center p-4">
       <div className="w-full max-w-md">
@@ -113,7 +115,7 @@ export default function ForgotPasswordPage() {
                 {/* Submit Button */}
                 <button
                   type="submit"
-                  disabled={isSubmitting || isLoading}
+                  disabled={isSubmitting || isLoading || resendCooldown > 0}
                   className="w-full bg-nequi-pink hover:bg-nequi-pink-dark disabled:opacity-50 disabled:cursor-not-allowed text-white font-semibold py-3 px-4 rounded-lg transition-all duration-200 transform hover:scale-[1.02] active:scale-[0.98] flex items-center justify-center space-x-2"
                 >
                   {(isSubmitting || isLoading) ? (
@@ -121,6 +123,8 @@ export default function ForgotPasswordPage() {
                       <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
                       <span>Enviando...</span>
                     </>
+                  ) : resendCooldown > 0 ? (
+                    <span>Podrás solicitar otro enlace en {resendCooldown}s</span>
                   ) : (
                     <span>Enviar Enlace de Recuperación</span>
                   )}
@@ -148,11 +152,22 @@ export default function ForgotPasswordPage() {
                   <strong>Nota:</strong> Si no recibes el correo en unos minutos, revisa tu carpeta de spam o correo no deseado.
                 </p>
               </div>
+              <button
+                onClick={handleResend}
+                disabled={isLoading || resendCooldown > 0}
+                className="w-full bg-white/20 hover:bg-white/30 disabled:opacity-50 disabled:cursor-not-allowed text-white font-semibold py-3 px-4 rounded-lg transition-all duration-200 mb-2"
+              >
+                {isLoading
+                  ? 'Enviando...'
+                  : resendCooldown > 0
+                    ? `Reenviar en ${resendCooldown}s`
+                    : 'Enviar Nuevamente'}
+              </button>
               <button
                 onClick={() => setIsSuccess(false)}
-                className="w-full bg-white/20 hover:bg-white/30 text-white font-semibold py-3 px-4 rounded-lg transition-all duration-200 mb-4"
+                className="w-full text-white/80 hover:text-white text-sm font-medium py-2 transition-colors mb-4"
               >
-                Enviar Nuevamente
+                Usar otro correo
               </button>
             </motion.div>
           )}
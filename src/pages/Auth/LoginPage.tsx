@@ -1,12 +1,15 @@
 import React, { useState } from 'react';
-import { Link, useNavigate, useLocation } from 'react-router-dom';
+import { Link, useNavigate, useLocation, useSearchParams } from 'react-router-dom';
 import { useForm } from 'react-hook-form';
 import { yupResolver } from '@hookform/resolvers/yup';
 import * as yup from 'yup';
 import { motion } from 'framer-motion';
-import { Eye, EyeOff, Mail, Lock, AlertCircle } from 'lucide-react';
+import { Eye, EyeOff, Mail, Lock, AlertCircle, Info } from 'lucide-react';
 import { useAuth } from '@/contexts';
+import { ApiError } from '@/services';
 import type { LoginCredentials } from '@/types';
+import { applyServerFieldErrors } from '@/utils/formErrors';
+import TwoFactorStep from './TwoFactorStep';
 
 interface FormData {
   email: string;
@@ -14,30 +17,43 @@ interface FormData {
   rememberMe: boolean;
 }
 
+// Explains why the user was sent back to the login page
+const reasonMessages: Record<string, string> = {
+  'session-expired': 'Tu sesión expiró por seguridad. Inicia sesión de nuevo para continuar.',
+  'session-revoked': 'Tu sesión fue cerrada desde otro dispositivo. Inicia sesión de nuevo para continuar.',
+  'password-reset': 'Tu contraseña fue restablecida. Inicia sesión con la nueva contraseña.',
+  'email-verified': 'Tu correo fue verificado. Ya puedes iniciar sesión.',
+  'invite-accepted': 'Tu cuenta fue creada. Inicia sesión con tu correo y la contraseña que elegiste.',
+};
+
 // Validation schema
 const loginSchema = yup.object().shape({
   email: yup
     .string()
     .required('El correo electrónico es requerido')
     .email('Debe ser un correo electrónico válido'),
+  // Only presence is checked here: accounts may predate the current password
+  // policy, and the server is the one that decides whether the password is right
   password: yup
     .string()
-    .required('La contraseña es requerida')
-    .min(6, 'La contraseña debe tener al menos 6 caracteres'),
+    .required('La contraseña es requerida'),
   rememberMe: yup.boolean().default(false),
 });
 
 export default function LoginPage() {
   const [showPassword, setShowPassword] = useState(false);
-  const { login, isLoading, error } = useAuth();
+  const { login, isLoading, error, twoFactorChallenge } = useAuth();
   const navigate = useNavigate();
   const location = useLocation();
+  const [searchParams] = useSearchParams();
+  const reasonMessage = reasonMessages[searchParams.get('reason') ?? ''];
 
   const from = location.state?.from?.pathname || '/dashboard';
 
   const {
     register,
     handleSubmit,
+    setError,
     formState: { errors, isSubmitting },
   } = useForm<FormData>({
     resolver: yupResolver(loginSchema),
@@ -55,10 +71,17 @@ export default function LoginPage() {
         password: data.password,
         rememberMe: data.rememberMe,
       };
-      await login(credentials);
-      navigate(from, { replace: true });
+      const { twoFactorRequired } = await login(credentials);
+      if (!twoFactorRequired) {
+        navigate(from, { replace: true });
+      }
     } catch (error) {
-      // Error handling is done in the context
+      if (error instanceof ApiError && error.code === 'EMAIL_NOT_VERIFIED') {
+        navigate('/verify-email', { state: { email: data.email } });
+        return;
+      }
+      // The context already shows the message; highlight the rejected field
+      applyServerFieldErrors(error, setError);
     }
   };
 
@@ -86,7 +109,19 @@ export default function LoginPage() {
           transition={{ duration: 0.6, delay: 0.2 }}
           className="bg-white/10 backdrop-blur-lg rounded-2xl p-8 shadow-xl border border-white/20"
         >
+          {twoFactorChallenge ? (
+            <TwoFactorStep onVerified={() => navigate(from, { replace: true })} />
+          ) : (
+          <>
           <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+            {/* Why the session ended */}
+            {reasonMessage && !error && (
+              <div className="bg-white/10 border border-white/30 rounded-lg p-4 flex items-center space-x-3">
+                <Info className="w-5 h-5 text-white flex-shrink-0" />
+                <span className="text-white text-sm">{reasonMessage}</span>
+              </div>
+            )}
+
             {/* Error Message */}
             {error && (
               <motion.div
@@ -201,6 +236,8 @@ export default function LoginPage() {
               </Link>
             </p>
           </div>
+          </>
+          )}
         </motion.div>
 
         {/* Footer */}
@@ -1,12 +1,36 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
-import { useForm } from 'react-hook-form';
+import { Controller, useForm } from 'react-hook-form';
+import type { Path } from 'react-hook-form';
 import { yupResolver } from '@hookform/resolvers/yup';
 import * as yup from 'yup';
 import { motion } from 'framer-motion';
-import { Eye, EyeOff, Mail, Lock, User, Building, Phone, MapPin, AlertCircle, CheckCircle } from 'lucide-react';
+import { Eye, EyeOff, Mail, Lock, User, Building, AlertCircle, CheckCircle } from 'lucide-react';
+import { AddressFields } from '@/components/ui/AddressFields';
+import { PasswordStrengthMeter } from '@/components/ui/PasswordStrengthMeter';
+import { PhoneInput } from '@/components/ui/PhoneInput';
 import { useAuth } from '@/contexts';
-import type { RegisterData } from '@/types';
+import { useDebouncedValue } from '@/hooks';
+import {
+  COLOMBIA_CALLING_CODE,
+  DEFAULT_PASSWORD_POLICY,
+  EMPTY_ADDRESS,
+  TAX_DOCUMENT_LABELS,
+  addressSchema,
+  isValidNitDv,
+  lookupNit,
+  nitDvSchema,
+  passwordConfirmationSchema,
+  passwordSchema,
+  phoneSchema,
+  splitNit,
+  taxIdSchema
+} from '@/services';
+import { TaxDocumentType } from '@/types';
+import type { NitLookupResult, RegisterData } from '@/types';
+import { applyServerFieldErrors } from '@/utils/formErrors';
+
+const personalFields: Path<RegisterData>[] = ['name', 'email', 'password', 'confirmPassword'];
 
 // Validation schema
 const registerSchema = yup.object().shape({
@@ -19,18 +43,9 @@ const registerSchema = yup.object().shape({
     .string()
     .required('El correo electrónico es requerido')
     .email('Debe ser un correo electrónico válido'),
-  password: yup
-    .string()
-    .required('La contraseña es requerida')
-    .min(8, 'La contraseña debe tener al menos 8 caracteres')
-    .matches(
-      /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/,
-      'La contraseña debe contener al menos una mayúscula, una minúscula y un número'
-    ),
-  confirmPassword: yup
-    .string()
-    .required('Confirma tu contraseña')
-    .oneOf([yup.ref('password')], 'Las contraseñas no coinciden'),
+  // The company doesn't exist yet, so registration uses the default policy
+  password: passwordSchema(DEFAULT_PASSWORD_POLICY),
+  confirmPassword: passwordConfirmationSchema('password'),
   
   // Company data
   companyName: yup
@@ -40,17 +55,14 @@ const registerSchema = yup.object().shape({
   businessType: yup
     .string()
     .required('El tipo de negocio es requerido'),
-  nit: yup
-    .string()
-    .required('El NIT es requerido')
-    .matches(/^\d+$/, 'El NIT debe contener solo números'),
-  address: yup
-    .string()
-    .required('La dirección es requerida'),
-  phone: yup
-    .string()
-    .required('El teléfono es requerido')
-    .matches(/^\d+$/, 'El teléfono debe contener solo números'),
+  documentType: yup
+    .mixed<TaxDocumentType>()
+    .oneOf(Object.values(TaxDocumentType), 'Selecciona un tipo de documento')
+    .required('El tipo de documento es requerido'),
+  nit: taxIdSchema(),
+  dv: nitDvSchema(),
+  address: addressSchema(),
+  phone: phoneSchema(),
   companyEmail: yup
     .string()
     .required('El correo de la empresa es requerido')
@@ -80,27 +92,86 @@ export default function RegisterPage() {
     handleSubmit,
     formState: { errors, isSubmitting },
     trigger,
+    setError,
+    setValue,
+    getValues,
     watch,
+    control,
   } = useForm<RegisterData>({
     resolver: yupResolver(registerSchema),
     mode: 'onChange',
+    defaultValues: {
+      documentType: TaxDocumentType.NIT,
+      address: EMPTY_ADDRESS,
+      phone: `+${COLOMBIA_CALLING_CODE}`,
+    },
   });
 
+  const documentType = watch('documentType');
+  const isNit = documentType === TaxDocumentType.NIT;
+  const typedNit = splitNit(watch('nit') ?? '').nit;
+  const typedDv = watch('dv') ?? '';
+  const nitToLookUp = useDebouncedValue(isNit && isValidNitDv(typedNit, typedDv) ? typedNit : null, 500);
+  const [nitLookup, setNitLookup] = useState<NitLookupResult | null>(null);
+
+  // Suggest the name registered with the DIAN and catch NITs already in use
+  // before the user submits
+  useEffect(() => {
+    setNitLookup(null);
+    if (!nitToLookUp) {
+      return;
+    }
+
+    let cancelled = false;
+    lookupNit(nitToLookUp)
+      .then((result) => {
+        if (cancelled) return;
+        setNitLookup(result);
+
+        if (result.alreadyRegistered) {
+          setError('nit', { type: 'server', message: 'Este NIT ya está registrado en MercaloPOS' });
+        } else if (result.businessName && !getValues('companyName')) {
+          setValue('companyName', result.businessName, { shouldValidate: true });
+        }
+      })
+      .catch(() => {
+        // The lookup is only a convenience; the server checks duplicates on submit
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [nitToLookUp, setError, setValue, getValues]);
+
+  // Accept a pasted "900.123.456-8" by moving the DV to its own field
+  const handleNitBlur = () => {
+    const { nit, dv } = splitNit(getValues('nit') ?? '');
+    if (dv !== undefined && isNit) {
+      setValue('nit', nit);
+      setValue('dv', dv, { shouldValidate: true });
+    }
+  };
+
   const onSubmit = async (data: RegisterData) => {
     try {
       await registerUser(data);
-      navigate('/login');
+      navigate('/verify-email', { state: { email: data.email } });
     } catch (error) {
-      // Error handling is done in the context
+      // The context already shows the message; highlight the rejected fields
+      // (e.g. a duplicate NIT) and go back to step 1 if one of them lives there
+      const fields = applyServerFieldErrors(error, setError);
+      if (fields.some((field) => personalFields.includes(field))) {
+        setCurrentStep(1);
+      }
     }
   };
 
   const nextStep = async () => {
-    const fieldsToValidate = currentStep === 1 
-      ? ['name', 'email', 'password', 'confirmPassword']
-      : ['companyName', 'businessType', 'nit', 'address', 'phone', 'companyEmail'];
+    const fieldsToValidate: Path<RegisterData>[] = currentStep === 1 
+      ? personalFields
+      : ['companyName', 'businessType', 'documentType', 'nit', 'dv', 'address', 'phone', 'companyEmail'];
     
-    const isValid = await trigger(fieldsToValidate as any);
+    const isValid = await trigger(fieldsToValidate);
     if (isValid) {
       setCurrentStep(2);
     }
@@ -249,6 +320,11 @@ export default function RegisterPage() {
                   {errors.password && (
                     <p className="text-red-300 text-sm">{errors.password.message}</p>
                   )}
+                  <PasswordStrengthMeter
+                    password={watch('password') ?? ''}
+                    context={{ name: watch('name'), email: watch('email') }}
+                    tone="onDark"
+                  />
                 </div>
 
                 {/* Confirm Password */}
@@ -339,53 +415,90 @@ export default function RegisterPage() {
                   )}
                 </div>
 
-                {/* NIT */}
+                {/* Tax ID */}
                 <div className="space-y-2">
-                  <label className="block text-white font-medium">NIT</label>
-                  <input
-                    {...register('nit')}
-                    type="text"
-                    className="w-full py-3 px-4 bg-white/20 border border-white/30 rounded-lg text-white placeholder-white/60 focus:outline-none focus:ring-2 focus:ring-nequi-pink focus:border-transparent transition-all"
-                    placeholder="123456789"
-                  />
+                  <label className="block text-white font-medium">Documento de la Empresa</label>
+                  <select
+                    {...register('documentType')}
+                    className="w-full py-3 px-4 bg-white/20 border border-white/30 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-nequi-pink focus:border-transparent transition-all"
+                  >
+                    {Object.values(TaxDocumentType).map((type) => (
+                      <option key={type} value={type} className="text-gray-900">
+                        {TAX_DOCUMENT_LABELS[type]}
+                      </option>
+                    ))}
+                  </select>
+                  <div className="flex space-x-2">
+                    <input
+                      {...register('nit', { onBlur: handleNitBlur })}
+                      type="text"
+                      inputMode={documentType === TaxDocumentType.PASSPORT ? 'text' : 'numeric'}
+                      className="flex-1 min-w-0 py-3 px-4 bg-white/20 border border-white/30 rounded-lg text-white placeholder-white/60 focus:outline-none focus:ring-2 focus:ring-nequi-pink focus:border-transparent transition-all"
+                      placeholder={isNit ? '900123456' : 'Número de documento'}
+                      aria-label="Número de documento"
+                    />
+                    {isNit && (
+                      <input
+                        {...register('dv')}
+                        type="text"
+                        inputMode="numeric"
+                        maxLength={1}
+                        className="w-16 py-3 px-4 text-center bg-white/20 border border-white/30 rounded-lg text-white placeholder-white/60 focus:outline-none focus:ring-2 focus:ring-nequi-pink focus:border-transparent transition-all"
+                        placeholder="DV"
+                        aria-label="Dígito de verificación"
+                      />
+                    )}
+                  </div>
                   {errors.nit && (
                     <p className="text-red-300 text-sm">{errors.nit.message}</p>
                   )}
+                  {isNit && errors.dv && (
+                    <p className="text-red-300 text-sm">{errors.dv.message}</p>
+                  )}
+                  {nitLookup?.businessName && !nitLookup.alreadyRegistered && (
+                    <p className="text-white/70 text-sm">
+                      Registrado ante la DIAN como <span className="font-medium text-white">{nitLookup.businessName}</span>
+                    </p>
+                  )}
                 </div>
 
                 {/* Address */}
-                <div className="space-y-2">
-                  <label className="block text-white font-medium">Dirección</label>
-                  <div className="relative">
-                    <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                      <MapPin className="h-5 w-5 text-white/60" />
-                    </div>
-                    <input
-                      {...register('address')}
-                      type="text"
-                      className="w-full pl-10 pr-4 py-3 bg-white/20 border border-white/30 rounded-lg text-white placeholder-white/60 focus:outline-none focus:ring-2 focus:ring-nequi-pink focus:border-transparent transition-all"
-                      placeholder="Dirección de la empresa"
+                <Controller
+                  control={control}
+                  name="address"
+                  render={({ field }) => (
+                    <AddressFields
+                      value={field.value}
+                      onChange={field.onChange}
+                      onBlur={field.onBlur}
+                      tone="onDark"
+                      idPrefix="company-address"
+                      errors={{
+                        street: errors.address?.street?.message,
+                        details: errors.address?.details?.message,
+                        departmentCode: errors.address?.departmentCode?.message,
+                        municipalityCode: errors.address?.municipalityCode?.message,
+                      }}
                     />
-                  </div>
-                  {errors.address && (
-                    <p className="text-red-300 text-sm">{errors.address.message}</p>
                   )}
-                </div>
+                />
 
                 {/* Phone */}
                 <div className="space-y-2">
-                  <label className="block text-white font-medium">Teléfono</label>
-                  <div className="relative">
-                    <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                      <Phone className="h-5 w-5 text-white/60" />
-                    </div>
-                    <input
-                      {...register('phone')}
-                      type="tel"
-                      className="w-full pl-10 pr-4 py-3 bg-white/20 border border-white/30 rounded-lg text-white placeholder-white/60 focus:outline-none focus:ring-2 focus:ring-nequi-pink focus:border-transparent transition-all"
-                      placeholder="3001234567"
-                    />
-                  </div>
+                  <label htmlFor="company-phone" className="block text-white font-medium">Teléfono</label>
+                  <Controller
+                    control={control}
+                    name="phone"
+                    render={({ field }) => (
+                      <PhoneInput
+                        id="company-phone"
+                        value={field.value}
+                        onChange={field.onChange}
+                        onBlur={field.onBlur}
+                        tone="onDark"
+                      />
+                    )}
+                  />
                   {errors.phone && (
                     <p className="text-red-300 text-sm">{errors.phone.message}</p>
                   )}
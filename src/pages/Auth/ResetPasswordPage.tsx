@@ -0,0 +1,266 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { yupResolver } from '@hookform/resolvers/yup';
+import { motion } from 'framer-motion';
+import { Eye, EyeOff, Lock, AlertCircle, CheckCircle } from 'lucide-react';
+import { PasswordStrengthMeter } from '@/components/ui/PasswordStrengthMeter';
+import { usePasswordReset } from '@/hooks';
+import { DEFAULT_PASSWORD_POLICY, resetPasswordSchema } from '@/services';
+import type { PasswordResetTokenInfo, TokenStatus } from '@/types';
+import { getErrorMessage } from '@/utils/formErrors';
+import { AuthLayout, AuthSpinner, TokenError } from './AuthLayout';
+
+// Seconds the success message stays up before going to the login page
+const REDIRECT_DELAY = 5;
+
+const tokenMessages: Record<Exclude<TokenStatus, 'valid'>, { title: string; description: string }> = {
+  expired: {
+    title: 'El enlace expiró',
+    description: 'Por seguridad, los enlaces de recuperación vencen pasado un tiempo. Solicita uno nuevo para continuar.',
+  },
+  used: {
+    title: 'El enlace ya fue usado',
+    description: 'Este enlace ya se utilizó para restablecer la contraseña. Si no fuiste tú, solicita uno nuevo.',
+  },
+  invalid: {
+    title: 'Enlace no válido',
+    description: 'No reconocemos este enlace de recuperación. Revisa que lo hayas copiado completo o solicita uno nuevo.',
+  },
+};
+
+interface FormData {
+  password: string;
+  confirmPassword: string;
+}
+
+export default function ResetPasswordPage() {
+  const { token = '' } = useParams<{ token: string }>();
+  const navigate = useNavigate();
+  const { resetPassword, validateToken, isLoading, error } = usePasswordReset();
+  const [tokenInfo, setTokenInfo] = useState<PasswordResetTokenInfo | null>(null);
+  const [validationError, setValidationError] = useState<string | null>(null);
+  const [showPassword, setShowPassword] = useState(false);
+  const [showConfirmPassword, setShowConfirmPassword] = useState(false);
+  const [redirectIn, setRedirectIn] = useState<number | null>(null);
+
+  const policy = tokenInfo?.passwordPolicy ?? DEFAULT_PASSWORD_POLICY;
+  const email = tokenInfo?.email;
+  const schema = useMemo(() => resetPasswordSchema(policy, { email }), [policy, email]);
+
+  const {
+    register,
+    handleSubmit,
+    watch,
+    formState: { errors, isSubmitting },
+  } = useForm<FormData>({
+    resolver: yupResolver(schema),
+    mode: 'onChange',
+  });
+
+  useEffect(() => {
+    let cancelled = false;
+
+    validateToken(token)
+      .then((info) => {
+        if (!cancelled) setTokenInfo(info);
+      })
+      .catch((err) => {
+        if (!cancelled) setValidationError(getErrorMessage(err, 'No se pudo verificar el enlace'));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [token, validateToken]);
+
+  useEffect(() => {
+    if (redirectIn === null) {
+      return;
+    }
+    if (redirectIn <= 0) {
+      navigate('/login?reason=password-reset', { replace: true });
+      return;
+    }
+
+    const timeout = window.setTimeout(() => setRedirectIn(redirectIn - 1), 1000);
+    return () => window.clearTimeout(timeout);
+  }, [redirectIn, navigate]);
+
+  const onSubmit = async (data: FormData) => {
+    const success = await resetPassword({ token, ...data }, policy);
+    if (success) {
+      setRedirectIn(REDIRECT_DELAY);
+      return;
+    }
+
+    // The token may have expired or been used while the form was open
+    try {
+      const info = await validateToken(token);
+      if (info.status !== 'valid') setTokenInfo(info);
+    } catch {
+      // Keep the form; the hook already reported the failure
+    }
+  };
+
+  const renderContent = () => {
+    if (redirectIn !== null) {
+      return (
+        <motion.div initial={{ opacity: 0, scale: 0.95 }} animate={{ opacity: 1, scale: 1 }} className="text-center">
+          <div className="w-16 h-16 bg-green-500 rounded-full flex items-center justify-center mx-auto mb-4">
+            <CheckCircle className="w-8 h-8 text-white" />
+          </div>
+          <h2 className="text-xl font-semibold text-white mb-2">¡Contraseña restablecida!</h2>
+          <p className="text-white/80 text-sm mb-6">
+            Te llevaremos al inicio de sesión en {redirectIn} s.
+          </p>
+          <Link
+            to="/login?reason=password-reset"
+            replace
+            className="block w-full bg-nequi-pink hover:bg-nequi-pink-dark text-white font-semibold py-3 px-4 rounded-lg transition-all duration-200"
+          >
+            Iniciar sesión ahora
+          </Link>
+        </motion.div>
+      );
+    }
+
+    if (validationError) {
+      return (
+        <div className="bg-red-500/20 border border-red-500/50 rounded-lg p-4 flex items-center space-x-3">
+          <AlertCircle className="w-5 h-5 text-red-300 flex-shrink-0" />
+          <span className="text-red-100 text-sm">{validationError}</span>
+        </div>
+      );
+    }
+
+    if (!tokenInfo) {
+      return <AuthSpinner />;
+    }
+
+    if (tokenInfo.status !== 'valid') {
+      return (
+        <TokenError
+          status={tokenInfo.status}
+          messages={tokenMessages}
+          action={{ to: '/forgot-password', label: 'Solicitar un nuevo enlace' }}
+        />
+      );
+    }
+
+    return (
+      <>
+        <div className="text-center mb-6">
+          <h2 className="text-xl font-semibold text-white mb-2">Crea una nueva contraseña</h2>
+          {email && (
+            <p className="text-white/80 text-sm">
+              Para la cuenta <span className="font-medium text-nequi-pink">{email}</span>
+            </p>
+          )}
+        </div>
+
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+          {error && (
+            <motion.div
+              initial={{ opacity: 0, scale: 0.95 }}
+              animate={{ opacity: 1, scale: 1 }}
+              className="bg-red-500/20 border border-red-500/50 rounded-lg p-4 flex items-center space-x-3"
+            >
+              <AlertCircle className="w-5 h-5 text-red-300 flex-shrink-0" />
+              <span className="text-red-100 text-sm">{error}</span>
+            </motion.div>
+          )}
+
+          {/* Password */}
+          <div className="space-y-2">
+            <label className="block text-white font-medium">Nueva Contraseña</label>
+            <div className="relative">
+              <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                <Lock className="h-5 w-5 text-white/60" />
+              </div>
+              <input
+                {...register('password')}
+                type={showPassword ? 'text' : 'password'}
+                className="w-full pl-10 pr-12 py-3 bg-white/20 border border-white/30 rounded-lg text-white placeholder-white/60 focus:outline-none focus:ring-2 focus:ring-nequi-pink focus:border-transparent transition-all"
+                placeholder="••••••••"
+                autoComplete="new-password"
+              />
+              <button
+                type="button"
+                className="absolute inset-y-0 right-0 pr-3 flex items-center"
+                onClick={() => setShowPassword(!showPassword)}
+              >
+                {showPassword ? (
+                  <EyeOff className="h-5 w-5 text-white/60 hover:text-white transition-colors" />
+                ) : (
+                  <Eye className="h-5 w-5 text-white/60 hover:text-white transition-colors" />
+                )}
+              </button>
+            </div>
+            {errors.password && (
+              <p className="text-red-300 text-sm">{errors.password.message}</p>
+            )}
+            <PasswordStrengthMeter
+              password={watch('password') ?? ''}
+              policy={policy}
+              context={{ email }}
+              tone="onDark"
+            />
+          </div>
+
+          {/* Confirm Password */}
+          <div className="space-y-2">
+            <label className="block text-white font-medium">Confirmar Contraseña</label>
+            <div className="relative">
+              <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                <Lock className="h-5 w-5 text-white/60" />
+              </div>
+              <input
+                {...register('confirmPassword')}
+                type={showConfirmPassword ? 'text' : 'password'}
+                className="w-full pl-10 pr-12 py-3 bg-white/20 border border-white/30 rounded-lg text-white placeholder-white/60 focus:outline-none focus:ring-2 focus:ring-nequi-pink focus:border-transparent transition-all"
+                placeholder="••••••••"
+                autoComplete="new-password"
+              />
+              <button
+                type="button"
+                className="absolute inset-y-0 right-0 pr-3 flex items-center"
+                onClick={() => setShowConfirmPassword(!showConfirmPassword)}
+              >
+                {showConfirmPassword ? (
+                  <EyeOff className="h-5 w-5 text-white/60 hover:text-white transition-colors" />
+                ) : (
+                  <Eye className="h-5 w-5 text-white/60 hover:text-white transition-colors" />
+                )}
+              </button>
+            </div>
+            {errors.confirmPassword && (
+              <p className="text-red-300 text-sm">{errors.confirmPassword.message}</p>
+            )}
+          </div>
+
+          <button
+            type="submit"
+            disabled={isSubmitting || isLoading}
+            className="w-full bg-nequi-pink hover:bg-nequi-pink-dark disabled:opacity-50 disabled:cursor-not-allowed text-white font-semibold py-3 px-4 rounded-lg transition-all duration-200 transform hover:scale-[1.02] active:scale-[0.98] flex items-center justify-center space-x-2"
+          >
+            {(isSubmitting || isLoading) ? (
+              <>
+                <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+                <span>Guardando...</span>
+              </>
+            ) : (
+              <span>Restablecer Contraseña</span>
+            )}
+          </button>
+        </form>
+      </>
+    );
+  };
+
+  return (
+    <AuthLayout subtitle="Restablece tu contraseña">
+      {renderContent()}
+    </AuthLayout>
+  );
+}
@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { AlertCircle, ArrowLeft, KeyRound, ShieldCheck } from 'lucide-react';
+import { useAuth } from '@/contexts';
+import type { TwoFactorMethod } from '@/types';
+
+interface TwoFactorStepProps {
+  onVerified: () => void;
+}
+
+const TOTP_PATTERN = /^\d{6}$/;
+const BACKUP_CODE_PATTERN = /^[A-Za-z0-9]{4}-?[A-Za-z0-9]{4}$/;
+
+export default function TwoFactorStep({ onVerified }: TwoFactorStepProps) {
+  const { twoFactorChallenge, verifyTwoFactor, cancelTwoFactor, isLoading, error } = useAuth();
+  const [method, setMethod] = useState<TwoFactorMethod>('totp');
+  const [code, setCode] = useState('');
+  const [inputError, setInputError] = useState<string | null>(null);
+
+  const canUseBackupCode = twoFactorChallenge?.methods.includes('backup_code') ?? false;
+  const isTotp = method === 'totp';
+
+  const toggleMethod = () => {
+    setMethod(isTotp ? 'backup_code' : 'totp');
+    setCode('');
+    setInputError(null);
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const value = code.trim();
+
+    if (!(isTotp ? TOTP_PATTERN : BACKUP_CODE_PATTERN).test(value)) {
+      setInputError(isTotp ? 'Ingresa el código de 6 dígitos' : 'Ingresa un código de respaldo válido');
+      return;
+    }
+
+    setInputError(null);
+    try {
+      await verifyTwoFactor(value, method);
+      onVerified();
+    } catch {
+      // The context already shows the message; let the user try again
+      setCode('');
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <div className="text-center">
+        <div className="w-14 h-14 bg-white/20 rounded-full flex items-center justify-center mx-auto mb-4">
+          {isTotp ? (
+            <ShieldCheck className="w-7 h-7 text-white" />
+          ) : (
+            <KeyRound className="w-7 h-7 text-white" />
+          )}
+        </div>
+        <h2 className="text-xl font-semibold text-white font-raleway mb-2">Verificación en dos pasos</h2>
+        <p className="text-white/80 text-sm">
+          {isTotp
+            ? 'Ingresa el código de 6 dígitos de tu aplicación de autenticación.'
+            : 'Ingresa uno de los códigos de respaldo que guardaste al activar la verificación.'}
+        </p>
+      </div>
+
+      {error && (
+        <motion.div
+          initial={{ opacity: 0, scale: 0.95 }}
+          animate={{ opacity: 1, scale: 1 }}
+          className="bg-red-500/20 border border-red-500/50 rounded-lg p-4 flex items-center space-x-3"
+        >
+          <AlertCircle className="w-5 h-5 text-red-300 flex-shrink-0" />
+          <span className="text-red-100 text-sm">{error}</span>
+        </motion.div>
+      )}
+
+      <div className="space-y-2">
+        <input
+          value={code}
+          onChange={(event) => setCode(isTotp ? event.target.value.replace(/\D/g, '').slice(0, 6) : event.target.value)}
+          inputMode={isTotp ? 'numeric' : 'text'}
+          autoComplete="one-time-code"
+          autoFocus
+          className="w-full px-4 py-3 bg-white/20 border border-white/30 rounded-lg text-white text-center text-2xl tracking-[0.5em] placeholder-white/40 focus:outline-none focus:ring-2 focus:ring-nequi-pink focus:border-transparent transition-all"
+          placeholder={isTotp ? '000000' : 'XXXX-XXXX'}
+          aria-label={isTotp ? 'Código de verificación' : 'Código de respaldo'}
+        />
+        {inputError && <p className="text-red-300 text-sm">{inputError}</p>}
+      </div>
+
+      <button
+        type="submit"
+        disabled={isLoading}
+        className="w-full bg-nequi-pink hover:bg-nequi-pink-dark disabled:opacity-50 disabled:cursor-not-allowed text-white font-semibold py-3 px-4 rounded-lg transition-all duration-200 flex items-center justify-center space-x-2"
+      >
+        {isLoading ? (
+          <>
+            <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+            <span>Verificando...</span>
+          </>
+        ) : (
+          <span>Verificar</span>
+        )}
+      </button>
+
+      <div className="flex items-center justify-between text-sm">
+        <button
+          type="button"
+          onClick={cancelTwoFactor}
+          className="flex items-center space-x-1 text-white/80 hover:text-white transition-colors"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          <span>Volver</span>
+        </button>
+        {canUseBackupCode && (
+          <button
+            type="button"
+            onClick={toggleMethod}
+            className="text-nequi-pink hover:text-nequi-pink-light transition-colors"
+          >
+            {isTotp ? 'Usar un código de respaldo' : 'Usar la aplicación de autenticación'}
+          </button>
+        )}
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,75 @@
+import React, { useState } from 'react';
+import { useLocation, useSearchParams } from 'react-router-dom';
+import { MailCheck } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useCooldown } from '@/hooks';
+import { authService, RateLimitError } from '@/services';
+import { getErrorMessage } from '@/utils/formErrors';
+import { AuthLayout } from './AuthLayout';
+
+// Minimum wait between verification emails, unless the server asks for longer
+const RESEND_COOLDOWN = 60 * 1000;
+
+export default function VerificationPendingPage() {
+  const location = useLocation();
+  const [searchParams] = useSearchParams();
+  const email: string = location.state?.email ?? searchParams.get('email') ?? '';
+  const [isSending, setIsSending] = useState(false);
+  const { remainingSeconds, isCoolingDown, start } = useCooldown('mercalo_verification_cooldown');
+
+  const handleResend = async () => {
+    setIsSending(true);
+    try {
+      await authService.resendVerificationEmail(email);
+      start(RESEND_COOLDOWN);
+      toast.success('Te enviamos un nuevo enlace de verificación');
+    } catch (error) {
+      if (error instanceof RateLimitError) {
+        start(Math.max(error.retryAfter, RESEND_COOLDOWN));
+      }
+      toast.error(getErrorMessage(error, 'No se pudo reenviar el correo'));
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <AuthLayout subtitle="Verifica tu correo electrónico">
+      <div className="text-center">
+        <div className="w-16 h-16 bg-nequi-pink rounded-full flex items-center justify-center mx-auto mb-4">
+          <MailCheck className="w-8 h-8 text-white" />
+        </div>
+        <h2 className="text-xl font-semibold text-white mb-2">Revisa tu bandeja de entrada</h2>
+        <p className="text-white/80 text-sm mb-6">
+          {email ? (
+            <>
+              Enviamos un enlace de verificación a{' '}
+              <span className="font-medium text-nequi-pink">{email}</span>.
+            </>
+          ) : (
+            'Enviamos un enlace de verificación a tu correo.'
+          )}{' '}
+          Ábrelo para activar tu cuenta y poder iniciar sesión.
+        </p>
+        <div className="bg-blue-500/20 border border-blue-500/50 rounded-lg p-4 mb-6">
+          <p className="text-blue-100 text-sm">
+            <strong>Nota:</strong> Si no recibes el correo en unos minutos, revisa tu carpeta de spam o correo no deseado.
+          </p>
+        </div>
+        {email && (
+          <button
+            onClick={handleResend}
+            disabled={isSending || isCoolingDown}
+            className="w-full bg-white/20 hover:bg-white/30 disabled:opacity-50 disabled:cursor-not-allowed text-white font-semibold py-3 px-4 rounded-lg transition-all duration-200"
+          >
+            {isSending
+              ? 'Enviando...'
+              : isCoolingDown
+                ? `Reenviar en ${remainingSeconds}s`
+                : 'Reenviar correo de verificación'}
+          </button>
+        )}
+      </div>
+    </AuthLayout>
+  );
+}
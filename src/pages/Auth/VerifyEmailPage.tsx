@@ -0,0 +1,114 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { CheckCircle } from 'lucide-react';
+import { useAuth } from '@/contexts';
+import { authService } from '@/services';
+import type { EmailVerificationResult, TokenStatus } from '@/types';
+import { getErrorMessage } from '@/utils/formErrors';
+import { AuthLayout, AuthSpinner, TokenError } from './AuthLayout';
+
+const tokenMessages: Record<Exclude<TokenStatus, 'valid'>, { title: string; description: string }> = {
+  expired: {
+    title: 'El enlace expiró',
+    description: 'Los enlaces de verificación vencen pasado un tiempo. Inicia sesión para recibir uno nuevo.',
+  },
+  used: {
+    title: 'Correo ya verificado',
+    description: 'Este enlace ya se usó. Si tu correo está confirmado, puedes iniciar sesión normalmente.',
+  },
+  invalid: {
+    title: 'Enlace no válido',
+    description: 'No reconocemos este enlace de verificación. Revisa que lo hayas copiado completo.',
+  },
+};
+
+/**
+ * Confirms the address from the emailed link. Also used for email changes
+ * made in Settings, in which case the user is already signed in.
+ */
+export default function VerifyEmailPage() {
+  const { token = '' } = useParams<{ token: string }>();
+  const { isAuthenticated, updateUser } = useAuth();
+  const [result, setResult] = useState<EmailVerificationResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Tokens are single-use, so StrictMode's second effect run must not re-send it
+  const requestedToken = useRef<string | null>(null);
+  const refreshedUser = useRef(false);
+
+  useEffect(() => {
+    if (requestedToken.current === token) {
+      return;
+    }
+    requestedToken.current = token;
+
+    authService
+      .verifyEmail(token)
+      .then(setResult)
+      .catch((err) => setError(getErrorMessage(err, 'No se pudo verificar el correo')));
+  }, [token]);
+
+  // A confirmed email change should show up in the header right away
+  useEffect(() => {
+    if (result?.status !== 'valid' || !isAuthenticated || refreshedUser.current) {
+      return;
+    }
+    refreshedUser.current = true;
+
+    authService
+      .getCurrentUser()
+      .then(updateUser)
+      .catch(() => {
+        // The next session check picks up the new email anyway
+      });
+  }, [result, isAuthenticated, updateUser]);
+
+  const renderContent = () => {
+    if (error) {
+      return <p className="text-center text-red-100 text-sm">{error}</p>;
+    }
+
+    if (!result) {
+      return <AuthSpinner />;
+    }
+
+    if (result.status !== 'valid') {
+      return (
+        <TokenError
+          status={result.status}
+          messages={tokenMessages}
+          action={isAuthenticated ? undefined : { to: '/login', label: 'Ir al inicio de sesión' }}
+        />
+      );
+    }
+
+    return (
+      <div className="text-center">
+        <div className="w-16 h-16 bg-green-500 rounded-full flex items-center justify-center mx-auto mb-4">
+          <CheckCircle className="w-8 h-8 text-white" />
+        </div>
+        <h2 className="text-xl font-semibold text-white mb-2">¡Correo verificado!</h2>
+        <p className="text-white/80 text-sm mb-6">
+          {result.email ? (
+            <>
+              Confirmamos <span className="font-medium text-nequi-pink">{result.email}</span>.{' '}
+            </>
+          ) : null}
+          {isAuthenticated ? 'Ya puedes seguir usando MercaloPOS.' : 'Ya puedes iniciar sesión en tu cuenta.'}
+        </p>
+        <Link
+          to={isAuthenticated ? '/settings' : '/login?reason=email-verified'}
+          replace
+          className="block w-full bg-nequi-pink hover:bg-nequi-pink-dark text-white font-semibold py-3 px-4 rounded-lg transition-all duration-200"
+        >
+          {isAuthenticated ? 'Volver a configuración' : 'Iniciar sesión'}
+        </Link>
+      </div>
+    );
+  };
+
+  return (
+    <AuthLayout subtitle="Verificación de correo" showBackToLogin={!isAuthenticated}>
+      {renderContent()}
+    </AuthLayout>
+  );
+}
@@ -1,3 +1,7 @@
 export { default as LoginPage } from './LoginPage';
 export { default as RegisterPage } from './RegisterPage';
-export { default as ForgotPasswordPage } from './ForgotPasswordPage';
\ No newline at end of file
+export { default as ForgotPasswordPage } from './ForgotPasswordPage';
+export { default as ResetPasswordPage } from './ResetPasswordPage';
+export { default as VerificationPendingPage } from './VerificationPendingPage';
+export { default as VerifyEmailPage } from './VerifyEmailPage';
+export { default as AcceptInvitePage } from './AcceptInvitePage';
\ No newline at end of file
@@ -0,0 +1,23 @@
+import React from 'react';
+import { AGING_BUCKETS } from '@/services';
+import type { AgingBucket, CreditAging } from '@/types';
+import { formatCurrency } from '@/utils/format';
+
+const BUCKET_CLASSES: Record<AgingBucket, string> = {
+  current: 'bg-green-50 text-green-700 dark:bg-green-900/20 dark:text-green-400',
+  days31to60: 'bg-yellow-50 text-yellow-700 dark:bg-yellow-900/20 dark:text-yellow-400',
+  days61to90: 'bg-orange-50 text-orange-700 dark:bg-orange-900/20 dark:text-orange-400',
+  over90: 'bg-red-50 text-red-700 dark:bg-red-900/20 dark:text-red-400',
+};
+
+/** Outstanding balance split into 0-30/31-60/61-90/90+ days */
+export const AgingBreakdown: React.FC<{ aging: CreditAging }> = ({ aging }) => (
+  <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+    {AGING_BUCKETS.map(({ bucket, label }) => (
+      <div key={bucket} className={`rounded-lg p-3 print:border print:border-gray-300 ${BUCKET_CLASSES[bucket]}`}>
+        <p className="text-xs font-medium">{label}</p>
+        <p className="text-lg font-bold">{formatCurrency(aging[bucket])}</p>
+      </div>
+    ))}
+  </div>
+);
@@ -0,0 +1,381 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import {
+  ArrowLeft,
+  CalendarClock,
+  HandCoins,
+  Mail,
+  MapPin,
+  Pencil,
+  Phone,
+  Receipt,
+  RefreshCw,
+  ShoppingCart,
+  StickyNote,
+  TrendingUp,
+  Wallet
+} from 'lucide-react';
+import toast from 'react-hot-toast';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Can } from '@/guards';
+import {
+  ApiError,
+  TAX_DOCUMENT_ABBREVIATIONS,
+  TAX_REGIME_LABELS,
+  clientService,
+  formatAddress,
+  formatPhone,
+  formatTaxId
+} from '@/services';
+import { Permission } from '@/types';
+import type { Client, ClientActivity, ClientActivityType, ClientStats } from '@/types';
+import { getErrorMessage } from '@/utils/formErrors';
+import { formatCurrency, formatDate } from '@/utils/format';
+import { ClientFormDialog } from './ClientFormDialog';
+import { CreditAccountCard } from './CreditAccountCard';
+import { RfmBadge } from './RfmBadge';
+
+const ACTIVITY_PAGE_SIZE = 15;
+const MAX_NOTE_LENGTH = 500;
+
+const ACTIVITY_STYLES: Record<ClientActivityType, { icon: React.ComponentType<{ className?: string }>; className: string }> = {
+  sale: { icon: ShoppingCart, className: 'bg-pink-100 text-nequi-pink dark:bg-pink-900/30' },
+  payment: { icon: HandCoins, className: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400' },
+  note: { icon: StickyNote, className: 'bg-gray-100 text-gray-600 dark:bg-gray-800 dark:text-gray-300' },
+};
+
+const StatCard: React.FC<{
+  title: string;
+  value: string;
+  detail?: string;
+  icon: React.ComponentType<{ className?: string }>;
+  highlight?: boolean;
+}> = ({ title, value, detail, icon: Icon, highlight }) => (
+  <Card className="card-shadow">
+    <CardContent className="pt-6">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium text-gray-600 dark:text-gray-400">{title}</span>
+        <Icon className="h-5 w-5 text-nequi-pink" />
+      </div>
+      <p className={`text-2xl font-bold mt-2 ${highlight ? 'text-red-600 dark:text-red-400' : 'text-gray-900 dark:text-white'}`}>
+        {value}
+      </p>
+      {detail && <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{detail}</p>}
+    </CardContent>
+  </Card>
+);
+
+export const ClientDetail: React.FC = () => {
+  const { id = '' } = useParams<{ id: string }>();
+  const [client, setClient] = useState<Client | null>(null);
+  const [stats, setStats] = useState<ClientStats | null>(null);
+  const [activity, setActivity] = useState<ClientActivity[]>([]);
+  const [activityPage, setActivityPage] = useState(1);
+  const [hasMoreActivity, setHasMoreActivity] = useState(false);
+  const [isLoadingActivity, setIsLoadingActivity] = useState(false);
+  const [notFound, setNotFound] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [isEditing, setIsEditing] = useState(false);
+  const [note, setNote] = useState('');
+  const [isSavingNote, setIsSavingNote] = useState(false);
+
+  const loadActivity = useCallback(
+    async (page: number) => {
+      setIsLoadingActivity(true);
+      try {
+        const result = await clientService.getActivity(id, { page, limit: ACTIVITY_PAGE_SIZE });
+        setActivity((current) => (page === 1 ? result.data : [...current, ...result.data]));
+        setActivityPage(page);
+        setHasMoreActivity(result.pagination.hasNext);
+      } catch (error) {
+        toast.error(getErrorMessage(error, 'No se pudo cargar el historial'));
+      } finally {
+        setIsLoadingActivity(false);
+      }
+    },
+    [id]
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    setClient(null);
+    setStats(null);
+    setNotFound(false);
+    setLoadError(null);
+
+    Promise.all([clientService.get(id), clientService.getStats(id)])
+      .then(([loadedClient, loadedStats]) => {
+        if (cancelled) return;
+        setClient(loadedClient);
+        setStats(loadedStats);
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        if (error instanceof ApiError && error.status === 404) {
+          setNotFound(true);
+        } else {
+          setLoadError(getErrorMessage(error, 'No se pudo cargar el cliente'));
+        }
+      });
+    loadActivity(1);
+
+    return () => {
+      cancelled = true;
+    };
+  }, [id, loadActivity, reloadKey]);
+
+  // Charges and payments change the balance and add timeline entries
+  const handleCreditChanged = () => {
+    clientService
+      .getStats(id)
+      .then(setStats)
+      .catch(() => {
+        // The figures catch up on the next visit
+      });
+    loadActivity(1);
+  };
+
+  const handleAddNote = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!note.trim()) {
+      return;
+    }
+
+    setIsSavingNote(true);
+    try {
+      const created = await clientService.addNote(id, note.trim());
+      setActivity((current) => [created, ...current]);
+      setNote('');
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'No se pudo guardar la nota'));
+    } finally {
+      setIsSavingNote(false);
+    }
+  };
+
+  if (notFound) {
+    return (
+      <Card className="card-shadow">
+        <CardContent className="pt-6 text-center space-y-4">
+          <p className="text-gray-600 dark:text-gray-400">Este cliente no existe o fue eliminado.</p>
+          <Link to="/clients" className="inline-flex items-center text-nequi-pink hover:text-nequi-pink-dark font-medium">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Volver a clientes
+          </Link>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (loadError) {
+    return (
+      <Card className="card-shadow">
+        <CardContent className="pt-6 text-center space-y-4">
+          <p className="text-gray-600 dark:text-gray-400">{loadError}</p>
+          <Button variant="outline" onClick={() => setReloadKey((key) => key + 1)}>
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Reintentar
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (!client || !stats) {
+    return (
+      <div className="flex justify-center py-16">
+        <div className="w-8 h-8 border-4 border-nequi-pink border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.4 }}
+      className="space-y-6"
+    >
+      <div>
+        <Link
+          to="/clients"
+          className="inline-flex items-center text-sm text-gray-600 dark:text-gray-400 hover:text-nequi-pink mb-3"
+        >
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Clientes
+        </Link>
+        <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 dark:text-white">{client.name}</h1>
+            <p className="text-gray-600 dark:text-gray-400 mt-2">
+              {TAX_DOCUMENT_ABBREVIATIONS[client.documentType]}{' '}
+              {formatTaxId(client.documentType, client.documentNumber, client.dv)} ·{' '}
+              {TAX_REGIME_LABELS[client.taxRegime]}
+            </p>
+            {(client.tags.length > 0 || client.rfm) && (
+              <div className="flex flex-wrap gap-1 mt-3">
+                {client.rfm && <RfmBadge rfm={client.rfm} />}
+                {client.tags.map((tag) => (
+                  <span
+                    key={tag}
+                    className="px-2 py-0.5 rounded-full text-xs font-medium bg-pink-100 text-nequi-pink dark:bg-pink-900/30"
+                  >
+                    {tag}
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+          <Can permission={Permission.CLIENTS_EDIT}>
+            <Button variant="outline" onClick={() => setIsEditing(true)}>
+              <Pencil className="h-4 w-4 mr-2" />
+              Editar
+            </Button>
+          </Can>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
+        <StatCard
+          title="Valor de vida"
+          value={formatCurrency(stats.lifetimeValue)}
+          detail={`${stats.purchaseCount.toLocaleString('es-CO')} compras`}
+          icon={TrendingUp}
+        />
+        <StatCard title="Ticket promedio" value={formatCurrency(stats.averageTicket)} icon={Receipt} />
+        <StatCard
+          title="Última compra"
+          value={stats.lastPurchaseAt ? formatDate(stats.lastPurchaseAt) : 'Sin compras'}
+          icon={CalendarClock}
+        />
+        <StatCard
+          title="Saldo fiado"
+          value={formatCurrency(stats.creditBalance)}
+          detail={stats.creditBalance > 0 ? 'Pendiente por cobrar' : 'Al día'}
+          icon={Wallet}
+          highlight={stats.creditBalance > 0}
+        />
+      </div>
+
+      <Can permission={Permission.CREDIT_VIEW}>
+        <CreditAccountCard clientId={id} onChanged={handleCreditChanged} />
+      </Can>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <Card className="card-shadow">
+          <CardHeader>
+            <CardTitle>Perfil</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3 text-sm">
+            <p className="flex items-start space-x-2 text-gray-700 dark:text-gray-300">
+              <Mail className="h-4 w-4 mt-0.5 text-gray-400 flex-shrink-0" />
+              <span>{client.email || 'Sin correo'}</span>
+            </p>
+            <p className="flex items-start space-x-2 text-gray-700 dark:text-gray-300">
+              <Phone className="h-4 w-4 mt-0.5 text-gray-400 flex-shrink-0" />
+              <span>{formatPhone(client.phone) || 'Sin teléfono'}</span>
+            </p>
+            <p className="flex items-start space-x-2 text-gray-700 dark:text-gray-300">
+              <MapPin className="h-4 w-4 mt-0.5 text-gray-400 flex-shrink-0" />
+              <span>{formatAddress(client.address) || 'Sin dirección'}</span>
+            </p>
+            <p className="text-xs text-gray-500 dark:text-gray-400 pt-2">
+              Cliente desde {formatDate(client.createdAt)}
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card className="card-shadow lg:col-span-2">
+          <CardHeader>
+            <CardTitle>Historial</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Can permission={Permission.CLIENTS_EDIT}>
+              <form onSubmit={handleAddNote} className="space-y-2">
+                <textarea
+                  value={note}
+                  onChange={(event) => setNote(event.target.value)}
+                  maxLength={MAX_NOTE_LENGTH}
+                  rows={2}
+                  placeholder="Agregar una nota sobre este cliente"
+                  aria-label="Nueva nota"
+                  className="w-full rounded-md border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 px-3 py-2 text-sm text-gray-900 dark:text-white placeholder:text-gray-400 focus:outline-none focus:ring-2 focus:ring-nequi-pink"
+                />
+                <div className="flex justify-end">
+                  <Button
+                    type="submit"
+                    size="sm"
+                    disabled={isSavingNote || !note.trim()}
+                    className="bg-nequi-pink hover:bg-nequi-pink-dark text-white"
+                  >
+                    {isSavingNote ? 'Guardando...' : 'Agregar nota'}
+                  </Button>
+                </div>
+              </form>
+            </Can>
+
+            {activity.length === 0 && !isLoadingActivity && (
+              <p className="text-center text-gray-500 dark:text-gray-400 py-6">Todavía no hay movimientos.</p>
+            )}
+
+            <ol className="relative border-l border-gray-200 dark:border-gray-700 ml-4">
+              {activity.map((item) => {
+                const { icon: Icon, className } = ACTIVITY_STYLES[item.type];
+
+                return (
+                  <li key={item.id} className="mb-6 ml-6">
+                    <span className={`absolute -left-4 flex items-center justify-center w-8 h-8 rounded-full ${className}`}>
+                      <Icon className="h-4 w-4" />
+                    </span>
+                    <div className="flex items-start justify-between gap-4">
+                      <div>
+                        <p className="text-sm text-gray-900 dark:text-white whitespace-pre-line">{item.description}</p>
+                        <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                          {formatDate(item.date, { dateStyle: 'medium', timeStyle: 'short' })}
+                          {item.reference && ` · ${item.reference}`}
+                          {item.createdByName && ` · ${item.createdByName}`}
+                        </p>
+                      </div>
+                      {item.amount !== undefined && (
+                        <span
+                          className={`text-sm font-medium whitespace-nowrap ${
+                            item.type === 'payment' ? 'text-green-600 dark:text-green-400' : 'text-gray-900 dark:text-white'
+                          }`}
+                        >
+                          {item.type === 'payment' ? '+' : ''}
+                          {formatCurrency(item.amount)}
+                        </span>
+                      )}
+                    </div>
+                  </li>
+                );
+              })}
+            </ol>
+
+            {hasMoreActivity && (
+              <div className="flex justify-center">
+                <Button variant="outline" size="sm" onClick={() => loadActivity(activityPage + 1)} disabled={isLoadingActivity}>
+                  {isLoadingActivity ? 'Cargando...' : 'Ver más'}
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {isEditing && (
+        <ClientFormDialog
+          client={client}
+          onClose={() => setIsEditing(false)}
+          onSaved={(saved) => {
+            setClient(saved);
+            setIsEditing(false);
+          }}
+        />
+      )}
+    </motion.div>
+  );
+};
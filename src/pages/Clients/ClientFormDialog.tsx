@@ -0,0 +1,236 @@
+import React from 'react';
+import { Controller, useForm } from 'react-hook-form';
+import { yupResolver } from '@hookform/resolvers/yup';
+import { X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { AddressFields } from '@/components/ui/AddressFields';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { PhoneInput } from '@/components/ui/PhoneInput';
+import { Select } from '@/components/ui/Select';
+import {
+  EMPTY_CLIENT_FORM,
+  MAX_CLIENT_TAGS,
+  TAX_DOCUMENT_LABELS,
+  TAX_REGIME_LABELS,
+  clientSchema,
+  clientService,
+  splitNit,
+  toClientFormData
+} from '@/services';
+import { TaxDocumentType, TaxRegime } from '@/types';
+import type { Client, ClientFormData } from '@/types';
+import { applyServerFieldErrors, getErrorMessage } from '@/utils/formErrors';
+import { TagInput } from './TagInput';
+
+interface ClientFormDialogProps {
+  /** The client to edit; omit to create one */
+  client?: Client | null;
+  tagSuggestions?: string[];
+  onClose: () => void;
+  onSaved: (client: Client) => void;
+}
+
+const schema = clientSchema();
+
+const labelClassName = 'text-sm font-medium text-gray-900 dark:text-white';
+const errorClassName = 'text-sm text-red-600 dark:text-red-400';
+
+export const ClientFormDialog: React.FC<ClientFormDialogProps> = ({ client, tagSuggestions, onClose, onSaved }) => {
+  const isEditing = !!client;
+
+  const {
+    register,
+    handleSubmit,
+    control,
+    watch,
+    getValues,
+    setValue,
+    setError,
+    formState: { errors, isSubmitting },
+  } = useForm<ClientFormData>({
+    resolver: yupResolver(schema),
+    defaultValues: client ? toClientFormData(client) : EMPTY_CLIENT_FORM,
+  });
+
+  const documentType = watch('documentType');
+  const isNit = documentType === TaxDocumentType.NIT;
+
+  // Accept a pasted "900.123.456-8" by moving the DV to its own field
+  const handleDocumentBlur = () => {
+    const { nit, dv } = splitNit(getValues('documentNumber') ?? '');
+    if (dv !== undefined && isNit) {
+      setValue('documentNumber', nit);
+      setValue('dv', dv, { shouldValidate: true });
+    }
+  };
+
+  const onSubmit = async (data: ClientFormData) => {
+    try {
+      const saved = client ? await clientService.update(client.id, data) : await clientService.create(data);
+      toast.success(isEditing ? 'Cliente actualizado' : 'Cliente creado');
+      onSaved(saved);
+    } catch (error) {
+      if (applyServerFieldErrors(error, setError).length === 0) {
+        toast.error(getErrorMessage(error, 'No se pudo guardar el cliente'));
+      }
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-2xl max-w-2xl w-full max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 pb-4">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+            {isEditing ? 'Editar cliente' : 'Nuevo cliente'}
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+            aria-label="Cerrar"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit(onSubmit)} className="flex flex-col min-h-0" noValidate>
+          <div className="space-y-4 overflow-y-auto px-6 pb-2">
+            <div className="space-y-2">
+              <label htmlFor="client-name" className={labelClassName}>
+                Nombre o razón social
+              </label>
+              <Input id="client-name" {...register('name')} autoFocus />
+              {errors.name && <p className={errorClassName}>{errors.name.message}</p>}
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <label htmlFor="client-document-type" className={labelClassName}>
+                  Tipo de documento
+                </label>
+                <Select id="client-document-type" {...register('documentType')} className="w-full">
+                  {Object.values(TaxDocumentType).map((type) => (
+                    <option key={type} value={type}>
+                      {TAX_DOCUMENT_LABELS[type]}
+                    </option>
+                  ))}
+                </Select>
+              </div>
+              <div className="space-y-2 sm:col-span-2">
+                <label htmlFor="client-document-number" className={labelClassName}>
+                  Número de documento
+                </label>
+                <div className="flex space-x-2">
+                  <Input
+                    id="client-document-number"
+                    {...register('documentNumber', { onBlur: handleDocumentBlur })}
+                    inputMode={documentType === TaxDocumentType.PASSPORT ? 'text' : 'numeric'}
+                    className="flex-1"
+                  />
+                  {isNit && (
+                    <Input
+                      {...register('dv')}
+                      inputMode="numeric"
+                      maxLength={1}
+                      className="w-16 text-center"
+                      placeholder="DV"
+                      aria-label="Dígito de verificación"
+                    />
+                  )}
+                </div>
+                {errors.documentNumber && <p className={errorClassName}>{errors.documentNumber.message}</p>}
+                {isNit && errors.dv && <p className={errorClassName}>{errors.dv.message}</p>}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <label htmlFor="client-email" className={labelClassName}>
+                  Correo electrónico <span className="font-normal text-gray-500">(opcional)</span>
+                </label>
+                <Input id="client-email" type="email" {...register('email')} />
+                {errors.email && <p className={errorClassName}>{errors.email.message}</p>}
+              </div>
+              <div className="space-y-2">
+                <label htmlFor="client-phone" className={labelClassName}>
+                  Teléfono <span className="font-normal text-gray-500">(opcional)</span>
+                </label>
+                <Controller
+                  control={control}
+                  name="phone"
+                  render={({ field }) => (
+                    <PhoneInput id="client-phone" value={field.value} onChange={field.onChange} onBlur={field.onBlur} />
+                  )}
+                />
+                {errors.phone && <p className={errorClassName}>{errors.phone.message}</p>}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <label htmlFor="client-tax-regime" className={labelClassName}>
+                Régimen tributario
+              </label>
+              <Select id="client-tax-regime" {...register('taxRegime')} className="w-full">
+                {Object.values(TaxRegime).map((regime) => (
+                  <option key={regime} value={regime}>
+                    {TAX_REGIME_LABELS[regime]}
+                  </option>
+                ))}
+              </Select>
+              {errors.taxRegime && <p className={errorClassName}>{errors.taxRegime.message}</p>}
+            </div>
+
+            <Controller
+              control={control}
+              name="address"
+              render={({ field }) => (
+                <AddressFields
+                  value={field.value}
+                  onChange={field.onChange}
+                  onBlur={field.onBlur}
+                  idPrefix="client-address"
+                  errors={{
+                    street: errors.address?.street?.message,
+                    details: errors.address?.details?.message,
+                    departmentCode: errors.address?.departmentCode?.message,
+                    municipalityCode: errors.address?.municipalityCode?.message,
+                  }}
+                />
+              )}
+            />
+
+            <div className="space-y-2">
+              <label htmlFor="client-tags" className={labelClassName}>
+                Etiquetas
+              </label>
+              <Controller
+                control={control}
+                name="tags"
+                render={({ field }) => (
+                  <TagInput
+                    id="client-tags"
+                    value={field.value}
+                    onChange={field.onChange}
+                    onBlur={field.onBlur}
+                    max={MAX_CLIENT_TAGS}
+                    suggestions={tagSuggestions}
+                  />
+                )}
+              />
+              {errors.tags && <p className={errorClassName}>{errors.tags.message}</p>}
+            </div>
+          </div>
+
+          <div className="flex justify-end space-x-3 p-6 pt-4 border-t border-gray-200 dark:border-gray-700">
+            <Button type="button" variant="outline" onClick={onClose} disabled={isSubmitting}>
+              Cancelar
+            </Button>
+            <Button type="submit" disabled={isSubmitting} className="bg-nequi-pink hover:bg-nequi-pink-dark text-white">
+              {isSubmitting ? 'Guardando...' : isEditing ? 'Guardar cambios' : 'Crear cliente'}
+            </Button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,429 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { AlertCircle, CheckCircle2, Download, FileSpreadsheet, Upload, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { Button } from '@/components/ui/Button';
+import { Select } from '@/components/ui/Select';
+import {
+  CLIENT_IMPORT_FIELDS,
+  MAX_IMPORT_ROWS,
+  SPREADSHEET_ACCEPT,
+  buildImportRows,
+  clientSpreadsheetService,
+  getImportFieldLabel,
+  guessColumnMapping,
+  parseSpreadsheet
+} from '@/services';
+import type { ParsedSpreadsheet } from '@/services';
+import { ClientDuplicateStrategy } from '@/types';
+import type { ClientColumnMapping, ClientImportError, ClientImportResult, ClientImportRow } from '@/types';
+import { downloadFile, toCsv } from '@/utils/download';
+import { getErrorMessage } from '@/utils/formErrors';
+
+interface ClientImportDialogProps {
+  onClose: () => void;
+  /** Called after rows were actually written, to refresh the list */
+  onImported: () => void;
+}
+
+type Step = 'upload' | 'mapping' | 'preview' | 'done';
+
+const STEPS: { id: Step; label: string }[] = [
+  { id: 'upload', label: 'Archivo' },
+  { id: 'mapping', label: 'Columnas' },
+  { id: 'preview', label: 'Revisión' },
+  { id: 'done', label: 'Listo' },
+];
+
+// Enough to spot patterns without rendering thousands of rows
+const PREVIEW_LIMIT = 200;
+
+function describeError(error: ClientImportError): string {
+  return error.field ? `${getImportFieldLabel(error.field)}: ${error.message}` : error.message;
+}
+
+const ResultSummary: React.FC<{ result: ClientImportResult }> = ({ result }) => {
+  const verb = result.dryRun
+    ? { created: 'Se crearían', updated: 'Se actualizarían', skipped: 'Se omitirían' }
+    : { created: 'Creados', updated: 'Actualizados', skipped: 'Omitidos' };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-3 gap-3 text-center">
+        <div className="rounded-lg bg-green-50 dark:bg-green-900/20 p-3">
+          <p className="text-2xl font-bold text-green-700 dark:text-green-400">{result.created}</p>
+          <p className="text-xs text-gray-600 dark:text-gray-400">{verb.created}</p>
+        </div>
+        <div className="rounded-lg bg-blue-50 dark:bg-blue-900/20 p-3">
+          <p className="text-2xl font-bold text-blue-700 dark:text-blue-400">{result.updated}</p>
+          <p className="text-xs text-gray-600 dark:text-gray-400">{verb.updated}</p>
+        </div>
+        <div className="rounded-lg bg-gray-100 dark:bg-gray-700/50 p-3">
+          <p className="text-2xl font-bold text-gray-700 dark:text-gray-300">{result.skipped}</p>
+          <p className="text-xs text-gray-600 dark:text-gray-400">{verb.skipped}</p>
+        </div>
+      </div>
+      {result.errors.length > 0 && (
+        <ul className="text-sm text-red-600 dark:text-red-400 space-y-1 max-h-32 overflow-y-auto">
+          {result.errors.map((error, index) => (
+            <li key={index}>
+              Fila {error.rowNumber}: {describeError(error)}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Upload, column mapping, per-row validation and a server dry run before
+ * anything is written.
+ */
+export const ClientImportDialog: React.FC<ClientImportDialogProps> = ({ onClose, onImported }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [step, setStep] = useState<Step>('upload');
+  const [fileName, setFileName] = useState('');
+  const [sheet, setSheet] = useState<ParsedSpreadsheet | null>(null);
+  const [mapping, setMapping] = useState<ClientColumnMapping>({});
+  const [rows, setRows] = useState<ClientImportRow[]>([]);
+  const [onlyErrors, setOnlyErrors] = useState(false);
+  const [onDuplicate, setOnDuplicate] = useState<ClientDuplicateStrategy>(ClientDuplicateStrategy.SKIP);
+  const [dryRun, setDryRun] = useState<ClientImportResult | null>(null);
+  const [result, setResult] = useState<ClientImportResult | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [uploadError, setUploadError] = useState('');
+
+  const validRows = useMemo(() => rows.filter((row) => row.errors.length === 0), [rows]);
+  const invalidRows = rows.length - validRows.length;
+  const visibleRows = (onlyErrors ? rows.filter((row) => row.errors.length > 0) : rows).slice(0, PREVIEW_LIMIT);
+  const missingRequired = CLIENT_IMPORT_FIELDS.filter((field) => field.required && mapping[field.field] === undefined);
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) {
+      return;
+    }
+
+    setUploadError('');
+    setIsBusy(true);
+    try {
+      const parsed = await parseSpreadsheet(file);
+      if (parsed.rows.length === 0) {
+        setUploadError('El archivo no tiene filas con datos');
+      } else if (parsed.rows.length > MAX_IMPORT_ROWS) {
+        setUploadError(`Puedes importar hasta ${MAX_IMPORT_ROWS.toLocaleString('es-CO')} clientes por archivo`);
+      } else {
+        setFileName(file.name);
+        setSheet(parsed);
+        setMapping(guessColumnMapping(parsed.headers));
+        setStep('mapping');
+      }
+    } catch (error) {
+      setUploadError(getErrorMessage(error, 'No se pudo leer el archivo'));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleMappingChange = (field: keyof ClientColumnMapping, value: string) => {
+    setMapping((current) => {
+      const next = { ...current };
+      if (value === '') {
+        delete next[field];
+      } else {
+        next[field] = Number(value);
+      }
+      return next;
+    });
+  };
+
+  const goToPreview = () => {
+    if (!sheet) return;
+    setRows(buildImportRows(sheet, mapping));
+    setDryRun(null);
+    setOnlyErrors(false);
+    setStep('preview');
+  };
+
+  const downloadErrors = () => {
+    const report = rows.flatMap((row) => row.errors);
+    const csv = toCsv(report, [
+      { header: 'Fila', value: (error) => error.rowNumber },
+      { header: 'Campo', value: (error) => (error.field ? getImportFieldLabel(error.field) : '') },
+      { header: 'Error', value: (error) => error.message },
+    ]);
+    downloadFile(csv, `errores-${fileName.replace(/\.\w+$/, '')}.csv`, 'text/csv;charset=utf-8');
+  };
+
+  const runImport = async (isDryRun: boolean) => {
+    setIsBusy(true);
+    try {
+      const response = await clientSpreadsheetService.importRows(validRows, { dryRun: isDryRun, onDuplicate });
+      if (isDryRun) {
+        setDryRun(response);
+      } else {
+        setResult(response);
+        setStep('done');
+        onImported();
+      }
+    } catch (error) {
+      toast.error(getErrorMessage(error, isDryRun ? 'No se pudo simular la importación' : 'No se pudo importar'));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const stepIndex = STEPS.findIndex((item) => item.id === step);
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-2xl max-w-3xl w-full max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 pb-4">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Importar clientes</h2>
+            <ol className="flex items-center space-x-2 mt-1 text-xs">
+              {STEPS.map((item, index) => (
+                <li
+                  key={item.id}
+                  className={index === stepIndex ? 'font-medium text-nequi-pink' : 'text-gray-500 dark:text-gray-400'}
+                >
+                  {index + 1}. {item.label}
+                </li>
+              ))}
+            </ol>
+          </div>
+          <button
+            onClick={onClose}
+            disabled={isBusy}
+            className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+            aria-label="Cerrar"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="overflow-y-auto px-6 pb-2 space-y-4">
+          {step === 'upload' && (
+            <>
+              <button
+                type="button"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={isBusy}
+                className="w-full border-2 border-dashed border-gray-300 dark:border-gray-600 rounded-lg p-8 text-center hover:border-nequi-pink transition-colors"
+              >
+                {isBusy ? (
+                  <div className="w-8 h-8 mx-auto border-4 border-nequi-pink border-t-transparent rounded-full animate-spin"></div>
+                ) : (
+                  <Upload className="h-8 w-8 mx-auto text-nequi-pink" />
+                )}
+                <p className="mt-3 font-medium text-gray-900 dark:text-white">
+                  {isBusy ? 'Leyendo archivo...' : 'Selecciona un archivo CSV o Excel (.xlsx)'}
+                </p>
+                <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+                  La primera fila debe tener los nombres de las columnas. Máximo {MAX_IMPORT_ROWS.toLocaleString('es-CO')}{' '}
+                  clientes y 5 MB.
+                </p>
+              </button>
+              <input ref={fileInputRef} type="file" accept={SPREADSHEET_ACCEPT} onChange={handleFileChange} className="hidden" />
+              {uploadError && <p className="text-sm text-red-600 dark:text-red-400">{uploadError}</p>}
+            </>
+          )}
+
+          {step === 'mapping' && sheet && (
+            <>
+              <p className="flex items-center text-sm text-gray-600 dark:text-gray-400">
+                <FileSpreadsheet className="h-4 w-4 mr-2 text-nequi-pink" />
+                {fileName} · {sheet.rows.length.toLocaleString('es-CO')} filas
+              </p>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                {CLIENT_IMPORT_FIELDS.map(({ field, label, required }) => (
+                  <div key={field} className="space-y-1">
+                    <label htmlFor={`import-${field}`} className="text-sm font-medium text-gray-900 dark:text-white">
+                      {label} {required && <span className="text-nequi-pink">*</span>}
+                    </label>
+                    <Select
+                      id={`import-${field}`}
+                      value={mapping[field] ?? ''}
+                      onChange={(event) => handleMappingChange(field, event.target.value)}
+                      className="w-full"
+                    >
+                      <option value="">— No importar —</option>
+                      {sheet.headers.map((header, index) => (
+                        <option key={index} value={index}>
+                          {header || `Columna ${index + 1}`}
+                        </option>
+                      ))}
+                    </Select>
+                  </div>
+                ))}
+              </div>
+              {missingRequired.length > 0 && (
+                <p className="text-sm text-red-600 dark:text-red-400">
+                  Asigna una columna a: {missingRequired.map((field) => field.label).join(', ')}
+                </p>
+              )}
+            </>
+          )}
+
+          {step === 'preview' && (
+            <>
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <p className="text-sm text-gray-700 dark:text-gray-300">
+                  <span className="font-medium text-green-600 dark:text-green-400">{validRows.length} válidas</span>
+                  {' · '}
+                  <span className={invalidRows > 0 ? 'font-medium text-red-600 dark:text-red-400' : ''}>
+                    {invalidRows} con errores
+                  </span>
+                  {invalidRows > 0 && ' (no se importarán)'}
+                </p>
+                <div className="flex items-center space-x-3">
+                  <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+                    <input
+                      type="checkbox"
+                      checked={onlyErrors}
+                      onChange={(event) => setOnlyErrors(event.target.checked)}
+                      className="rounded border-gray-300 text-nequi-pink focus:ring-nequi-pink"
+                    />
+                    <span>Solo errores</span>
+                  </label>
+                  {invalidRows > 0 && (
+                    <Button variant="outline" size="sm" onClick={downloadErrors}>
+                      <Download className="h-4 w-4 mr-2" />
+                      Errores
+                    </Button>
+                  )}
+                </div>
+              </div>
+
+              <div className="overflow-x-auto border border-gray-200 dark:border-gray-700 rounded-lg max-h-72">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-gray-200 dark:border-gray-700">
+                      <th className="text-left py-2 px-3 font-medium text-gray-600 dark:text-gray-400">Fila</th>
+                      <th className="text-left py-2 px-3 font-medium text-gray-600 dark:text-gray-400">Nombre</th>
+                      <th className="text-left py-2 px-3 font-medium text-gray-600 dark:text-gray-400">Documento</th>
+                      <th className="text-left py-2 px-3 font-medium text-gray-600 dark:text-gray-400">Estado</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {visibleRows.map((row) => (
+                      <tr key={row.rowNumber} className="border-b border-gray-100 dark:border-gray-800 align-top">
+                        <td className="py-2 px-3 text-gray-500 dark:text-gray-400">{row.rowNumber}</td>
+                        <td className="py-2 px-3 text-gray-900 dark:text-white">{row.data.name || '—'}</td>
+                        <td className="py-2 px-3 text-gray-600 dark:text-gray-400 whitespace-nowrap">
+                          {row.data.documentNumber || '—'}
+                          {row.data.dv && `-${row.data.dv}`}
+                        </td>
+                        <td className="py-2 px-3">
+                          {row.errors.length === 0 ? (
+                            <CheckCircle2 className="h-4 w-4 text-green-600 dark:text-green-400" aria-label="Válida" />
+                          ) : (
+                            <ul className="text-red-600 dark:text-red-400 space-y-0.5">
+                              {row.errors.map((error, index) => (
+                                <li key={index}>{describeError(error)}</li>
+                              ))}
+                            </ul>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              {(onlyErrors ? invalidRows : rows.length) > PREVIEW_LIMIT && (
+                <p className="text-xs text-gray-500 dark:text-gray-400">Se muestran las primeras {PREVIEW_LIMIT} filas.</p>
+              )}
+
+              <div className="space-y-2">
+                <label htmlFor="import-duplicates" className="text-sm font-medium text-gray-900 dark:text-white">
+                  Si el documento ya existe
+                </label>
+                <Select
+                  id="import-duplicates"
+                  value={onDuplicate}
+                  onChange={(event) => {
+                    setOnDuplicate(event.target.value as ClientDuplicateStrategy);
+                    setDryRun(null);
+                  }}
+                  className="w-full"
+                >
+                  <option value={ClientDuplicateStrategy.SKIP}>Omitir la fila y conservar el cliente actual</option>
+                  <option value={ClientDuplicateStrategy.UPDATE}>Actualizar el cliente con los datos del archivo</option>
+                </Select>
+              </div>
+
+              {dryRun ? (
+                <div className="rounded-lg border border-gray-200 dark:border-gray-700 p-4 space-y-2">
+                  <p className="text-sm font-medium text-gray-900 dark:text-white">Resultado de la simulación</p>
+                  <ResultSummary result={dryRun} />
+                </div>
+              ) : (
+                <p className="flex items-start text-sm text-gray-600 dark:text-gray-400">
+                  <AlertCircle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+                  Simula la importación para ver qué clientes se crearán o actualizarán antes de guardar.
+                </p>
+              )}
+            </>
+          )}
+
+          {step === 'done' && result && (
+            <>
+              <p className="flex items-center font-medium text-gray-900 dark:text-white">
+                <CheckCircle2 className="h-5 w-5 mr-2 text-green-600 dark:text-green-400" />
+                Importación terminada
+              </p>
+              <ResultSummary result={result} />
+            </>
+          )}
+        </div>
+
+        <div className="flex justify-end space-x-3 p-6 pt-4 border-t border-gray-200 dark:border-gray-700">
+          {step === 'mapping' && (
+            <>
+              <Button variant="outline" onClick={() => setStep('upload')}>
+                Cambiar archivo
+              </Button>
+              <Button
+                onClick={goToPreview}
+                disabled={missingRequired.length > 0}
+                className="bg-nequi-pink hover:bg-nequi-pink-dark text-white"
+              >
+                Revisar filas
+              </Button>
+            </>
+          )}
+          {step === 'preview' && (
+            <>
+              <Button variant="outline" onClick={() => setStep('mapping')} disabled={isBusy}>
+                Atrás
+              </Button>
+              {dryRun ? (
+                <Button
+                  onClick={() => runImport(false)}
+                  disabled={isBusy}
+                  className="bg-nequi-pink hover:bg-nequi-pink-dark text-white"
+                >
+                  {isBusy ? 'Importando...' : `Importar ${validRows.length} clientes`}
+                </Button>
+              ) : (
+                <Button
+                  onClick={() => runImport(true)}
+                  disabled={isBusy || validRows.length === 0}
+                  className="bg-nequi-pink hover:bg-nequi-pink-dark text-white"
+                >
+                  {isBusy ? 'Simulando...' : 'Simular importación'}
+                </Button>
+              )}
+            </>
+          )}
+          {(step === 'upload' || step === 'done') && (
+            <Button variant="outline" onClick={onClose} disabled={isBusy}>
+              {step === 'done' ? 'Cerrar' : 'Cancelar'}
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,8 +1,217 @@
-import React from 'react';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
 import { motion } from 'framer-motion';
+import { ArrowDown, ArrowUp, ArrowUpDown, Download, Pencil, SlidersHorizontal, Plus, Search, Trash2, Upload, Users } from 'lucide-react';
+import toast from 'react-hot-toast';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Pagination } from '@/components/ui/Pagination';
+import { SegmentSelect } from '@/components/ui/SegmentSelect';
+import { Select } from '@/components/ui/Select';
+import { Can, FeatureGate } from '@/guards';
+import { useClientSegments, useDebouncedValue } from '@/hooks';
+import {
+  TAX_DOCUMENT_ABBREVIATIONS,
+  clientService,
+  clientSpreadsheetService,
+  describeSegment,
+  formatPhone,
+  formatTaxId
+} from '@/services';
+import type { SpreadsheetFormat } from '@/services';
+import { FeatureFlag, Permission } from '@/types';
+import type { Client, ClientFilters, ClientSegment, ClientSortField, PaginatedResponse, SegmentDefinition } from '@/types';
+import { getErrorMessage } from '@/utils/formErrors';
+import { ClientFormDialog } from './ClientFormDialog';
+import { ClientImportDialog } from './ClientImportDialog';
+import { RfmBadge } from './RfmBadge';
+import { SegmentBuilder } from './SegmentBuilder';
+
+const PAGE_SIZE = 20;
+
+interface SortState {
+  field: ClientSortField;
+  order: 'asc' | 'desc';
+}
+
+interface SortableHeaderProps {
+  field: ClientSortField;
+  label: string;
+  sort: SortState;
+  onSort: (field: ClientSortField) => void;
+}
+
+const SortableHeader: React.FC<SortableHeaderProps> = ({ field, label, sort, onSort }) => {
+  const isActive = sort.field === field;
+  const Icon = !isActive ? ArrowUpDown : sort.order === 'asc' ? ArrowUp : ArrowDown;
+
+  return (
+    <th
+      className="text-left py-3 px-4 font-medium text-gray-600 dark:text-gray-400"
+      aria-sort={isActive ? (sort.order === 'asc' ? 'ascending' : 'descending') : 'none'}
+    >
+      <button
+        type="button"
+        onClick={() => onSort(field)}
+        className="inline-flex items-center space-x-1 hover:text-gray-900 dark:hover:text-white"
+      >
+        <span>{label}</span>
+        <Icon className={`h-3.5 w-3.5 ${isActive ? 'text-nequi-pink' : ''}`} />
+      </button>
+    </th>
+  );
+};
 
 export const Clients: React.FC = () => {
+  const [result, setResult] = useState<PaginatedResponse<Client> | null>(null);
+  const [tags, setTags] = useState<string[]>([]);
+  const [page, setPage] = useState(1);
+  const [sort, setSort] = useState<SortState>({ field: 'name', order: 'asc' });
+  const [search, setSearch] = useState('');
+  const [tag, setTag] = useState('');
+  const [segmentId, setSegmentId] = useState('');
+  // Builder conditions applied without saving; they take over the saved segment
+  const [adHocSegment, setAdHocSegment] = useState<SegmentDefinition>();
+  const [isBuilderOpen, setIsBuilderOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  // null: closed, undefined client: creating
+  const [editing, setEditing] = useState<{ client?: Client } | null>(null);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [exportingFormat, setExportingFormat] = useState<SpreadsheetFormat | null>(null);
+  const debouncedSearch = useDebouncedValue(search.trim());
+  const [appliedSearch, setAppliedSearch] = useState(debouncedSearch);
+  const { segments, reload: reloadSegments } = useClientSegments();
+  const selectedSegment = segments.find((segment) => segment.id === segmentId);
+
+  const filters: ClientFilters = useMemo(
+    () => ({
+      search: debouncedSearch || undefined,
+      tag: tag || undefined,
+      segmentId: adHocSegment ? undefined : segmentId || undefined,
+      segment: adHocSegment,
+    }),
+    [debouncedSearch, tag, segmentId, adHocSegment]
+  );
+
+  // A superseded request is aborted, so an older query can't overwrite a newer one
+  const loadClients = useCallback(async (signal?: AbortSignal) => {
+    setIsLoading(true);
+    try {
+      const next = await clientService.list(
+        { page, limit: PAGE_SIZE, sortBy: sort.field, sortOrder: sort.order },
+        filters,
+        signal
+      );
+      if (!signal?.aborted) setResult(next);
+    } catch (error) {
+      if (!signal?.aborted) toast.error(getErrorMessage(error, 'No se pudieron cargar los clientes'));
+    } finally {
+      if (!signal?.aborted) setIsLoading(false);
+    }
+  }, [page, sort, filters]);
+
+  const loadTags = useCallback(async () => {
+    try {
+      setTags(await clientService.listTags());
+    } catch {
+      // Suggestions are optional; the filter just stays empty
+    }
+  }, []);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    loadClients(controller.signal);
+    return () => controller.abort();
+  }, [loadClients]);
+
+  useEffect(() => {
+    loadTags();
+  }, [loadTags]);
+
+  // Filters and sorting apply from the first page, reset in the same render
+  // so the old page is never requested with the new filters
+  if (appliedSearch !== debouncedSearch) {
+    setAppliedSearch(debouncedSearch);
+    setPage(1);
+  }
+
+  const handleSort = (field: ClientSortField) => {
+    setPage(1);
+    setSort((current) => ({
+      field,
+      order: current.field === field && current.order === 'asc' ? 'desc' : 'asc',
+    }));
+  };
+
+  const handleSaved = () => {
+    setEditing(null);
+    loadClients();
+    loadTags();
+  };
+
+  const handleDelete = async (client: Client) => {
+    if (!window.confirm(`¿Eliminar a ${client.name}? Esta acción no se puede deshacer.`)) {
+      return;
+    }
+
+    setDeletingId(client.id);
+    try {
+      await clientService.remove(client.id);
+      toast.success('Cliente eliminado');
+      // Step back when the last row of a page goes away
+      if (result?.data.length === 1 && page > 1) {
+        setPage(page - 1);
+      } else {
+        loadClients();
+      }
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'No se pudo eliminar el cliente'));
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  const handleExport = async (format: SpreadsheetFormat) => {
+    setExportingFormat(format);
+    try {
+      await clientSpreadsheetService.exportList(filters, { sortBy: sort.field, sortOrder: sort.order }, format);
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'No se pudo exportar la lista'));
+    } finally {
+      setExportingFormat(null);
+    }
+  };
+
+  const handleTagChange = (nextTag: string) => {
+    setPage(1);
+    setTag(nextTag);
+  };
+
+  const handleSegmentChange = (nextSegmentId: string) => {
+    setPage(1);
+    setSegmentId(nextSegmentId);
+    setAdHocSegment(undefined);
+  };
+
+  const handleSegmentApply = (definition: SegmentDefinition | undefined) => {
+    setPage(1);
+    setAdHocSegment(definition);
+  };
+
+  const handleSegmentSaved = (segment: ClientSegment) => {
+    reloadSegments();
+    handleSegmentChange(segment.id);
+  };
+
+  const handleSegmentDeleted = () => {
+    reloadSegments();
+    handleSegmentChange('');
+  };
+
+  const hasFilters = !!debouncedSearch || !!tag || !!segmentId || !!adHocSegment;
+
   return (
     <motion.div
       initial={{ opacity: 0, y: 20 }}
@@ -10,25 +219,243 @@ export const Clients: React.FC = () => {
       transition={{ duration: 0.4 }}
       className="space-y-6"
     >
-      <div>
-        <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
-          Clientes
-        </h1>
-        <p className="text-gray-600 dark:text-gray-400 mt-2">
-          Gestiona tu base de clientes
-        </p>
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
+            Clientes
+          </h1>
+          <p className="text-gray-600 dark:text-gray-400 mt-2">
+            Gestiona tu base de clientes
+          </p>
+        </div>
+        <Can permission={Permission.CLIENTS_CREATE}>
+          <div className="flex space-x-2">
+            <Button variant="outline" onClick={() => setIsImporting(true)}>
+              <Upload className="h-4 w-4 mr-2" />
+              Importar
+            </Button>
+            <Button onClick={() => setEditing({})} className="bg-nequi-pink hover:bg-nequi-pink-dark text-white">
+              <Plus className="h-4 w-4 mr-2" />
+              Nuevo cliente
+            </Button>
+          </div>
+        </Can>
       </div>
 
       <Card className="card-shadow">
         <CardHeader>
-          <CardTitle>Lista de Clientes</CardTitle>
+          <CardTitle className="flex items-center justify-between">
+            <span className="flex items-center space-x-2">
+              <Users className="h-5 w-5 text-nequi-pink" />
+              <span>Lista de Clientes</span>
+            </span>
+            <Can permission={Permission.CLIENTS_EXPORT}>
+              <FeatureGate feature={FeatureFlag.DATA_EXPORT} fallback={null}>
+                <span className="flex items-center space-x-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleExport('csv')}
+                    disabled={!!exportingFormat || !result?.pagination.total}
+                  >
+                    <Download className="h-4 w-4 mr-2" />
+                    {exportingFormat === 'csv' ? 'Exportando...' : 'CSV'}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleExport('xlsx')}
+                    disabled={!!exportingFormat || !result?.pagination.total}
+                  >
+                    <Download className="h-4 w-4 mr-2" />
+                    {exportingFormat === 'xlsx' ? 'Exportando...' : 'Excel'}
+                  </Button>
+                </span>
+              </FeatureGate>
+            </Can>
+          </CardTitle>
         </CardHeader>
-        <CardContent>
-          <p className="text-gray-600 dark:text-gray-400">
-            Aquí podrás gestionar todos tus clientes.
-          </p>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="relative md:col-span-2">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+              <Input
+                value={search}
+                onChange={(event) => setSearch(event.target.value)}
+                placeholder="Buscar por nombre, documento, correo o teléfono"
+                aria-label="Buscar clientes"
+                className="pl-9"
+              />
+            </div>
+            <Select
+              value={tag}
+              onChange={(event) => handleTagChange(event.target.value)}
+              aria-label="Etiqueta"
+            >
+              <option value="">Todas las etiquetas</option>
+              {tags.map((option) => (
+                <option key={option} value={option}>
+                  {option}
+                </option>
+              ))}
+            </Select>
+            <div className="flex space-x-2">
+              <SegmentSelect
+                segments={segments}
+                value={adHocSegment ? '' : segmentId}
+                onChange={handleSegmentChange}
+                className="flex-1 min-w-0"
+              />
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => setIsBuilderOpen((open) => !open)}
+                aria-label="Filtros avanzados"
+                aria-expanded={isBuilderOpen}
+                title="Filtros avanzados"
+                className={isBuilderOpen || adHocSegment ? 'border-nequi-pink text-nequi-pink' : ''}
+              >
+                <SlidersHorizontal className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+
+          {isBuilderOpen && (
+            <SegmentBuilder
+              key={selectedSegment?.id ?? 'new'}
+              segment={selectedSegment}
+              tagSuggestions={tags}
+              onApply={handleSegmentApply}
+              onSaved={handleSegmentSaved}
+              onDeleted={handleSegmentDeleted}
+            />
+          )}
+          {adHocSegment && (
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Filtrando por condiciones sin guardar: {describeSegment(adHocSegment)}.{' '}
+              <button
+                type="button"
+                onClick={() => handleSegmentApply(undefined)}
+                className="text-nequi-pink hover:text-nequi-pink-dark"
+              >
+                Quitar
+              </button>
+            </p>
+          )}
+
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-gray-200 dark:border-gray-700">
+                  <SortableHeader field="name" label="Cliente" sort={sort} onSort={handleSort} />
+                  <SortableHeader field="documentNumber" label="Documento" sort={sort} onSort={handleSort} />
+                  <th className="text-left py-3 px-4 font-medium text-gray-600 dark:text-gray-400">Teléfono</th>
+                  <th className="text-left py-3 px-4 font-medium text-gray-600 dark:text-gray-400">Municipio</th>
+                  <th className="text-left py-3 px-4 font-medium text-gray-600 dark:text-gray-400">Etiquetas</th>
+                  <SortableHeader field="createdAt" label="Creado" sort={sort} onSort={handleSort} />
+                  <th className="py-3 px-4"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {result?.data.map((client) => (
+                  <tr key={client.id} className="border-b border-gray-100 dark:border-gray-800">
+                    <td className="py-2 px-4">
+                      <Link
+                        to={`/clients/${client.id}`}
+                        className="font-medium text-gray-900 dark:text-white hover:text-nequi-pink"
+                      >
+                        {client.name}
+                      </Link>
+                      {client.email && <p className="text-sm text-gray-500 dark:text-gray-400">{client.email}</p>}
+                      {client.rfm && (
+                        <div className="mt-1">
+                          <RfmBadge rfm={client.rfm} />
+                        </div>
+                      )}
+                    </td>
+                    <td className="py-2 px-4 text-sm text-gray-600 dark:text-gray-400 whitespace-nowrap">
+                      {TAX_DOCUMENT_ABBREVIATIONS[client.documentType]}{' '}
+                      {formatTaxId(client.documentType, client.documentNumber, client.dv)}
+                    </td>
+                    <td className="py-2 px-4 text-sm text-gray-600 dark:text-gray-400 whitespace-nowrap">
+                      {formatPhone(client.phone) || '—'}
+                    </td>
+                    <td className="py-2 px-4 text-sm text-gray-600 dark:text-gray-400">
+                      {client.address?.municipalityName || '—'}
+                    </td>
+                    <td className="py-2 px-4">
+                      <div className="flex flex-wrap gap-1">
+                        {client.tags.map((item) => (
+                          <span
+                            key={item}
+                            className="px-2 py-0.5 rounded-full text-xs font-medium bg-pink-100 text-nequi-pink dark:bg-pink-900/30"
+                          >
+                            {item}
+                          </span>
+                        ))}
+                      </div>
+                    </td>
+                    <td className="py-2 px-4 text-sm text-gray-600 dark:text-gray-400 whitespace-nowrap">
+                      {new Date(client.createdAt).toLocaleDateString('es-CO')}
+                    </td>
+                    <td className="py-2 px-4 text-right whitespace-nowrap">
+                      <Can permission={Permission.CLIENTS_EDIT}>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setEditing({ client })}
+                          aria-label={`Editar ${client.name}`}
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                      </Can>
+                      <Can permission={Permission.CLIENTS_DELETE}>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleDelete(client)}
+                          disabled={deletingId === client.id}
+                          className="text-red-600 hover:text-red-700 dark:text-red-400"
+                          aria-label={`Eliminar ${client.name}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </Can>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            {!isLoading && result?.data.length === 0 && (
+              <p className="text-center text-gray-500 dark:text-gray-400 py-8">
+                {hasFilters ? 'No hay clientes que coincidan con la búsqueda.' : 'Aún no tienes clientes registrados.'}
+              </p>
+            )}
+          </div>
+
+          {result && <Pagination pagination={result.pagination} onPageChange={setPage} itemLabel="clientes" />}
         </CardContent>
       </Card>
+
+      {editing && (
+        <ClientFormDialog
+          client={editing.client}
+          tagSuggestions={tags}
+          onClose={() => setEditing(null)}
+          onSaved={handleSaved}
+        />
+      )}
+
+      {isImporting && (
+        <ClientImportDialog
+          onClose={() => setIsImporting(false)}
+          onImported={() => {
+            loadClients();
+            loadTags();
+          }}
+        />
+      )}
     </motion.div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,279 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Check, FileText, HandCoins, Pencil, ShoppingCart, Wallet, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Can } from '@/guards';
+import { PAYMENT_METHOD_LABELS, creditLimitSchema, creditService, getAvailableCredit } from '@/services';
+import { CreditMovementType, Permission } from '@/types';
+import type { CreditAccount, CreditMovement } from '@/types';
+import { getErrorMessage } from '@/utils/formErrors';
+import { formatCurrency, formatDate } from '@/utils/format';
+import { AgingBreakdown } from './AgingBreakdown';
+import { CreditChargeDialog } from './CreditChargeDialog';
+import { CreditPaymentDialog } from './CreditPaymentDialog';
+
+const MOVEMENTS_PAGE_SIZE = 10;
+const limitSchema = creditLimitSchema();
+
+interface CreditAccountCardProps {
+  clientId: string;
+  /** Called after a charge, payment or limit change so the page can refresh its figures */
+  onChanged?: () => void;
+}
+
+export const CreditAccountCard: React.FC<CreditAccountCardProps> = ({ clientId, onChanged }) => {
+  const [account, setAccount] = useState<CreditAccount | null>(null);
+  const [movements, setMovements] = useState<CreditMovement[]>([]);
+  const [movementsPage, setMovementsPage] = useState(1);
+  const [hasMoreMovements, setHasMoreMovements] = useState(false);
+  const [dialog, setDialog] = useState<'charge' | 'payment' | null>(null);
+  const [limitDraft, setLimitDraft] = useState<string | null>(null);
+  const [limitError, setLimitError] = useState('');
+  const [isSavingLimit, setIsSavingLimit] = useState(false);
+
+  const loadAccount = useCallback(async () => {
+    try {
+      setAccount(await creditService.getAccount(clientId));
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'No se pudo cargar la cuenta de fiado'));
+    }
+  }, [clientId]);
+
+  const loadMovements = useCallback(
+    async (page: number) => {
+      try {
+        const result = await creditService.listMovements(clientId, { page, limit: MOVEMENTS_PAGE_SIZE });
+        setMovements((current) => (page === 1 ? result.data : [...current, ...result.data]));
+        setMovementsPage(page);
+        setHasMoreMovements(result.pagination.hasNext);
+      } catch (error) {
+        toast.error(getErrorMessage(error, 'No se pudieron cargar los movimientos'));
+      }
+    },
+    [clientId]
+  );
+
+  useEffect(() => {
+    loadAccount();
+    loadMovements(1);
+  }, [loadAccount, loadMovements]);
+
+  const handleMovementSaved = () => {
+    setDialog(null);
+    loadAccount();
+    loadMovements(1);
+    onChanged?.();
+  };
+
+  const handleSaveLimit = async () => {
+    let creditLimit: number;
+    try {
+      ({ creditLimit } = limitSchema.validateSync({ creditLimit: limitDraft === '' ? undefined : Number(limitDraft) }));
+    } catch (error) {
+      setLimitError(getErrorMessage(error, 'Cupo no válido'));
+      return;
+    }
+
+    setIsSavingLimit(true);
+    try {
+      setAccount(await creditService.setLimit(clientId, creditLimit));
+      setLimitDraft(null);
+      toast.success('Cupo actualizado');
+      onChanged?.();
+    } catch (error) {
+      setLimitError(getErrorMessage(error, 'No se pudo actualizar el cupo'));
+    } finally {
+      setIsSavingLimit(false);
+    }
+  };
+
+  if (!account) {
+    return null;
+  }
+
+  const available = getAvailableCredit(account);
+  const usage = account.creditLimit > 0 ? Math.min(100, (account.balance / account.creditLimit) * 100) : 0;
+
+  return (
+    <Card className="card-shadow">
+      <CardHeader>
+        <CardTitle className="flex flex-wrap items-center justify-between gap-2">
+          <span className="flex items-center space-x-2">
+            <Wallet className="h-5 w-5 text-nequi-pink" />
+            <span>Fiado</span>
+          </span>
+          <span className="flex flex-wrap gap-2">
+            <Can permission={Permission.SALES_CREATE}>
+              <Button variant="outline" size="sm" onClick={() => setDialog('charge')} disabled={available === 0}>
+                <ShoppingCart className="h-4 w-4 mr-2" />
+                Venta a crédito
+              </Button>
+              <Button
+                size="sm"
+                onClick={() => setDialog('payment')}
+                disabled={account.balance === 0}
+                className="bg-nequi-pink hover:bg-nequi-pink-dark text-white"
+              >
+                <HandCoins className="h-4 w-4 mr-2" />
+                Registrar abono
+              </Button>
+            </Can>
+            <Link
+              to={`/clients/${clientId}/statement`}
+              className="inline-flex items-center h-9 px-3 rounded-md text-sm font-medium text-gray-700 dark:text-gray-300 hover:text-nequi-pink"
+            >
+              <FileText className="h-4 w-4 mr-2" />
+              Estado de cuenta
+            </Link>
+          </span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <div>
+            <p className="text-sm text-gray-600 dark:text-gray-400">Saldo</p>
+            <p className={`text-2xl font-bold ${account.balance > 0 ? 'text-red-600 dark:text-red-400' : 'text-gray-900 dark:text-white'}`}>
+              {formatCurrency(account.balance)}
+            </p>
+          </div>
+          <div>
+            <p className="text-sm text-gray-600 dark:text-gray-400">Cupo</p>
+            {limitDraft === null ? (
+              <p className="flex items-center text-2xl font-bold text-gray-900 dark:text-white">
+                {account.creditLimit > 0 ? formatCurrency(account.creditLimit) : 'Sin cupo'}
+                <Can permission={Permission.CREDIT_MANAGE}>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => {
+                      setLimitDraft(String(account.creditLimit));
+                      setLimitError('');
+                    }}
+                    aria-label="Cambiar cupo"
+                    className="ml-1"
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                </Can>
+              </p>
+            ) : (
+              <div className="space-y-1">
+                <div className="flex items-center space-x-1">
+                  <Input
+                    type="number"
+                    inputMode="numeric"
+                    min={0}
+                    step={1}
+                    value={limitDraft}
+                    onChange={(event) => setLimitDraft(event.target.value)}
+                    onKeyDown={(event) => {
+                      if (event.key === 'Enter') handleSaveLimit();
+                      if (event.key === 'Escape') setLimitDraft(null);
+                    }}
+                    aria-label="Cupo de crédito"
+                    autoFocus
+                  />
+                  <Button variant="ghost" size="sm" onClick={handleSaveLimit} disabled={isSavingLimit} aria-label="Guardar cupo">
+                    <Check className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => setLimitDraft(null)} aria-label="Cancelar">
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+                {limitError && <p className="text-sm text-red-600 dark:text-red-400">{limitError}</p>}
+              </div>
+            )}
+          </div>
+          <div>
+            <p className="text-sm text-gray-600 dark:text-gray-400">Disponible</p>
+            <p className="text-2xl font-bold text-gray-900 dark:text-white">{formatCurrency(available)}</p>
+            {account.creditLimit > 0 && (
+              <div className="h-2 mt-2 rounded-full bg-gray-200 dark:bg-gray-700 overflow-hidden">
+                <div
+                  className={`h-full ${usage >= 90 ? 'bg-red-500' : 'bg-nequi-pink'}`}
+                  style={{ width: `${usage}%` }}
+                />
+              </div>
+            )}
+          </div>
+        </div>
+
+        {account.balance > 0 && <AgingBreakdown aging={account.aging} />}
+
+        <div>
+          <h3 className="text-sm font-medium text-gray-900 dark:text-white mb-2">Movimientos</h3>
+          {movements.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">Este cliente no tiene movimientos de fiado.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-200 dark:border-gray-700">
+                    <th className="text-left py-2 px-3 font-medium text-gray-600 dark:text-gray-400">Fecha</th>
+                    <th className="text-left py-2 px-3 font-medium text-gray-600 dark:text-gray-400">Concepto</th>
+                    <th className="text-right py-2 px-3 font-medium text-gray-600 dark:text-gray-400">Monto</th>
+                    <th className="text-right py-2 px-3 font-medium text-gray-600 dark:text-gray-400">Saldo</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {movements.map((movement) => {
+                    const isCharge = movement.type === CreditMovementType.CHARGE;
+
+                    return (
+                      <tr key={movement.id} className="border-b border-gray-100 dark:border-gray-800">
+                        <td className="py-2 px-3 text-gray-600 dark:text-gray-400 whitespace-nowrap">
+                          {formatDate(movement.date)}
+                        </td>
+                        <td className="py-2 px-3 text-gray-900 dark:text-white">
+                          {isCharge
+                            ? `Venta ${movement.saleReference ?? ''}`
+                            : `Abono · ${movement.paymentMethod ? PAYMENT_METHOD_LABELS[movement.paymentMethod] : ''}`}
+                          {movement.description && (
+                            <span className="block text-xs text-gray-500 dark:text-gray-400">{movement.description}</span>
+                          )}
+                          {isCharge && !!movement.remaining && movement.remaining < movement.amount && (
+                            <span className="block text-xs text-gray-500 dark:text-gray-400">
+                              Pendiente {formatCurrency(movement.remaining)}
+                            </span>
+                          )}
+                        </td>
+                        <td
+                          className={`py-2 px-3 text-right whitespace-nowrap font-medium ${
+                            isCharge ? 'text-gray-900 dark:text-white' : 'text-green-600 dark:text-green-400'
+                          }`}
+                        >
+                          {isCharge ? '' : '-'}
+                          {formatCurrency(movement.amount)}
+                        </td>
+                        <td className="py-2 px-3 text-right whitespace-nowrap text-gray-600 dark:text-gray-400">
+                          {formatCurrency(movement.balanceAfter)}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+          {hasMoreMovements && (
+            <div className="flex justify-center mt-3">
+              <Button variant="outline" size="sm" onClick={() => loadMovements(movementsPage + 1)}>
+                Ver más
+              </Button>
+            </div>
+          )}
+        </div>
+      </CardContent>
+
+      {dialog === 'charge' && (
+        <CreditChargeDialog account={account} onClose={() => setDialog(null)} onSaved={handleMovementSaved} />
+      )}
+      {dialog === 'payment' && (
+        <CreditPaymentDialog account={account} onClose={() => setDialog(null)} onSaved={handleMovementSaved} />
+      )}
+    </Card>
+  );
+};
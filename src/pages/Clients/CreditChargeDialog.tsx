@@ -0,0 +1,111 @@
+import React from 'react';
+import { useForm } from 'react-hook-form';
+import { yupResolver } from '@hookform/resolvers/yup';
+import { X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { creditChargeSchema, creditService, getAvailableCredit } from '@/services';
+import type { CreditAccount, CreditChargeData, CreditMovement } from '@/types';
+import { applyServerFieldErrors, getErrorMessage } from '@/utils/formErrors';
+import { formatCurrency } from '@/utils/format';
+
+interface CreditChargeDialogProps {
+  account: CreditAccount;
+  onClose: () => void;
+  onSaved: (charge: CreditMovement) => void;
+}
+
+const labelClassName = 'text-sm font-medium text-gray-900 dark:text-white';
+const errorClassName = 'text-sm text-red-600 dark:text-red-400';
+
+/** Puts an existing sale on the client's account */
+export const CreditChargeDialog: React.FC<CreditChargeDialogProps> = ({ account, onClose, onSaved }) => {
+  const available = getAvailableCredit(account);
+
+  const {
+    register,
+    handleSubmit,
+    setError,
+    formState: { errors, isSubmitting },
+  } = useForm<CreditChargeData>({
+    resolver: yupResolver(creditChargeSchema(available)),
+    defaultValues: { saleReference: '', description: '' },
+  });
+
+  const onSubmit = async (data: CreditChargeData) => {
+    try {
+      const charge = await creditService.charge(account, data);
+      toast.success(`Cargo de ${formatCurrency(charge.amount)} registrado`);
+      onSaved(charge);
+    } catch (error) {
+      if (applyServerFieldErrors(error, setError).length === 0) {
+        toast.error(getErrorMessage(error, 'No se pudo registrar el cargo'));
+      }
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-2xl max-w-md w-full">
+        <div className="flex items-center justify-between p-6 pb-4">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Venta a crédito</h2>
+            <p className="text-sm text-gray-600 dark:text-gray-400">Cupo disponible: {formatCurrency(available)}</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+            aria-label="Cerrar"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit(onSubmit)} noValidate>
+          <div className="space-y-4 px-6 pb-2">
+            <div className="space-y-2">
+              <label htmlFor="charge-sale" className={labelClassName}>
+                Número de venta
+              </label>
+              <Input id="charge-sale" {...register('saleReference')} autoFocus />
+              {errors.saleReference && <p className={errorClassName}>{errors.saleReference.message}</p>}
+            </div>
+
+            <div className="space-y-2">
+              <label htmlFor="charge-amount" className={labelClassName}>
+                Monto fiado
+              </label>
+              <Input
+                id="charge-amount"
+                type="number"
+                inputMode="numeric"
+                min={1}
+                step={1}
+                {...register('amount', { valueAsNumber: true })}
+              />
+              {errors.amount && <p className={errorClassName}>{errors.amount.message}</p>}
+            </div>
+
+            <div className="space-y-2">
+              <label htmlFor="charge-description" className={labelClassName}>
+                Descripción <span className="font-normal text-gray-500">(opcional)</span>
+              </label>
+              <Input id="charge-description" {...register('description')} />
+              {errors.description && <p className={errorClassName}>{errors.description.message}</p>}
+            </div>
+          </div>
+
+          <div className="flex justify-end space-x-3 p-6 pt-4">
+            <Button type="button" variant="outline" onClick={onClose} disabled={isSubmitting}>
+              Cancelar
+            </Button>
+            <Button type="submit" disabled={isSubmitting} className="bg-nequi-pink hover:bg-nequi-pink-dark text-white">
+              {isSubmitting ? 'Guardando...' : 'Cargar a la cuenta'}
+            </Button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,138 @@
+import React from 'react';
+import { useForm } from 'react-hook-form';
+import { yupResolver } from '@hookform/resolvers/yup';
+import { X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Select } from '@/components/ui/Select';
+import { PAYMENT_METHOD_LABELS, creditPaymentSchema, creditService } from '@/services';
+import { PaymentMethod } from '@/types';
+import type { CreditAccount, CreditMovement, CreditPaymentData } from '@/types';
+import { applyServerFieldErrors, getErrorMessage } from '@/utils/formErrors';
+import { formatCurrency } from '@/utils/format';
+
+interface CreditPaymentDialogProps {
+  account: CreditAccount;
+  onClose: () => void;
+  onSaved: (payment: CreditMovement) => void;
+}
+
+const labelClassName = 'text-sm font-medium text-gray-900 dark:text-white';
+const errorClassName = 'text-sm text-red-600 dark:text-red-400';
+
+export const CreditPaymentDialog: React.FC<CreditPaymentDialogProps> = ({ account, onClose, onSaved }) => {
+  const {
+    register,
+    handleSubmit,
+    setValue,
+    setError,
+    formState: { errors, isSubmitting },
+  } = useForm<CreditPaymentData>({
+    resolver: yupResolver(creditPaymentSchema(account.balance)),
+    defaultValues: { method: PaymentMethod.CASH, reference: '', note: '' },
+  });
+
+  const onSubmit = async (data: CreditPaymentData) => {
+    try {
+      const payment = await creditService.recordPayment(account, data);
+      toast.success(`Abono de ${formatCurrency(payment.amount)} registrado`);
+      onSaved(payment);
+    } catch (error) {
+      if (applyServerFieldErrors(error, setError).length === 0) {
+        toast.error(getErrorMessage(error, 'No se pudo registrar el abono'));
+      }
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-2xl max-w-md w-full">
+        <div className="flex items-center justify-between p-6 pb-4">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Registrar abono</h2>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Saldo pendiente: {formatCurrency(account.balance)}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+            aria-label="Cerrar"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit(onSubmit)} noValidate>
+          <div className="space-y-4 px-6 pb-2">
+            <div className="space-y-2">
+              <label htmlFor="payment-amount" className={labelClassName}>
+                Monto
+              </label>
+              <div className="flex space-x-2">
+                <Input
+                  id="payment-amount"
+                  type="number"
+                  inputMode="numeric"
+                  min={1}
+                  step={1}
+                  {...register('amount', { valueAsNumber: true })}
+                  autoFocus
+                  className="flex-1"
+                />
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setValue('amount', account.balance, { shouldValidate: true })}
+                >
+                  Pagar todo
+                </Button>
+              </div>
+              {errors.amount && <p className={errorClassName}>{errors.amount.message}</p>}
+            </div>
+
+            <div className="space-y-2">
+              <label htmlFor="payment-method" className={labelClassName}>
+                Medio de pago
+              </label>
+              <Select id="payment-method" {...register('method')} className="w-full">
+                {Object.values(PaymentMethod).map((method) => (
+                  <option key={method} value={method}>
+                    {PAYMENT_METHOD_LABELS[method]}
+                  </option>
+                ))}
+              </Select>
+              {errors.method && <p className={errorClassName}>{errors.method.message}</p>}
+            </div>
+
+            <div className="space-y-2">
+              <label htmlFor="payment-reference" className={labelClassName}>
+                Comprobante <span className="font-normal text-gray-500">(opcional)</span>
+              </label>
+              <Input id="payment-reference" {...register('reference')} placeholder="Número de recibo o transferencia" />
+              {errors.reference && <p className={errorClassName}>{errors.reference.message}</p>}
+            </div>
+
+            <div className="space-y-2">
+              <label htmlFor="payment-note" className={labelClassName}>
+                Nota <span className="font-normal text-gray-500">(opcional)</span>
+              </label>
+              <Input id="payment-note" {...register('note')} />
+              {errors.note && <p className={errorClassName}>{errors.note.message}</p>}
+            </div>
+          </div>
+
+          <div className="flex justify-end space-x-3 p-6 pt-4">
+            <Button type="button" variant="outline" onClick={onClose} disabled={isSubmitting}>
+              Cancelar
+            </Button>
+            <Button type="submit" disabled={isSubmitting} className="bg-nequi-pink hover:bg-nequi-pink-dark text-white">
+              {isSubmitting ? 'Guardando...' : 'Registrar abono'}
+            </Button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,227 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { Search, Wallet } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import { Input } from '@/components/ui/Input';
+import { Pagination } from '@/components/ui/Pagination';
+import { SegmentSelect } from '@/components/ui/SegmentSelect';
+import { Select } from '@/components/ui/Select';
+import { useClientSegments, useDebouncedValue } from '@/hooks';
+import { AGING_BUCKETS, creditService, getOverdueBalance } from '@/services';
+import type {
+  AgingBucket,
+  CreditAccount,
+  CreditAccountSortField,
+  CreditPortfolioSummary,
+  PaginatedResponse
+} from '@/types';
+import { getErrorMessage } from '@/utils/formErrors';
+import { formatCurrency, formatDate } from '@/utils/format';
+import { AgingBreakdown } from './AgingBreakdown';
+
+const PAGE_SIZE = 20;
+
+const SORT_OPTIONS: { value: string; label: string; sortBy: CreditAccountSortField; sortOrder: 'asc' | 'desc' }[] = [
+  { value: 'balance', label: 'Mayor saldo', sortBy: 'balance', sortOrder: 'desc' },
+  { value: 'oldest', label: 'Deuda más antigua', sortBy: 'oldestChargeAt', sortOrder: 'asc' },
+  { value: 'name', label: 'Nombre', sortBy: 'clientName', sortOrder: 'asc' },
+];
+
+/** Accounts receivable: every client that owes on fiado */
+export const CreditPortfolio: React.FC = () => {
+  const [summary, setSummary] = useState<CreditPortfolioSummary | null>(null);
+  const [result, setResult] = useState<PaginatedResponse<CreditAccount> | null>(null);
+  const [page, setPage] = useState(1);
+  const [search, setSearch] = useState('');
+  const [agedOver, setAgedOver] = useState<AgingBucket | ''>('');
+  const [sort, setSort] = useState(SORT_OPTIONS[0].value);
+  const [segmentId, setSegmentId] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const debouncedSearch = useDebouncedValue(search.trim());
+  const { segments } = useClientSegments();
+
+  const loadAccounts = useCallback(async () => {
+    const { sortBy, sortOrder } = SORT_OPTIONS.find((option) => option.value === sort) ?? SORT_OPTIONS[0];
+
+    setIsLoading(true);
+    try {
+      setResult(
+        await creditService.listAccounts(
+          { page, limit: PAGE_SIZE, sortBy, sortOrder },
+          { search: debouncedSearch || undefined, agedOver: agedOver || undefined, segmentId: segmentId || undefined }
+        )
+      );
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'No se pudo cargar la cartera'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [page, sort, debouncedSearch, agedOver, segmentId]);
+
+  useEffect(() => {
+    loadAccounts();
+  }, [loadAccounts]);
+
+  useEffect(() => {
+    creditService
+      .getPortfolioSummary()
+      .then(setSummary)
+      .catch((error) => toast.error(getErrorMessage(error, 'No se pudo cargar el resumen de cartera')));
+  }, []);
+
+  // Filters and sorting apply from the first page
+  useEffect(() => {
+    setPage(1);
+  }, [sort, debouncedSearch, agedOver, segmentId]);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.4 }}
+      className="space-y-6"
+    >
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Cartera</h1>
+        <p className="text-gray-600 dark:text-gray-400 mt-2">Lo que tus clientes te deben por ventas fiadas</p>
+      </div>
+
+      {summary && (
+        <Card className="card-shadow">
+          <CardContent className="pt-6 space-y-4">
+            <div className="flex flex-wrap gap-8">
+              <div>
+                <p className="text-sm text-gray-600 dark:text-gray-400">Total por cobrar</p>
+                <p className="text-3xl font-bold text-gray-900 dark:text-white">{formatCurrency(summary.totalBalance)}</p>
+              </div>
+              <div>
+                <p className="text-sm text-gray-600 dark:text-gray-400">Vencido (más de 30 días)</p>
+                <p className="text-3xl font-bold text-red-600 dark:text-red-400">
+                  {formatCurrency(getOverdueBalance(summary.aging))}
+                </p>
+              </div>
+              <div>
+                <p className="text-sm text-gray-600 dark:text-gray-400">Clientes con saldo</p>
+                <p className="text-3xl font-bold text-gray-900 dark:text-white">
+                  {summary.accountCount.toLocaleString('es-CO')}
+                </p>
+              </div>
+            </div>
+            <AgingBreakdown aging={summary.aging} />
+          </CardContent>
+        </Card>
+      )}
+
+      <Card className="card-shadow">
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <Wallet className="h-5 w-5 text-nequi-pink" />
+            <span>Cuentas por cobrar</span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+              <Input
+                value={search}
+                onChange={(event) => setSearch(event.target.value)}
+                placeholder="Buscar cliente"
+                aria-label="Buscar cliente"
+                className="pl-9"
+              />
+            </div>
+            <SegmentSelect segments={segments} value={segmentId} onChange={setSegmentId} />
+            <Select
+              value={agedOver}
+              onChange={(event) => setAgedOver(event.target.value as AgingBucket | '')}
+              aria-label="Antigüedad"
+            >
+              <option value="">Cualquier antigüedad</option>
+              {/* Each option means "older than the previous bucket" */}
+              {AGING_BUCKETS.slice(1).map(({ bucket }, index) => (
+                <option key={bucket} value={bucket}>
+                  Deuda de más de {AGING_BUCKETS[index].maxDays} días
+                </option>
+              ))}
+            </Select>
+            <Select
+              value={sort}
+              onChange={(event) => setSort(event.target.value)}
+              aria-label="Ordenar por"
+            >
+              {SORT_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </Select>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-gray-200 dark:border-gray-700">
+                  <th className="text-left py-3 px-4 font-medium text-gray-600 dark:text-gray-400">Cliente</th>
+                  <th className="text-right py-3 px-4 font-medium text-gray-600 dark:text-gray-400">Saldo</th>
+                  {AGING_BUCKETS.map(({ bucket, label }) => (
+                    <th key={bucket} className="text-right py-3 px-4 font-medium text-gray-600 dark:text-gray-400 whitespace-nowrap">
+                      {label}
+                    </th>
+                  ))}
+                  <th className="text-right py-3 px-4 font-medium text-gray-600 dark:text-gray-400">Cupo</th>
+                  <th className="text-left py-3 px-4 font-medium text-gray-600 dark:text-gray-400">Último abono</th>
+                </tr>
+              </thead>
+              <tbody>
+                {result?.data.map((account) => (
+                  <tr key={account.clientId} className="border-b border-gray-100 dark:border-gray-800">
+                    <td className="py-2 px-4">
+                      <Link
+                        to={`/clients/${account.clientId}`}
+                        className="font-medium text-gray-900 dark:text-white hover:text-nequi-pink"
+                      >
+                        {account.clientName}
+                      </Link>
+                    </td>
+                    <td className="py-2 px-4 text-right font-medium text-gray-900 dark:text-white whitespace-nowrap">
+                      {formatCurrency(account.balance)}
+                    </td>
+                    {AGING_BUCKETS.map(({ bucket }) => (
+                      <td
+                        key={bucket}
+                        className={`py-2 px-4 text-right text-sm whitespace-nowrap ${
+                          account.aging[bucket] > 0 && bucket !== 'current'
+                            ? 'text-red-600 dark:text-red-400'
+                            : 'text-gray-600 dark:text-gray-400'
+                        }`}
+                      >
+                        {account.aging[bucket] > 0 ? formatCurrency(account.aging[bucket]) : '—'}
+                      </td>
+                    ))}
+                    <td className="py-2 px-4 text-right text-sm text-gray-600 dark:text-gray-400 whitespace-nowrap">
+                      {account.creditLimit > 0 ? formatCurrency(account.creditLimit) : '—'}
+                    </td>
+                    <td className="py-2 px-4 text-sm text-gray-600 dark:text-gray-400 whitespace-nowrap">
+                      {account.lastPaymentAt ? formatDate(account.lastPaymentAt) : 'Nunca'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            {!isLoading && result?.data.length === 0 && (
+              <p className="text-center text-gray-500 dark:text-gray-400 py-8">
+                {debouncedSearch || agedOver || segmentId ? 'Ninguna cuenta coincide con los filtros.' : 'Nadie te debe por ahora.'}
+              </p>
+            )}
+          </div>
+
+          {result && <Pagination pagination={result.pagination} onPageChange={setPage} itemLabel="cuentas" />}
+        </CardContent>
+      </Card>
+    </motion.div>
+  );
+};
@@ -0,0 +1,226 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useParams, useSearchParams } from 'react-router-dom';
+import { ArrowLeft, Printer } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { useAuth } from '@/contexts';
+import {
+  PAYMENT_METHOD_LABELS,
+  TAX_DOCUMENT_ABBREVIATIONS,
+  clientService,
+  creditService,
+  formatAddress,
+  formatPhone,
+  formatTaxId
+} from '@/services';
+import { CreditMovementType } from '@/types';
+import type { Client, CreditMovement, CreditStatement as CreditStatementData } from '@/types';
+import { getErrorMessage } from '@/utils/formErrors';
+import { formatCurrency, formatDate } from '@/utils/format';
+import { AgingBreakdown } from './AgingBreakdown';
+
+const DEFAULT_PERIOD_DAYS = 90;
+
+const toDateInput = (date: Date) => date.toISOString().slice(0, 10);
+
+function defaultFrom(): string {
+  const date = new Date();
+  date.setDate(date.getDate() - DEFAULT_PERIOD_DAYS);
+  return toDateInput(date);
+}
+
+function describeMovement(movement: CreditMovement): string {
+  if (movement.type === CreditMovementType.CHARGE) {
+    return [`Venta ${movement.saleReference ?? ''}`.trim(), movement.description].filter(Boolean).join(' · ');
+  }
+  const method = movement.paymentMethod ? PAYMENT_METHOD_LABELS[movement.paymentMethod] : '';
+  return ['Abono', method, movement.paymentReference].filter(Boolean).join(' · ');
+}
+
+/**
+ * Printable fiado statement for a period. Meant to be handed or sent to the
+ * client, so it renders outside the app layout.
+ */
+export const CreditStatement: React.FC = () => {
+  const { id = '' } = useParams<{ id: string }>();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { company } = useAuth();
+  const [client, setClient] = useState<Client | null>(null);
+  const [statement, setStatement] = useState<CreditStatementData | null>(null);
+  const from = searchParams.get('from') ?? defaultFrom();
+  const to = searchParams.get('to') ?? toDateInput(new Date());
+
+  useEffect(() => {
+    let cancelled = false;
+
+    Promise.all([
+      clientService.get(id),
+      creditService.getStatement(id, { from: new Date(`${from}T00:00:00`), to: new Date(`${to}T23:59:59.999`) }),
+    ])
+      .then(([loadedClient, loadedStatement]) => {
+        if (cancelled) return;
+        setClient(loadedClient);
+        setStatement(loadedStatement);
+      })
+      .catch((error) => {
+        if (!cancelled) toast.error(getErrorMessage(error, 'No se pudo generar el estado de cuenta'));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [id, from, to]);
+
+  const setPeriod = (key: 'from' | 'to', value: string) => {
+    if (!value) return;
+    setSearchParams({ from, to, [key]: value }, { replace: true });
+  };
+
+  const charges = statement?.movements
+    .filter((movement) => movement.type === CreditMovementType.CHARGE)
+    .reduce((sum, movement) => sum + movement.amount, 0) ?? 0;
+  const payments = statement?.movements
+    .filter((movement) => movement.type === CreditMovementType.PAYMENT)
+    .reduce((sum, movement) => sum + movement.amount, 0) ?? 0;
+  const closingBalance = statement ? statement.openingBalance + charges - payments : 0;
+
+  return (
+    <div className="min-h-screen bg-gray-100 print:bg-white py-8 print:py-0">
+      <div className="max-w-4xl mx-auto px-4 print:px-0 space-y-4">
+        <div className="flex flex-wrap items-end justify-between gap-4 print:hidden">
+          <Link to={`/clients/${id}`} className="inline-flex items-center text-sm text-gray-600 hover:text-nequi-pink">
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Volver al cliente
+          </Link>
+          <div className="flex flex-wrap items-end gap-2">
+            <label className="text-sm text-gray-700">
+              Desde
+              <Input type="date" value={from} max={to} onChange={(event) => setPeriod('from', event.target.value)} />
+            </label>
+            <label className="text-sm text-gray-700">
+              Hasta
+              <Input type="date" value={to} min={from} onChange={(event) => setPeriod('to', event.target.value)} />
+            </label>
+            <Button
+              onClick={() => window.print()}
+              disabled={!statement}
+              className="bg-nequi-pink hover:bg-nequi-pink-dark text-white"
+            >
+              <Printer className="h-4 w-4 mr-2" />
+              Imprimir
+            </Button>
+          </div>
+        </div>
+
+        {!statement || !client ? (
+          <div className="flex justify-center py-16">
+            <div className="w-8 h-8 border-4 border-nequi-pink border-t-transparent rounded-full animate-spin"></div>
+          </div>
+        ) : (
+          <article className="bg-white text-gray-900 rounded-xl shadow print:shadow-none print:rounded-none p-8 print:p-0 space-y-6">
+            <header className="flex flex-wrap justify-between gap-4 border-b border-gray-200 pb-4">
+              {company && (
+                <div className="text-sm">
+                  <p className="text-lg font-bold">{company.name}</p>
+                  <p>
+                    {TAX_DOCUMENT_ABBREVIATIONS[company.documentType]}{' '}
+                    {formatTaxId(company.documentType, company.nit, company.dv)}
+                  </p>
+                  <p>{formatAddress(company.address)}</p>
+                  <p>{[formatPhone(company.phone), company.email].filter(Boolean).join(' · ')}</p>
+                </div>
+              )}
+              <div className="text-sm sm:text-right">
+                <h1 className="text-2xl font-bold">Estado de cuenta</h1>
+                <p>
+                  Del {formatDate(statement.from)} al {formatDate(statement.to)}
+                </p>
+                <p className="text-gray-500">Generado el {formatDate(statement.generatedAt, { dateStyle: 'medium', timeStyle: 'short' })}</p>
+              </div>
+            </header>
+
+            <section className="text-sm">
+              <p className="font-semibold">{client.name}</p>
+              <p>
+                {TAX_DOCUMENT_ABBREVIATIONS[client.documentType]}{' '}
+                {formatTaxId(client.documentType, client.documentNumber, client.dv)}
+              </p>
+              {client.address && <p>{formatAddress(client.address)}</p>}
+              {client.phone && <p>{formatPhone(client.phone)}</p>}
+            </section>
+
+            <section className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-sm">
+              <div className="rounded-lg border border-gray-200 p-3">
+                <p className="text-gray-500">Saldo anterior</p>
+                <p className="text-lg font-bold">{formatCurrency(statement.openingBalance)}</p>
+              </div>
+              <div className="rounded-lg border border-gray-200 p-3">
+                <p className="text-gray-500">Compras a crédito</p>
+                <p className="text-lg font-bold">{formatCurrency(charges)}</p>
+              </div>
+              <div className="rounded-lg border border-gray-200 p-3">
+                <p className="text-gray-500">Abonos</p>
+                <p className="text-lg font-bold">{formatCurrency(payments)}</p>
+              </div>
+              <div className="rounded-lg border border-gray-200 p-3">
+                <p className="text-gray-500">Saldo a la fecha</p>
+                <p className="text-lg font-bold">{formatCurrency(closingBalance)}</p>
+              </div>
+            </section>
+
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-300">
+                  <th className="text-left py-2 px-2 font-medium text-gray-600">Fecha</th>
+                  <th className="text-left py-2 px-2 font-medium text-gray-600">Concepto</th>
+                  <th className="text-right py-2 px-2 font-medium text-gray-600">Cargos</th>
+                  <th className="text-right py-2 px-2 font-medium text-gray-600">Abonos</th>
+                  <th className="text-right py-2 px-2 font-medium text-gray-600">Saldo</th>
+                </tr>
+              </thead>
+              <tbody>
+                <tr className="border-b border-gray-100">
+                  <td className="py-2 px-2 whitespace-nowrap">{formatDate(statement.from)}</td>
+                  <td className="py-2 px-2 text-gray-500" colSpan={3}>
+                    Saldo anterior
+                  </td>
+                  <td className="py-2 px-2 text-right whitespace-nowrap">{formatCurrency(statement.openingBalance)}</td>
+                </tr>
+                {statement.movements.map((movement) => {
+                  const isCharge = movement.type === CreditMovementType.CHARGE;
+
+                  return (
+                    <tr key={movement.id} className="border-b border-gray-100 break-inside-avoid">
+                      <td className="py-2 px-2 whitespace-nowrap">{formatDate(movement.date)}</td>
+                      <td className="py-2 px-2">{describeMovement(movement)}</td>
+                      <td className="py-2 px-2 text-right whitespace-nowrap">{isCharge ? formatCurrency(movement.amount) : ''}</td>
+                      <td className="py-2 px-2 text-right whitespace-nowrap">{isCharge ? '' : formatCurrency(movement.amount)}</td>
+                      <td className="py-2 px-2 text-right whitespace-nowrap">{formatCurrency(movement.balanceAfter)}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+            {statement.movements.length === 0 && (
+              <p className="text-sm text-gray-500 text-center">Sin movimientos en este período.</p>
+            )}
+
+            {statement.account.balance > 0 && (
+              <section className="space-y-2 break-inside-avoid">
+                <h2 className="text-sm font-semibold">Antigüedad del saldo actual</h2>
+                <AgingBreakdown aging={statement.account.aging} />
+              </section>
+            )}
+
+            <footer className="text-xs text-gray-500 border-t border-gray-200 pt-4">
+              {statement.account.creditLimit > 0 &&
+                `Cupo de crédito: ${formatCurrency(statement.account.creditLimit)}. `}
+              Si encuentras alguna diferencia, comunícate con nosotros.
+            </footer>
+          </article>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,26 @@
+import React from 'react';
+import { RFM_SEGMENT_LABELS } from '@/services';
+import { RfmSegment } from '@/types';
+import type { ClientRfm } from '@/types';
+
+const SEGMENT_STYLES: Record<RfmSegment, string> = {
+  [RfmSegment.CHAMPIONS]: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400',
+  [RfmSegment.LOYAL]: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400',
+  [RfmSegment.POTENTIAL_LOYALIST]: 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-400',
+  [RfmSegment.NEW]: 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-400',
+  [RfmSegment.NEEDS_ATTENTION]: 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-400',
+  [RfmSegment.AT_RISK]: 'bg-orange-100 text-orange-700 dark:bg-orange-900/30 dark:text-orange-400',
+  [RfmSegment.CANT_LOSE]: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400',
+  [RfmSegment.HIBERNATING]: 'bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300',
+  [RfmSegment.LOST]: 'bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300',
+};
+
+/** RFM segment with the recency, frequency and monetary quintiles on hover */
+export const RfmBadge: React.FC<{ rfm: ClientRfm }> = ({ rfm }) => (
+  <span
+    className={`inline-block px-2 py-0.5 rounded-full text-xs font-medium ${SEGMENT_STYLES[rfm.segment]}`}
+    title={`Recencia ${rfm.recency}/5 · Frecuencia ${rfm.frequency}/5 · Monto ${rfm.monetary}/5`}
+  >
+    {RFM_SEGMENT_LABELS[rfm.segment]}
+  </span>
+);
@@ -0,0 +1,374 @@
+import React, { useEffect, useState } from 'react';
+import { Filter, Plus, Save, Trash2, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Select } from '@/components/ui/Select';
+import { useDebouncedValue } from '@/hooks';
+import {
+  EMPTY_SEGMENT,
+  MAX_SEGMENT_RULES,
+  RFM_SEGMENT_LABELS,
+  SEGMENT_FIELDS,
+  SEGMENT_OPERATOR_LABELS,
+  clientSegmentService,
+  compactSegment,
+  createSegmentRule,
+  findMunicipality,
+  getDepartments,
+  getMunicipalities
+} from '@/services';
+import { RfmSegment } from '@/types';
+import type { ClientSegment, SegmentDefinition, SegmentRule, SegmentRuleField } from '@/types';
+import { getErrorMessage } from '@/utils/formErrors';
+import { TagInput } from './TagInput';
+
+const chipClassName =
+  'inline-flex items-center space-x-1 px-2 py-0.5 rounded-full text-xs font-medium bg-pink-100 text-nequi-pink dark:bg-pink-900/30';
+
+const FIELD_OPERATORS: Record<SegmentRuleField, SegmentRule['operator'][]> = {
+  tags: ['any', 'all', 'none'],
+  municipality: ['in', 'notIn'],
+  rfmSegment: ['in'],
+  recencyDays: ['lte', 'gte'],
+  purchaseCount: ['gte', 'lte'],
+  lifetimeValue: ['gte', 'lte'],
+};
+
+const NUMBER_UNITS: Partial<Record<SegmentRuleField, string>> = {
+  recencyDays: 'días',
+  purchaseCount: 'compras',
+  lifetimeValue: 'COP',
+};
+
+interface MunicipalityPickerProps {
+  value: string[];
+  onChange: (codes: string[]) => void;
+}
+
+const MunicipalityPicker: React.FC<MunicipalityPickerProps> = ({ value, onChange }) => {
+  const [departmentCode, setDepartmentCode] = useState('');
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap gap-2">
+        <Select
+          value={departmentCode}
+          onChange={(event) => setDepartmentCode(event.target.value)}
+          aria-label="Departamento"
+        >
+          <option value="">Departamento</option>
+          {getDepartments().map((department) => (
+            <option key={department.code} value={department.code}>
+              {department.name}
+            </option>
+          ))}
+        </Select>
+        <Select
+          value=""
+          onChange={(event) => event.target.value && onChange([...value, event.target.value])}
+          disabled={!departmentCode}
+          aria-label="Agregar municipio"
+        >
+          <option value="">{departmentCode ? 'Agregar municipio' : 'Elige primero el departamento'}</option>
+          {getMunicipalities(departmentCode)
+            .filter((municipality) => !value.includes(municipality.code))
+            .map((municipality) => (
+              <option key={municipality.code} value={municipality.code}>
+                {municipality.name}
+              </option>
+            ))}
+        </Select>
+      </div>
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {value.map((code) => {
+            const name = findMunicipality(code)?.name ?? code;
+            return (
+              <span key={code} className={chipClassName}>
+                <span>{name}</span>
+                <button
+                  type="button"
+                  onClick={() => onChange(value.filter((item) => item !== code))}
+                  className="hover:text-nequi-pink-dark"
+                  aria-label={`Quitar ${name}`}
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </span>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface RuleValueEditorProps {
+  rule: SegmentRule;
+  onChange: (rule: SegmentRule) => void;
+  tagSuggestions: string[];
+  id: string;
+}
+
+const RuleValueEditor: React.FC<RuleValueEditorProps> = ({ rule, onChange, tagSuggestions, id }) => {
+  switch (rule.field) {
+    case 'tags':
+      return (
+        <TagInput
+          id={id}
+          value={rule.values}
+          onChange={(values) => onChange({ ...rule, values })}
+          suggestions={tagSuggestions}
+        />
+      );
+    case 'municipality':
+      return <MunicipalityPicker value={rule.values} onChange={(values) => onChange({ ...rule, values })} />;
+    case 'rfmSegment':
+      return (
+        <div className="flex flex-wrap gap-x-4 gap-y-2">
+          {Object.values(RfmSegment).map((segment) => (
+            <label key={segment} className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={rule.values.includes(segment)}
+                onChange={(event) =>
+                  onChange({
+                    ...rule,
+                    values: event.target.checked
+                      ? [...rule.values, segment]
+                      : rule.values.filter((item) => item !== segment),
+                  })
+                }
+                className="rounded border-gray-300 text-nequi-pink focus:ring-nequi-pink"
+              />
+              <span>{RFM_SEGMENT_LABELS[segment]}</span>
+            </label>
+          ))}
+        </div>
+      );
+    default:
+      return (
+        <div className="flex items-center space-x-2">
+          <Input
+            id={id}
+            type="number"
+            inputMode="numeric"
+            min={0}
+            step={1}
+            value={Number.isFinite(rule.value) ? rule.value : ''}
+            onChange={(event) => onChange({ ...rule, value: event.target.value === '' ? NaN : Number(event.target.value) })}
+            className="max-w-[12rem]"
+          />
+          <span className="text-sm text-gray-500 dark:text-gray-400">{NUMBER_UNITS[rule.field]}</span>
+        </div>
+      );
+  }
+};
+
+interface SegmentBuilderProps {
+  /** Saved segment being edited; the builder starts empty without one */
+  segment?: ClientSegment;
+  tagSuggestions: string[];
+  /** Filters the list with the current conditions, saved or not */
+  onApply: (definition: SegmentDefinition | undefined) => void;
+  onSaved: (segment: ClientSegment) => void;
+  onDeleted: (segmentId: string) => void;
+}
+
+/**
+ * Filter builder for client segments. Shows a live count while the
+ * conditions change; applying filters the list, saving keeps the segment for
+ * the current user.
+ */
+export const SegmentBuilder: React.FC<SegmentBuilderProps> = ({
+  segment,
+  tagSuggestions,
+  onApply,
+  onSaved,
+  onDeleted,
+}) => {
+  const [definition, setDefinition] = useState<SegmentDefinition>(segment?.definition ?? EMPTY_SEGMENT);
+  const [name, setName] = useState(segment?.name ?? '');
+  const [count, setCount] = useState<number | null>(null);
+  const [error, setError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const debouncedDefinition = useDebouncedValue(definition, 500);
+
+  useEffect(() => {
+    if (!compactSegment(debouncedDefinition)) {
+      setCount(null);
+      return;
+    }
+
+    const controller = new AbortController();
+    clientSegmentService
+      .count(debouncedDefinition, controller.signal)
+      .then(setCount)
+      .catch(() => {
+        // The count is a hint; a failed or aborted request just hides it
+        if (!controller.signal.aborted) setCount(null);
+      });
+
+    return () => controller.abort();
+  }, [debouncedDefinition]);
+
+  const updateRule = (index: number, rule: SegmentRule) =>
+    setDefinition((current) => ({
+      ...current,
+      rules: current.rules.map((item, position) => (position === index ? rule : item)),
+    }));
+
+  const removeRule = (index: number) =>
+    setDefinition((current) => ({ ...current, rules: current.rules.filter((_, position) => position !== index) }));
+
+  const addRule = () =>
+    setDefinition((current) => ({ ...current, rules: [...current.rules, createSegmentRule('tags')] }));
+
+  const handleSave = async (asNew: boolean) => {
+    setError('');
+    setIsSaving(true);
+    try {
+      const saved =
+        segment && !asNew
+          ? await clientSegmentService.update(segment.id, name, definition)
+          : await clientSegmentService.create(name, definition);
+      toast.success(segment && !asNew ? 'Segmento actualizado' : 'Segmento guardado');
+      onSaved(saved);
+    } catch (saveError) {
+      setError(getErrorMessage(saveError, 'No se pudo guardar el segmento'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!segment || !window.confirm(`¿Eliminar el segmento ${segment.name}?`)) {
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await clientSegmentService.remove(segment.id);
+      toast.success('Segmento eliminado');
+      onDeleted(segment.id);
+    } catch (deleteError) {
+      setError(getErrorMessage(deleteError, 'No se pudo eliminar el segmento'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="rounded-lg border border-gray-200 dark:border-gray-700 p-4 space-y-4">
+      <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+        <span>Clientes que cumplan</span>
+        <Select
+          value={definition.match}
+          onChange={(event) =>
+            setDefinition((current) => ({ ...current, match: event.target.value as SegmentDefinition['match'] }))
+          }
+          aria-label="Coincidencia"
+        >
+          <option value="all">todas</option>
+          <option value="any">alguna</option>
+        </Select>
+        <span>las condiciones</span>
+      </div>
+
+      {definition.rules.map((rule, index) => (
+        <div key={index} className="flex flex-col md:flex-row md:items-start gap-2">
+          <Select
+            value={rule.field}
+            onChange={(event) => updateRule(index, createSegmentRule(event.target.value as SegmentRuleField))}
+            aria-label="Campo"
+          >
+            {SEGMENT_FIELDS.map(({ field, label }) => (
+              <option key={field} value={field}>
+                {label}
+              </option>
+            ))}
+          </Select>
+          <Select
+            value={rule.operator}
+            onChange={(event) => updateRule(index, { ...rule, operator: event.target.value } as SegmentRule)}
+            aria-label="Condición"
+          >
+            {FIELD_OPERATORS[rule.field].map((operator) => (
+              <option key={operator} value={operator}>
+                {SEGMENT_OPERATOR_LABELS[operator]}
+              </option>
+            ))}
+          </Select>
+          <div className="flex-1">
+            <RuleValueEditor
+              id={`segment-rule-${index}`}
+              rule={rule}
+              onChange={(next) => updateRule(index, next)}
+              tagSuggestions={tagSuggestions}
+            />
+          </div>
+          <Button variant="ghost" size="sm" onClick={() => removeRule(index)} aria-label="Quitar condición">
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <Button variant="outline" size="sm" onClick={addRule} disabled={definition.rules.length >= MAX_SEGMENT_RULES}>
+          <Plus className="h-4 w-4 mr-2" />
+          Agregar condición
+        </Button>
+        {count !== null && (
+          <span className="text-sm text-gray-600 dark:text-gray-400">
+            {count.toLocaleString('es-CO')} {count === 1 ? 'cliente coincide' : 'clientes coinciden'}
+          </span>
+        )}
+      </div>
+
+      <div className="flex flex-col md:flex-row md:items-center gap-2 border-t border-gray-200 dark:border-gray-700 pt-4">
+        <Input
+          value={name}
+          onChange={(event) => setName(event.target.value)}
+          placeholder="Nombre del segmento"
+          aria-label="Nombre del segmento"
+          maxLength={60}
+          className="md:max-w-xs"
+        />
+        <div className="flex flex-wrap gap-2 md:ml-auto">
+          {segment && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={handleDelete}
+              disabled={isSaving}
+              className="text-red-600 hover:text-red-700 dark:text-red-400"
+            >
+              <Trash2 className="h-4 w-4 mr-2" />
+              Eliminar
+            </Button>
+          )}
+          <Button variant="outline" size="sm" onClick={() => handleSave(true)} disabled={isSaving}>
+            <Save className="h-4 w-4 mr-2" />
+            {segment ? 'Guardar como nuevo' : 'Guardar segmento'}
+          </Button>
+          {segment && (
+            <Button variant="outline" size="sm" onClick={() => handleSave(false)} disabled={isSaving}>
+              <Save className="h-4 w-4 mr-2" />
+              Guardar cambios
+            </Button>
+          )}
+          <Button
+            size="sm"
+            onClick={() => onApply(compactSegment(definition))}
+            className="bg-nequi-pink hover:bg-nequi-pink-dark text-white"
+          >
+            <Filter className="h-4 w-4 mr-2" />
+            Aplicar
+          </Button>
+        </div>
+      </div>
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { normalizeTags } from '@/services';
+
+interface TagInputProps {
+  value: string[];
+  onChange: (tags: string[]) => void;
+  onBlur?: () => void;
+  id?: string;
+  max?: number;
+  placeholder?: string;
+  /** Existing tags offered as suggestions */
+  suggestions?: string[];
+}
+
+/** Enter or comma adds the typed tag; Backspace on an empty input removes the last one */
+export const TagInput: React.FC<TagInputProps> = ({
+  value,
+  onChange,
+  onBlur,
+  id,
+  max,
+  placeholder = 'Escribe y presiona Enter',
+  suggestions = [],
+}) => {
+  const [draft, setDraft] = useState('');
+  const isFull = max !== undefined && value.length >= max;
+
+  const addTag = (tag: string) => {
+    const next = normalizeTags([...value, tag]);
+    if (!isFull && next.length !== value.length) {
+      onChange(next);
+    }
+    setDraft('');
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if ((event.key === 'Enter' || event.key === ',') && draft.trim()) {
+      event.preventDefault();
+      addTag(draft);
+    } else if (event.key === 'Backspace' && !draft && value.length > 0) {
+      onChange(value.slice(0, -1));
+    }
+  };
+
+  const listId = id ? `${id}-suggestions` : undefined;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 min-h-10 rounded-md border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 px-2 py-1.5 focus-within:ring-2 focus-within:ring-nequi-pink">
+      {value.map((tag) => (
+        <span
+          key={tag}
+          className="inline-flex items-center space-x-1 px-2 py-0.5 rounded-full text-xs font-medium bg-pink-100 text-nequi-pink dark:bg-pink-900/30"
+        >
+          <span>{tag}</span>
+          <button
+            type="button"
+            onClick={() => onChange(value.filter((item) => item !== tag))}
+            className="hover:text-nequi-pink-dark"
+            aria-label={`Quitar ${tag}`}
+          >
+            <X className="h-3 w-3" />
+          </button>
+        </span>
+      ))}
+      <input
+        id={id}
+        value={draft}
+        onChange={(event) => setDraft(event.target.value)}
+        onKeyDown={handleKeyDown}
+        onBlur={() => {
+          if (draft.trim()) addTag(draft);
+          onBlur?.();
+        }}
+        disabled={isFull}
+        list={listId}
+        className="flex-1 min-w-[8rem] bg-transparent text-sm text-gray-900 dark:text-white placeholder:text-gray-400 focus:outline-none disabled:cursor-not-allowed"
+        placeholder={isFull ? `Máximo ${max} etiquetas` : placeholder}
+      />
+      {listId && (
+        <datalist id={listId}>
+          {suggestions
+            .filter((tag) => !value.includes(tag))
+            .map((tag) => (
+              <option key={tag} value={tag} />
+            ))}
+        </datalist>
+      )}
+    </div>
+  );
+};
@@ -1,8 +1,13 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { motion } from 'framer-motion';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell } from 'recharts';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
-import { TrendingUp, Users, ShoppingCart, DollarSign, ArrowUpRight, ArrowDownRight, CreditCard, Smartphone } from 'lucide-react';
+import { TrendingUp, Users, ShoppingCart, DollarSign, ArrowUpRight, ArrowDownRight, CreditCard, Smartphone, Wallet } from 'lucide-react';
+import { Can } from '@/guards';
+import { creditService } from '@/services';
+import { Permission } from '@/types';
+import type { CreditPortfolioSummary } from '@/types';
+import { formatCurrency } from '@/utils/format';
 
 // Mock data con temática financiera
 const salesData = [
@@ -72,6 +77,33 @@ const MetricCard: React.FC<{
   </motion.div>
 );
 
+// Outstanding fiado across all clients
+const ReceivablesMetricCard: React.FC = () => {
+  const [summary, setSummary] = useState<CreditPortfolioSummary | null>(null);
+
+  useEffect(() => {
+    creditService
+      .getPortfolioSummary()
+      .then(setSummary)
+      .catch(() => {
+        // The card keeps its placeholder
+      });
+  }, []);
+
+  const change = summary?.monthlyChange ?? 0;
+
+  return (
+    <MetricCard
+      title="Cartera por cobrar"
+      value={summary ? formatCurrency(summary.totalBalance) : '—'}
+      change={`${change >= 0 ? '+' : ''}${(change * 100).toFixed(1)}%`}
+      changeType={change >= 0 ? 'positive' : 'negative'}
+      icon={<Wallet className="h-5 w-5 text-white" />}
+      gradient="bg-gradient-nequi-accent"
+    />
+  );
+};
+
 export const Dashboard: React.FC = () => {
   return (
     <div className="space-y-6">
@@ -95,7 +127,7 @@ export const Dashboard: React.FC = () => {
         initial={{ opacity: 0, y: 20 }}
         animate={{ opacity: 1, y: 0 }}
         transition={{ duration: 0.4, delay: 0.1 }}
-        className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6"
+        className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 xl:grid-cols-5 gap-6"
       >
         <MetricCard
           title="Saldo Disponible"
@@ -129,6 +161,9 @@ export const Dashboard: React.FC = () => {
           icon={<TrendingUp className="h-5 w-5 text-white" />}
           gradient="bg-gradient-nequi"
         />
+        <Can permission={Permission.CREDIT_VIEW}>
+          <ReceivablesMetricCard />
+        </Can>
       </motion.div>
 
       {/* Charts */}
@@ -1,6 +1,91 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { motion } from 'framer-motion';
+import { Download, Users } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { Button } from '@/components/ui/Button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import { SegmentSelect } from '@/components/ui/SegmentSelect';
+import { Can, FeatureGate } from '@/guards';
+import { useClientSegments } from '@/hooks';
+import { clientService, clientSpreadsheetService, describeSegment } from '@/services';
+import type { SpreadsheetFormat } from '@/services';
+import { FeatureFlag, Permission } from '@/types';
+import { getErrorMessage } from '@/utils/formErrors';
+
+/** Client count and export for one of the user's saved segments */
+const ClientSegmentReport: React.FC = () => {
+  const { segments } = useClientSegments();
+  const [segmentId, setSegmentId] = useState('');
+  const [totalClients, setTotalClients] = useState<number | null>(null);
+  const [exportingFormat, setExportingFormat] = useState<SpreadsheetFormat | null>(null);
+  const segment = segments.find((item) => item.id === segmentId);
+  const count = segment ? segment.clientCount : totalClients;
+
+  useEffect(() => {
+    clientService
+      .list({ page: 1, limit: 1 })
+      .then((result) => setTotalClients(result.pagination.total))
+      .catch((error) => toast.error(getErrorMessage(error, 'No se pudo contar los clientes')));
+  }, []);
+
+  const handleExport = async (format: SpreadsheetFormat) => {
+    setExportingFormat(format);
+    try {
+      await clientSpreadsheetService.exportList(
+        { segmentId: segmentId || undefined },
+        { sortBy: 'name', sortOrder: 'asc' },
+        format
+      );
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'No se pudo exportar el segmento'));
+    } finally {
+      setExportingFormat(null);
+    }
+  };
+
+  return (
+    <Card className="card-shadow">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Users className="h-5 w-5 text-nequi-pink" />
+          <span>Clientes por segmento</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col md:flex-row md:items-center gap-4">
+          <SegmentSelect segments={segments} value={segmentId} onChange={setSegmentId} className="md:w-72" />
+          <Can permission={Permission.REPORTS_EXPORT}>
+            <FeatureGate feature={FeatureFlag.DATA_EXPORT} fallback={null}>
+              <div className="flex space-x-2">
+                <Button variant="outline" size="sm" onClick={() => handleExport('csv')} disabled={!!exportingFormat || !count}>
+                  <Download className="h-4 w-4 mr-2" />
+                  {exportingFormat === 'csv' ? 'Exportando...' : 'CSV'}
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => handleExport('xlsx')} disabled={!!exportingFormat || !count}>
+                  <Download className="h-4 w-4 mr-2" />
+                  {exportingFormat === 'xlsx' ? 'Exportando...' : 'Excel'}
+                </Button>
+              </div>
+            </FeatureGate>
+          </Can>
+        </div>
+        <div>
+          <p className="text-3xl font-bold text-gray-900 dark:text-white">
+            {count === null ? '—' : count.toLocaleString('es-CO')}
+          </p>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            {segment ? describeSegment(segment.definition) : 'Todos tus clientes'}
+          </p>
+        </div>
+        {segments.length === 0 && (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Crea segmentos desde los filtros avanzados de la lista de clientes.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
 
 export const Reports: React.FC = () => {
   return (
@@ -29,6 +114,10 @@ export const Reports: React.FC = () => {
           </p>
         </CardContent>
       </Card>
+
+      <Can permission={Permission.CLIENTS_VIEW}>
+        <ClientSegmentReport />
+      </Can>
     </motion.div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,251 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Download, RefreshCw, ShieldAlert } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Select, selectClassName } from '@/components/ui/Select';
+import { FeatureGate } from '@/guards';
+import { SecurityLogger } from '@/services';
+import type { SecurityEventType, SecurityLog, SecuritySeverity } from '@/services';
+import { FeatureFlag } from '@/types';
+import { downloadFile, toCsv } from '@/utils/download';
+import { getErrorMessage } from '@/utils/formErrors';
+
+const MAX_RESULTS = 500;
+
+const EVENT_LABELS: Record<SecurityEventType, string> = {
+  login_attempt: 'Intento de inicio de sesión',
+  login_success: 'Inicio de sesión',
+  login_failure: 'Inicio de sesión fallido',
+  logout: 'Cierre de sesión',
+  token_refresh: 'Renovación de token',
+  token_expired: 'Token expirado',
+  session_expired: 'Sesión expirada',
+  csrf_violation: 'Violación CSRF',
+  rate_limit_exceeded: 'Límite de intentos superado',
+  suspicious_activity: 'Actividad sospechosa',
+  security_header_missing: 'Cabecera de seguridad ausente',
+  xss_attempt: 'Intento de XSS',
+  sql_injection_attempt: 'Intento de inyección SQL',
+  two_factor_challenge: 'Verificación en dos pasos solicitada',
+  two_factor_success: 'Verificación en dos pasos exitosa',
+  two_factor_failure: 'Verificación en dos pasos fallida',
+  two_factor_enabled: 'Verificación en dos pasos activada',
+  two_factor_disabled: 'Verificación en dos pasos desactivada',
+  terminal_locked: 'Terminal bloqueada',
+  pin_unlock_success: 'Desbloqueo con PIN',
+  pin_unlock_failure: 'PIN incorrecto',
+  pin_changed: 'PIN actualizado',
+  cashier_switched: 'Cambio de cajero',
+  session_revoked: 'Sesión revocada',
+  session_extended: 'Sesión extendida',
+  password_changed: 'Contraseña cambiada',
+  profile_updated: 'Perfil actualizado',
+  user_invited: 'Usuario invitado',
+  invitation_revoked: 'Invitación revocada',
+  user_role_changed: 'Rol de usuario cambiado',
+  user_deactivated: 'Usuario desactivado',
+  user_reactivated: 'Usuario reactivado',
+  password_reset_forced: 'Restablecimiento de contraseña forzado',
+};
+
+const SEVERITY_LABELS: Record<SecuritySeverity, string> = {
+  low: 'Baja',
+  medium: 'Media',
+  high: 'Alta',
+};
+
+const SEVERITY_STYLES: Record<SecuritySeverity, string> = {
+  low: 'bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300',
+  medium: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400',
+  high: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400',
+};
+
+const formatTimestamp = (timestamp: string): string =>
+  new Date(timestamp).toLocaleString('es-CO', { dateStyle: 'short', timeStyle: 'medium' });
+
+export const SecurityActivity: React.FC = () => {
+  const [logs, setLogs] = useState<SecurityLog[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [type, setType] = useState<SecurityEventType | ''>('');
+  const [severity, setSeverity] = useState<SecuritySeverity | ''>('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+
+  const loadLogs = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const results = await SecurityLogger.query({
+        types: type ? [type] : undefined,
+        severities: severity ? [severity] : undefined,
+        from: fromDate ? new Date(`${fromDate}T00:00:00`) : undefined,
+        to: toDate ? new Date(`${toDate}T23:59:59.999`) : undefined,
+        limit: MAX_RESULTS,
+      });
+      setLogs(results);
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'No se pudo cargar la actividad de seguridad'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [type, severity, fromDate, toDate]);
+
+  useEffect(() => {
+    loadLogs();
+  }, [loadLogs]);
+
+  const exportFile = (format: 'csv' | 'json') => {
+    const filename = `actividad-seguridad-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+    if (format === 'json') {
+      downloadFile(JSON.stringify(logs, null, 2), filename, 'application/json');
+      return;
+    }
+
+    const csv = toCsv(logs, [
+      { header: 'Fecha', value: (log) => log.timestamp },
+      { header: 'Evento', value: (log) => log.event.type },
+      { header: 'Severidad', value: (log) => log.event.severity },
+      { header: 'Mensaje', value: (log) => log.event.message },
+      { header: 'Detalles', value: (log) => (log.event.details ? JSON.stringify(log.event.details) : '') },
+      { header: 'Navegador', value: (log) => log.userAgent },
+    ]);
+    downloadFile(csv, filename, 'text/csv;charset=utf-8');
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.4 }}
+      className="space-y-6"
+    >
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
+          Actividad de seguridad
+        </h1>
+        <p className="text-gray-600 dark:text-gray-400 mt-2">
+          Revisa los eventos de seguridad registrados en esta terminal
+        </p>
+      </div>
+
+      <Card className="card-shadow">
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between">
+            <span className="flex items-center space-x-2">
+              <ShieldAlert className="h-5 w-5 text-nequi-pink" />
+              <span>Eventos</span>
+            </span>
+            <span className="flex items-center space-x-2">
+              <FeatureGate feature={FeatureFlag.DATA_EXPORT} fallback={null}>
+                <Button variant="outline" size="sm" onClick={() => exportFile('csv')} disabled={logs.length === 0}>
+                  <Download className="h-4 w-4 mr-2" />
+                  CSV
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => exportFile('json')} disabled={logs.length === 0}>
+                  <Download className="h-4 w-4 mr-2" />
+                  JSON
+                </Button>
+              </FeatureGate>
+              <Button variant="ghost" size="icon" onClick={loadLogs} disabled={isLoading} aria-label="Actualizar">
+                <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+              </Button>
+            </span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <Select
+              value={type}
+              onChange={(event) => setType(event.target.value as SecurityEventType | '')}
+              aria-label="Tipo de evento"
+            >
+              <option value="">Todos los eventos</option>
+              {(Object.keys(EVENT_LABELS) as SecurityEventType[]).map((eventType) => (
+                <option key={eventType} value={eventType}>
+                  {EVENT_LABELS[eventType]}
+                </option>
+              ))}
+            </Select>
+            <Select
+              value={severity}
+              onChange={(event) => setSeverity(event.target.value as SecuritySeverity | '')}
+              aria-label="Severidad"
+            >
+              <option value="">Todas las severidades</option>
+              {(Object.keys(SEVERITY_LABELS) as SecuritySeverity[]).map((level) => (
+                <option key={level} value={level}>
+                  {SEVERITY_LABELS[level]}
+                </option>
+              ))}
+            </Select>
+            <input
+              type="date"
+              value={fromDate}
+              onChange={(event) => setFromDate(event.target.value)}
+              className={selectClassName}
+              aria-label="Desde"
+            />
+            <input
+              type="date"
+              value={toDate}
+              onChange={(event) => setToDate(event.target.value)}
+              className={selectClassName}
+              aria-label="Hasta"
+            />
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-gray-200 dark:border-gray-700">
+                  <th className="text-left py-3 px-4 font-medium text-gray-600 dark:text-gray-400">Fecha</th>
+                  <th className="text-left py-3 px-4 font-medium text-gray-600 dark:text-gray-400">Evento</th>
+                  <th className="text-left py-3 px-4 font-medium text-gray-600 dark:text-gray-400">Severidad</th>
+                  <th className="text-left py-3 px-4 font-medium text-gray-600 dark:text-gray-400">Detalle</th>
+                </tr>
+              </thead>
+              <tbody>
+                {logs.map((log) => (
+                  <tr key={log.id} className="border-b border-gray-100 dark:border-gray-800 align-top">
+                    <td className="py-2 px-4 text-sm text-gray-600 dark:text-gray-400 whitespace-nowrap">
+                      {formatTimestamp(log.timestamp)}
+                    </td>
+                    <td className="py-2 px-4 text-sm text-gray-900 dark:text-white">
+                      {EVENT_LABELS[log.event.type] ?? log.event.type}
+                    </td>
+                    <td className="py-2 px-4">
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${SEVERITY_STYLES[log.event.severity]}`}>
+                        {SEVERITY_LABELS[log.event.severity]}
+                      </span>
+                    </td>
+                    <td className="py-2 px-4 text-sm text-gray-600 dark:text-gray-400">
+                      <p>{log.event.message}</p>
+                      {log.event.details && (
+                        <p className="text-xs font-mono text-gray-500 dark:text-gray-500 break-all">
+                          {JSON.stringify(log.event.details)}
+                        </p>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            {!isLoading && logs.length === 0 && (
+              <p className="text-center text-gray-500 dark:text-gray-400 py-8">
+                No hay eventos para los filtros seleccionados.
+              </p>
+            )}
+            {logs.length === MAX_RESULTS && (
+              <p className="text-center text-xs text-gray-500 dark:text-gray-400 pt-4">
+                Mostrando los {MAX_RESULTS} eventos más recientes. Ajusta los filtros para ver otros.
+              </p>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    </motion.div>
+  );
+};
@@ -0,0 +1,221 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { yupResolver } from '@hookform/resolvers/yup';
+import * as yup from 'yup';
+import { Camera, MailWarning, Trash2, UserCircle } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { useAuth } from '@/contexts';
+import { authService } from '@/services';
+import type { UpdateProfileData } from '@/types';
+import { applyServerFieldErrors, getErrorMessage } from '@/utils/formErrors';
+import { readFileAsDataUrl } from '@/utils/image';
+import { AvatarCropDialog } from './AvatarCropDialog';
+
+const MAX_AVATAR_SIZE = 5 * 1024 * 1024; // 5 MB
+
+const profileSchema = yup.object({
+  name: yup
+    .string()
+    .required('El nombre es requerido')
+    .min(2, 'El nombre debe tener al menos 2 caracteres'),
+  email: yup
+    .string()
+    .required('El correo electrónico es requerido')
+    .email('Debe ser un correo electrónico válido'),
+});
+
+export const AccountSettings: React.FC = () => {
+  const { user, updateProfile, updateAvatar, updateUser } = useAuth();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [cropSource, setCropSource] = useState<string | null>(null);
+  const [isRemovingAvatar, setIsRemovingAvatar] = useState(false);
+  const [isUpdatingEmail, setIsUpdatingEmail] = useState(false);
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    setError,
+    formState: { errors, isDirty, isSubmitting },
+  } = useForm<UpdateProfileData>({
+    resolver: yupResolver(profileSchema),
+    defaultValues: { name: user?.name ?? '', email: user?.email ?? '' },
+  });
+
+  // Keep the form in step with the saved user (e.g. after a save or a sync)
+  useEffect(() => {
+    reset({ name: user?.name ?? '', email: user?.email ?? '' });
+  }, [user?.name, user?.email, reset]);
+
+  const onSubmit = async (data: UpdateProfileData) => {
+    try {
+      await updateProfile(data);
+    } catch (error) {
+      applyServerFieldErrors(error, setError);
+    }
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) {
+      return;
+    }
+
+    if (!file.type.startsWith('image/')) {
+      toast.error('Selecciona un archivo de imagen');
+      return;
+    }
+    if (file.size > MAX_AVATAR_SIZE) {
+      toast.error('La imagen no puede superar 5 MB');
+      return;
+    }
+
+    try {
+      setCropSource(await readFileAsDataUrl(file));
+    } catch {
+      toast.error('No se pudo leer la imagen');
+    }
+  };
+
+  const handleCropConfirm = async (image: Blob) => {
+    await updateAvatar(image);
+    setCropSource(null);
+  };
+
+  const handleRemoveAvatar = async () => {
+    setIsRemovingAvatar(true);
+    try {
+      await updateAvatar(null);
+    } catch {
+      // Already reported by the context
+    } finally {
+      setIsRemovingAvatar(false);
+    }
+  };
+
+  const handleResendEmail = async () => {
+    setIsUpdatingEmail(true);
+    try {
+      await authService.resendEmailChange();
+      toast.success(`Reenviamos el enlace a ${user?.pendingEmail}`);
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'No se pudo reenviar el enlace'));
+    } finally {
+      setIsUpdatingEmail(false);
+    }
+  };
+
+  const handleCancelEmail = async () => {
+    setIsUpdatingEmail(true);
+    try {
+      updateUser(await authService.cancelEmailChange());
+      toast.success('Cambio de correo cancelado');
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'No se pudo cancelar el cambio de correo'));
+    } finally {
+      setIsUpdatingEmail(false);
+    }
+  };
+
+  return (
+    <Card className="card-shadow">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <UserCircle className="h-5 w-5 text-nequi-pink" />
+          <span>Mi cuenta</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex items-center space-x-4">
+          {user?.avatar ? (
+            <img src={user.avatar} alt={user.name} className="w-20 h-20 rounded-full object-cover" />
+          ) : (
+            <div className="w-20 h-20 bg-gradient-to-r from-nequi-pink to-nequi-purple-dark rounded-full flex items-center justify-center">
+              <span className="text-2xl font-bold text-white">{user?.name?.charAt(0).toUpperCase() || 'U'}</span>
+            </div>
+          )}
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+              <Camera className="h-4 w-4 mr-2" />
+              Cambiar foto
+            </Button>
+            {user?.avatar && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={handleRemoveAvatar}
+                disabled={isRemovingAvatar}
+                className="text-red-600 hover:text-red-700 dark:text-red-400"
+              >
+                <Trash2 className="h-4 w-4 mr-2" />
+                {isRemovingAvatar ? 'Quitando...' : 'Quitar'}
+              </Button>
+            )}
+            <input ref={fileInputRef} type="file" accept="image/*" onChange={handleFileChange} className="hidden" />
+          </div>
+        </div>
+
+        {user?.pendingEmail && (
+          <div className="bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg p-4 flex items-start space-x-3">
+            <MailWarning className="h-5 w-5 text-yellow-600 dark:text-yellow-400 flex-shrink-0 mt-0.5" />
+            <div className="flex-1">
+              <p className="text-sm text-yellow-800 dark:text-yellow-300">
+                Confirma tu nuevo correo <strong>{user.pendingEmail}</strong> con el enlace que te enviamos.
+                Hasta entonces seguirás usando {user.email}.
+              </p>
+              <div className="flex space-x-2 mt-2">
+                <Button variant="outline" size="sm" onClick={handleResendEmail} disabled={isUpdatingEmail}>
+                  Reenviar enlace
+                </Button>
+                <Button variant="ghost" size="sm" onClick={handleCancelEmail} disabled={isUpdatingEmail}>
+                  Cancelar cambio
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <label htmlFor="account-name" className="text-sm font-medium text-gray-900 dark:text-white">
+                Nombre
+              </label>
+              <Input id="account-name" {...register('name')} autoComplete="name" />
+              {errors.name && <p className="text-sm text-red-600 dark:text-red-400">{errors.name.message}</p>}
+            </div>
+            <div className="space-y-1">
+              <label htmlFor="account-email" className="text-sm font-medium text-gray-900 dark:text-white">
+                Correo electrónico
+              </label>
+              <Input id="account-email" type="email" {...register('email')} autoComplete="email" />
+              {errors.email && <p className="text-sm text-red-600 dark:text-red-400">{errors.email.message}</p>}
+            </div>
+          </div>
+
+          <div className="flex justify-end">
+            <Button
+              type="submit"
+              disabled={!isDirty || isSubmitting}
+              className="bg-nequi-pink hover:bg-nequi-pink-dark text-white"
+            >
+              {isSubmitting ? 'Guardando...' : 'Guardar cambios'}
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+
+      {cropSource && (
+        <AvatarCropDialog
+          imageSrc={cropSource}
+          onCancel={() => setCropSource(null)}
+          onConfirm={handleCropConfirm}
+        />
+      )}
+    </Card>
+  );
+};
@@ -0,0 +1,157 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Laptop, MapPin, MonitorSmartphone, Smartphone } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { authService } from '@/services';
+import type { ActiveSession } from '@/types';
+import { getErrorMessage } from '@/utils/formErrors';
+
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, 'Edge'],
+  [/OPR\//, 'Opera'],
+  [/Chrome\//, 'Chrome'],
+  [/Firefox\//, 'Firefox'],
+  [/Safari\//, 'Safari'],
+];
+
+const PLATFORMS: [RegExp, string][] = [
+  [/Android/, 'Android'],
+  [/iPhone|iPad/, 'iOS'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X/, 'macOS'],
+  [/Linux/, 'Linux'],
+];
+
+function describeUserAgent(userAgent: string): string {
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1] ?? 'Navegador desconocido';
+  const platform = PLATFORMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  return platform ? `${browser} en ${platform}` : browser;
+}
+
+const isMobile = (userAgent: string): boolean => /Android|iPhone|iPad|Mobile/.test(userAgent);
+
+const formatDate = (value: string): string =>
+  new Date(value).toLocaleString('es-CO', { dateStyle: 'medium', timeStyle: 'short' });
+
+export const ActiveSessions: React.FC = () => {
+  const [sessions, setSessions] = useState<ActiveSession[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+
+  const loadSessions = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setSessions(await authService.getSessions());
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'No se pudieron cargar las sesiones'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  const handleRevoke = async (session: ActiveSession) => {
+    setRevokingId(session.id);
+    try {
+      await authService.revokeSession(session.id);
+      setSessions((current) => current.filter((item) => item.id !== session.id));
+      toast.success('Sesión cerrada');
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'No se pudo cerrar la sesión'));
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const handleRevokeOthers = async () => {
+    if (!window.confirm('¿Cerrar la sesión en todos los demás dispositivos?')) {
+      return;
+    }
+
+    setRevokingId('others');
+    try {
+      await authService.revokeOtherSessions();
+      setSessions((current) => current.filter((session) => session.isCurrent));
+      toast.success('Se cerraron las demás sesiones');
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'No se pudieron cerrar las sesiones'));
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const hasOtherSessions = sessions.some((session) => !session.isCurrent);
+
+  return (
+    <Card className="card-shadow">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center space-x-2">
+            <MonitorSmartphone className="h-5 w-5 text-nequi-pink" />
+            <span>Sesiones activas</span>
+          </span>
+          {hasOtherSessions && (
+            <Button variant="outline" size="sm" onClick={handleRevokeOthers} disabled={revokingId !== null}>
+              Cerrar las demás
+            </Button>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading && sessions.length === 0 ? (
+          <div className="flex justify-center py-6">
+            <div className="w-6 h-6 border-2 border-nequi-pink border-t-transparent rounded-full animate-spin"></div>
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-100 dark:divide-gray-800">
+            {sessions.map((session) => {
+              const DeviceIcon = isMobile(session.userAgent) ? Smartphone : Laptop;
+
+              return (
+                <li key={session.id} className="flex items-center justify-between py-4">
+                  <div className="flex items-start space-x-3">
+                    <DeviceIcon className="h-5 w-5 text-gray-500 dark:text-gray-400 mt-0.5" />
+                    <div>
+                      <p className="font-medium text-gray-900 dark:text-white">
+                        {describeUserAgent(session.userAgent)}
+                        {session.isCurrent && (
+                          <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400">
+                            Este dispositivo
+                          </span>
+                        )}
+                      </p>
+                      <p className="text-sm text-gray-500 dark:text-gray-400">
+                        Última actividad: {formatDate(session.lastActivity)}
+                      </p>
+                      {(session.location || session.ipAddress) && (
+                        <p className="text-sm text-gray-500 dark:text-gray-400 flex items-center space-x-1">
+                          <MapPin className="h-3 w-3" />
+                          <span>{[session.location, session.ipAddress].filter(Boolean).join(' · ')}</span>
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                  {!session.isCurrent && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleRevoke(session)}
+                      disabled={revokingId !== null}
+                      className="text-red-600 hover:text-red-700 dark:text-red-400"
+                    >
+                      {revokingId === session.id ? 'Cerrando...' : 'Cerrar sesión'}
+                    </Button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
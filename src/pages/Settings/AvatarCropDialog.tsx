@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import Cropper from 'react-easy-crop';
+import type { Area, Point } from 'react-easy-crop';
+import { X } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { cropImage } from '@/utils/image';
+
+interface AvatarCropDialogProps {
+  imageSrc: string;
+  onCancel: () => void;
+  onConfirm: (image: Blob) => Promise<void>;
+}
+
+export const AvatarCropDialog: React.FC<AvatarCropDialogProps> = ({ imageSrc, onCancel, onConfirm }) => {
+  const [crop, setCrop] = useState<Point>({ x: 0, y: 0 });
+  const [zoom, setZoom] = useState(1);
+  const [area, setArea] = useState<Area | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleConfirm = async () => {
+    if (!area) {
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await onConfirm(await cropImage(imageSrc, area));
+    } catch {
+      // The caller already reported the failure; keep the dialog open to retry
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-2xl max-w-md w-full p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Ajusta tu foto</h2>
+          <button
+            onClick={onCancel}
+            className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+            aria-label="Cerrar"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="relative h-72 bg-gray-900 rounded-lg overflow-hidden">
+          <Cropper
+            image={imageSrc}
+            crop={crop}
+            zoom={zoom}
+            aspect={1}
+            cropShape="round"
+            showGrid={false}
+            onCropChange={setCrop}
+            onZoomChange={setZoom}
+            onCropComplete={(_, pixels) => setArea(pixels)}
+          />
+        </div>
+
+        <label className="block mt-4 text-sm text-gray-600 dark:text-gray-400">
+          Zoom
+          <input
+            type="range"
+            min={1}
+            max={3}
+            step={0.05}
+            value={zoom}
+            onChange={(event) => setZoom(Number(event.target.value))}
+            className="w-full accent-nequi-pink"
+          />
+        </label>
+
+        <div className="flex justify-end space-x-3 mt-6">
+          <Button variant="outline" onClick={onCancel} disabled={isSaving}>
+            Cancelar
+          </Button>
+          <Button
+            onClick={handleConfirm}
+            disabled={!area || isSaving}
+            className="bg-nequi-pink hover:bg-nequi-pink-dark text-white"
+          >
+            {isSaving ? 'Guardando...' : 'Guardar foto'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
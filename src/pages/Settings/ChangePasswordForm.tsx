@@ -0,0 +1,95 @@
+import React, { useMemo } from 'react';
+import { useForm } from 'react-hook-form';
+import { yupResolver } from '@hookform/resolvers/yup';
+import { Lock } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { PasswordStrengthMeter } from '@/components/ui/PasswordStrengthMeter';
+import { useAuth } from '@/contexts';
+import { changePasswordSchema, resolvePasswordPolicy } from '@/services';
+import type { ChangePasswordData } from '@/types';
+import { applyServerFieldErrors } from '@/utils/formErrors';
+
+const FIELDS: { key: keyof ChangePasswordData; label: string; autoComplete: string }[] = [
+  { key: 'currentPassword', label: 'Contraseña actual', autoComplete: 'current-password' },
+  { key: 'newPassword', label: 'Nueva contraseña', autoComplete: 'new-password' },
+  { key: 'confirmPassword', label: 'Confirmar nueva contraseña', autoComplete: 'new-password' },
+];
+
+export const ChangePasswordForm: React.FC = () => {
+  const { user, company, changePassword } = useAuth();
+  const policy = resolvePasswordPolicy(company);
+  const context = useMemo(() => ({ name: user?.name, email: user?.email }), [user?.name, user?.email]);
+  const schema = useMemo(() => changePasswordSchema(policy, context), [policy, context]);
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    watch,
+    setError,
+    formState: { errors, isSubmitting },
+  } = useForm<ChangePasswordData>({
+    resolver: yupResolver(schema),
+    defaultValues: { currentPassword: '', newPassword: '', confirmPassword: '' },
+  });
+
+  const onSubmit = async (data: ChangePasswordData) => {
+    try {
+      await changePassword(data);
+      reset();
+    } catch (error) {
+      applyServerFieldErrors(error, setError, { password: 'newPassword' });
+    }
+  };
+
+  return (
+    <Card className="card-shadow">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Lock className="h-5 w-5 text-nequi-pink" />
+          <span>Cambiar contraseña</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          <p className="text-gray-600 dark:text-gray-400">
+            Al cambiar tu contraseña cerraremos tu sesión en los demás dispositivos.
+          </p>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {FIELDS.map((field) => (
+              <div key={field.key} className="space-y-1">
+                <label htmlFor={`change-${field.key}`} className="text-sm font-medium text-gray-900 dark:text-white">
+                  {field.label}
+                </label>
+                <Input
+                  id={`change-${field.key}`}
+                  type="password"
+                  autoComplete={field.autoComplete}
+                  {...register(field.key)}
+                />
+                {errors[field.key] && (
+                  <p className="text-sm text-red-600 dark:text-red-400">{errors[field.key]?.message}</p>
+                )}
+              </div>
+            ))}
+          </div>
+
+          <PasswordStrengthMeter password={watch('newPassword') ?? ''} policy={policy} context={context} />
+
+          <div className="flex justify-end">
+            <Button
+              type="submit"
+              disabled={isSubmitting}
+              className="bg-nequi-pink hover:bg-nequi-pink-dark text-white"
+            >
+              {isSubmitting ? 'Guardando...' : 'Cambiar contraseña'}
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+};
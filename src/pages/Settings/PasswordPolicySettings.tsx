@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { KeyRound } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { useAuth } from '@/contexts';
+import {
+  MAX_PASSWORD_LENGTH,
+  MIN_PASSWORD_LENGTH,
+  resolvePasswordPolicy,
+  savePasswordPolicy,
+  validatePasswordPolicy
+} from '@/services';
+import type { PasswordPolicy } from '@/types';
+import { getErrorMessage } from '@/utils/formErrors';
+
+type PolicyToggle = Exclude<keyof PasswordPolicy, 'minLength'>;
+
+const TOGGLES: { key: PolicyToggle; label: string }[] = [
+  { key: 'requireUppercase', label: 'Exigir una letra mayúscula' },
+  { key: 'requireLowercase', label: 'Exigir una letra minúscula' },
+  { key: 'requireNumber', label: 'Exigir un número' },
+  { key: 'requireSymbol', label: 'Exigir un símbolo' },
+  { key: 'rejectCommon', label: 'Rechazar contraseñas comunes o filtradas' },
+  { key: 'rejectPersonalInfo', label: 'Rechazar contraseñas con el nombre o correo del usuario' },
+];
+
+export const PasswordPolicySettings: React.FC = () => {
+  const { company, updateCompany } = useAuth();
+  const [policy, setPolicy] = useState<PasswordPolicy>(resolvePasswordPolicy(company));
+  const [isDirty, setIsDirty] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const update = <K extends keyof PasswordPolicy>(key: K, value: PasswordPolicy[K]) => {
+    setPolicy((current) => ({ ...current, [key]: value }));
+    setIsDirty(true);
+  };
+
+  const handleSave = async () => {
+    const error = validatePasswordPolicy(policy);
+    if (error) {
+      toast.error(error);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const response = await savePasswordPolicy(policy);
+      if (company) {
+        updateCompany(response.data ?? { ...company, passwordPolicy: policy });
+      }
+      setIsDirty(false);
+      toast.success('Política de contraseñas actualizada');
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Error al guardar la política de contraseñas'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card className="card-shadow">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <KeyRound className="h-5 w-5 text-nequi-pink" />
+          <span>Política de contraseñas</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-gray-600 dark:text-gray-400">
+          Aplica a las contraseñas nuevas de los usuarios de tu empresa, al restablecerlas o cambiarlas.
+          Las contraseñas actuales siguen funcionando.
+        </p>
+
+        <div className="flex items-center space-x-4">
+          <label htmlFor="password-min-length" className="font-medium text-gray-900 dark:text-white">
+            Longitud mínima
+          </label>
+          <Input
+            id="password-min-length"
+            type="number"
+            min={MIN_PASSWORD_LENGTH}
+            max={MAX_PASSWORD_LENGTH}
+            value={policy.minLength}
+            onChange={(event) => update('minLength', Number.parseInt(event.target.value, 10) || 0)}
+            className="w-28"
+          />
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          {TOGGLES.map((toggle) => (
+            <label key={toggle.key} className="flex items-center space-x-2 text-gray-900 dark:text-white">
+              <input
+                type="checkbox"
+                checked={policy[toggle.key]}
+                onChange={(event) => update(toggle.key, event.target.checked)}
+                className="w-4 h-4 rounded text-nequi-pink focus:ring-nequi-pink"
+              />
+              <span>{toggle.label}</span>
+            </label>
+          ))}
+        </div>
+
+        <div className="flex justify-end">
+          <Button
+            onClick={handleSave}
+            disabled={!isDirty || isSaving}
+            className="bg-nequi-pink hover:bg-nequi-pink-dark text-white"
+          >
+            {isSaving ? 'Guardando...' : 'Guardar cambios'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import { KeyRound } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { useAuth } from '@/contexts';
+import { authService } from '@/services';
+import { getErrorMessage } from '@/utils/formErrors';
+
+const PIN_PATTERN = /^\d{4,6}$/;
+
+export const PinSettings: React.FC = () => {
+  const { user, updateUser } = useAuth();
+  const [pin, setPin] = useState('');
+  const [confirmPin, setConfirmPin] = useState('');
+  const [password, setPassword] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    if (!PIN_PATTERN.test(pin)) {
+      toast.error('El PIN debe tener entre 4 y 6 dígitos');
+      return;
+    }
+    if (pin !== confirmPin) {
+      toast.error('Los PIN no coinciden');
+      return;
+    }
+    if (!password) {
+      toast.error('Ingresa tu contraseña para confirmar');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await authService.setPin({ pin, password });
+      if (user) {
+        updateUser({ ...user, pinEnabled: true });
+      }
+      setPin('');
+      setConfirmPin('');
+      setPassword('');
+      toast.success('PIN actualizado');
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'No se pudo guardar el PIN'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const digitsOnly = (value: string) => value.replace(/\D/g, '').slice(0, 6);
+
+  return (
+    <Card className="card-shadow">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <KeyRound className="h-5 w-5 text-nequi-pink" />
+          <span>PIN de caja</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSave} className="space-y-4">
+          <p className="text-gray-600 dark:text-gray-400">
+            {user?.pinEnabled
+              ? 'Ya tienes un PIN para desbloquear la terminal. Puedes cambiarlo aquí.'
+              : 'Configura un PIN para desbloquear la terminal compartida sin tu contraseña.'}
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <Input
+              type="password"
+              inputMode="numeric"
+              value={pin}
+              onChange={(event) => setPin(digitsOnly(event.target.value))}
+              autoComplete="off"
+              placeholder="Nuevo PIN"
+              aria-label="Nuevo PIN"
+            />
+            <Input
+              type="password"
+              inputMode="numeric"
+              value={confirmPin}
+              onChange={(event) => setConfirmPin(digitsOnly(event.target.value))}
+              autoComplete="off"
+              placeholder="Confirmar PIN"
+              aria-label="Confirmar PIN"
+            />
+            <Input
+              type="password"
+              value={password}
+              onChange={(event) => setPassword(event.target.value)}
+              autoComplete="current-password"
+              placeholder="Contraseña actual"
+              aria-label="Contraseña actual"
+            />
+          </div>
+          <div className="flex justify-end">
+            <Button
+              type="submit"
+              disabled={isSaving}
+              className="bg-nequi-pink hover:bg-nequi-pink-dark text-white"
+            >
+              {isSaving ? 'Guardando...' : 'Guardar PIN'}
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,55 @@
+import React from 'react';
+import { CheckCircle, Sparkles, XCircle } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import { usePlan } from '@/hooks';
+import { FEATURE_LABELS, PLAN_LABELS } from '@/services';
+import { FeatureFlag } from '@/types';
+
+const formatLimit = (value: number | null): string =>
+  value === null ? 'Ilimitado' : value.toLocaleString('es-CO');
+
+export const PlanSummary: React.FC = () => {
+  const { plan, features, hasFeature } = usePlan();
+
+  return (
+    <Card className="card-shadow">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Sparkles className="h-5 w-5 text-nequi-pink" />
+          <span>Tu Plan{plan && `: ${PLAN_LABELS[plan]}`}</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-4">
+            <p className="text-sm text-gray-500 dark:text-gray-400">Usuarios</p>
+            <p className="text-2xl font-bold text-gray-900 dark:text-white">{formatLimit(features.maxUsers)}</p>
+          </div>
+          <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-4">
+            <p className="text-sm text-gray-500 dark:text-gray-400">Productos</p>
+            <p className="text-2xl font-bold text-gray-900 dark:text-white">{formatLimit(features.maxProducts)}</p>
+          </div>
+          <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-4">
+            <p className="text-sm text-gray-500 dark:text-gray-400">Tipos de reporte</p>
+            <p className="text-2xl font-bold text-gray-900 dark:text-white">{features.reportTypes.length}</p>
+          </div>
+        </div>
+
+        <ul className="grid grid-cols-1 md:grid-cols-2 gap-2">
+          {Object.values(FeatureFlag).map((feature) => (
+            <li key={feature} className="flex items-center space-x-2 text-sm">
+              {hasFeature(feature) ? (
+                <CheckCircle className="h-4 w-4 text-green-500" />
+              ) : (
+                <XCircle className="h-4 w-4 text-gray-400" />
+              )}
+              <span className={hasFeature(feature) ? 'text-gray-900 dark:text-white' : 'text-gray-400'}>
+                {FEATURE_LABELS[feature]}
+              </span>
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+};
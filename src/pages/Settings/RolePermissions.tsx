@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { ShieldCheck } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { useAuth } from '@/contexts';
+import {
+  PERMISSION_LABELS,
+  ROLE_LABELS,
+  getRolePermissions,
+  savePermissionOverrides,
+  toRoleOverride
+} from '@/services';
+import { Permission, UserRole } from '@/types';
+import type { PermissionOverrides } from '@/types';
+import { getErrorMessage } from '@/utils/formErrors';
+
+// Admins always hold every permission, so only the other roles are editable
+const editableRoles: UserRole[] = [UserRole.MANAGER, UserRole.CASHIER, UserRole.VIEWER];
+
+type RoleMatrix = Record<UserRole, Set<Permission>>;
+
+function buildMatrix(overrides?: PermissionOverrides): RoleMatrix {
+  return Object.values(UserRole).reduce((matrix, role) => {
+    matrix[role] = getRolePermissions(role, overrides);
+    return matrix;
+  }, {} as RoleMatrix);
+}
+
+export const RolePermissions: React.FC = () => {
+  const { company, updateCompany } = useAuth();
+  const [matrix, setMatrix] = useState<RoleMatrix>(() => buildMatrix(company?.permissionOverrides));
+  const [isDirty, setIsDirty] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const togglePermission = (role: UserRole, permission: Permission) => {
+    setMatrix((current) => {
+      const next = new Set(current[role]);
+      if (next.has(permission)) {
+        next.delete(permission);
+      } else {
+        next.add(permission);
+      }
+      return { ...current, [role]: next };
+    });
+    setIsDirty(true);
+  };
+
+  const handleReset = () => {
+    setMatrix(buildMatrix());
+    setIsDirty(true);
+  };
+
+  const handleSave = async () => {
+    const overrides = editableRoles.reduce<PermissionOverrides>((result, role) => {
+      result[role] = toRoleOverride(role, matrix[role]);
+      return result;
+    }, {});
+
+    setIsSaving(true);
+    try {
+      const response = await savePermissionOverrides(overrides);
+      if (company) {
+        updateCompany(response.data ?? { ...company, permissionOverrides: overrides });
+      }
+      setIsDirty(false);
+      toast.success('Permisos actualizados');
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Error al guardar los permisos'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card className="card-shadow">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <ShieldCheck className="h-5 w-5 text-nequi-pink" />
+          <span>Roles y Permisos</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-gray-200 dark:border-gray-700">
+                <th className="text-left py-3 px-4 font-medium text-gray-600 dark:text-gray-400">
+                  Permiso
+                </th>
+                {editableRoles.map((role) => (
+                  <th key={role} className="py-3 px-4 font-medium text-gray-600 dark:text-gray-400 text-center">
+                    {ROLE_LABELS[role]}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {Object.values(Permission).map((permission) => (
+                <tr key={permission} className="border-b border-gray-100 dark:border-gray-800">
+                  <td className="py-2 px-4 text-gray-900 dark:text-white">
+                    {PERMISSION_LABELS[permission]}
+                  </td>
+                  {editableRoles.map((role) => (
+                    <td key={role} className="py-2 px-4 text-center">
+                      <input
+                        type="checkbox"
+                        checked={matrix[role].has(permission)}
+                        onChange={() => togglePermission(role, permission)}
+                        className="w-4 h-4 rounded text-nequi-pink focus:ring-nequi-pink"
+                        aria-label={`${ROLE_LABELS[role]}: ${PERMISSION_LABELS[permission]}`}
+                      />
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex justify-end space-x-3 mt-6">
+          <Button variant="outline" onClick={handleReset} disabled={isSaving}>
+            Restablecer valores por defecto
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={!isDirty || isSaving}
+            className="bg-nequi-pink hover:bg-nequi-pink-dark text-white"
+          >
+            {isSaving ? 'Guardando...' : 'Guardar cambios'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
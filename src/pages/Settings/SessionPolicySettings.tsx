@@ -0,0 +1,184 @@
+import React, { useState } from 'react';
+import { Timer } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { useAuth } from '@/contexts';
+import {
+  DEFAULT_SESSION_POLICY,
+  ROLE_LABELS,
+  saveSessionPolicies,
+  validateSessionPolicy
+} from '@/services';
+import { UserRole } from '@/types';
+import type { SessionPolicies, SessionPolicy } from '@/types';
+import { getErrorMessage } from '@/utils/formErrors';
+
+type PolicyField = keyof SessionPolicy;
+
+const FIELDS: { key: PolicyField; label: string; placeholder?: string }[] = [
+  { key: 'idleTimeoutMinutes', label: 'Inactividad (min)' },
+  { key: 'absoluteLifetimeMinutes', label: 'Duración máxima (min)', placeholder: 'Sin límite' },
+  { key: 'warningLeadMinutes', label: 'Aviso previo (min)' },
+];
+
+export const SessionPolicySettings: React.FC = () => {
+  const { company, updateCompany } = useAuth();
+  const [defaultPolicy, setDefaultPolicy] = useState<SessionPolicy>(
+    company?.sessionPolicies?.default ?? DEFAULT_SESSION_POLICY
+  );
+  const [rolePolicies, setRolePolicies] = useState<Partial<Record<UserRole, SessionPolicy>>>(
+    company?.sessionPolicies?.roles ?? {}
+  );
+  const [isDirty, setIsDirty] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const parseField = (key: PolicyField, value: string): number | null => {
+    if (key === 'absoluteLifetimeMinutes' && value.trim() === '') {
+      return null;
+    }
+    return Number.parseInt(value, 10) || 0;
+  };
+
+  const updateDefault = (key: PolicyField, value: string) => {
+    setDefaultPolicy((current) => ({ ...current, [key]: parseField(key, value) }));
+    setIsDirty(true);
+  };
+
+  const updateRole = (role: UserRole, key: PolicyField, value: string) => {
+    setRolePolicies((current) => ({
+      ...current,
+      [role]: { ...(current[role] ?? defaultPolicy), [key]: parseField(key, value) },
+    }));
+    setIsDirty(true);
+  };
+
+  const toggleRole = (role: UserRole) => {
+    setRolePolicies((current) => {
+      const next = { ...current };
+      if (next[role]) {
+        delete next[role];
+      } else {
+        next[role] = { ...defaultPolicy };
+      }
+      return next;
+    });
+    setIsDirty(true);
+  };
+
+  const handleSave = async () => {
+    const entries: [string, SessionPolicy][] = [
+      ['Empresa', defaultPolicy],
+      ...Object.entries(rolePolicies).map(([role, policy]) => [ROLE_LABELS[role as UserRole], policy] as [string, SessionPolicy]),
+    ];
+
+    for (const [label, policy] of entries) {
+      const error = validateSessionPolicy(policy);
+      if (error) {
+        toast.error(`${label}: ${error}`);
+        return;
+      }
+    }
+
+    const policies: SessionPolicies = { default: defaultPolicy, roles: rolePolicies };
+
+    setIsSaving(true);
+    try {
+      const response = await saveSessionPolicies(policies);
+      if (company) {
+        updateCompany(response.data ?? { ...company, sessionPolicies: policies });
+      }
+      setIsDirty(false);
+      toast.success('Política de sesión actualizada');
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Error al guardar la política de sesión'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderInputs = (policy: SessionPolicy, onChange: (key: PolicyField, value: string) => void, disabled = false) =>
+    FIELDS.map((field) => (
+      <td key={field.key} className="py-2 px-4">
+        <Input
+          type="number"
+          min={1}
+          value={policy[field.key] ?? ''}
+          onChange={(event) => onChange(field.key, event.target.value)}
+          placeholder={field.placeholder}
+          disabled={disabled}
+          aria-label={field.label}
+          className="w-28"
+        />
+      </td>
+    ));
+
+  return (
+    <Card className="card-shadow">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Timer className="h-5 w-5 text-nequi-pink" />
+          <span>Política de sesión</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <p className="text-gray-600 dark:text-gray-400 mb-4">
+          Define cuánto tiempo puede estar inactiva una sesión, su duración máxima y con cuánta anticipación se avisa.
+          Los roles sin política propia usan la de la empresa.
+        </p>
+
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-gray-200 dark:border-gray-700">
+                <th className="text-left py-3 px-4 font-medium text-gray-600 dark:text-gray-400">Aplica a</th>
+                {FIELDS.map((field) => (
+                  <th key={field.key} className="text-left py-3 px-4 font-medium text-gray-600 dark:text-gray-400">
+                    {field.label}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              <tr className="border-b border-gray-100 dark:border-gray-800">
+                <td className="py-2 px-4 font-medium text-gray-900 dark:text-white">Empresa</td>
+                {renderInputs(defaultPolicy, updateDefault)}
+              </tr>
+              {Object.values(UserRole).map((role) => {
+                const policy = rolePolicies[role];
+
+                return (
+                  <tr key={role} className="border-b border-gray-100 dark:border-gray-800">
+                    <td className="py-2 px-4">
+                      <label className="flex items-center space-x-2 text-gray-900 dark:text-white">
+                        <input
+                          type="checkbox"
+                          checked={Boolean(policy)}
+                          onChange={() => toggleRole(role)}
+                          className="w-4 h-4 rounded text-nequi-pink focus:ring-nequi-pink"
+                        />
+                        <span>{ROLE_LABELS[role]}</span>
+                      </label>
+                    </td>
+                    {renderInputs(policy ?? defaultPolicy, (key, value) => updateRole(role, key, value), !policy)}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex justify-end mt-6">
+          <Button
+            onClick={handleSave}
+            disabled={!isDirty || isSaving}
+            className="bg-nequi-pink hover:bg-nequi-pink-dark text-white"
+          >
+            {isSaving ? 'Guardando...' : 'Guardar cambios'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -1,6 +1,16 @@
 import React from 'react';
 import { motion } from 'framer-motion';
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import { Can, FeatureGate } from '@/guards';
+import { FeatureFlag, Permission } from '@/types';
+import { AccountSettings } from './AccountSettings';
+import { ActiveSessions } from './ActiveSessions';
+import { ChangePasswordForm } from './ChangePasswordForm';
+import { PasswordPolicySettings } from './PasswordPolicySettings';
+import { PinSettings } from './PinSettings';
+import { PlanSummary } from './PlanSummary';
+import { RolePermissions } from './RolePermissions';
+import { SessionPolicySettings } from './SessionPolicySettings';
+import { TwoFactorSettings } from './TwoFactorSettings';
 
 export const Settings: React.FC = () => {
   return (
@@ -19,16 +29,31 @@ export const Settings: React.FC = () => {
         </p>
       </div>
 
-      <Card className="card-shadow">
-        <CardHeader>
-          <CardTitle>Configuraciones Generales</CardTitle>
-        </CardHeader>
-        <CardContent>
-          <p className="text-gray-600 dark:text-gray-400">
-            Aquí podrás configurar los aspectos generales de la aplicación.
-          </p>
-        </CardContent>
-      </Card>
+      <AccountSettings />
+
+      <ChangePasswordForm />
+
+      <PlanSummary />
+
+      <TwoFactorSettings />
+
+      <PinSettings />
+
+      <ActiveSessions />
+
+      <Can permission={Permission.SETTINGS_COMPANY_EDIT}>
+        <SessionPolicySettings />
+      </Can>
+
+      <Can permission={Permission.SETTINGS_COMPANY_EDIT}>
+        <PasswordPolicySettings />
+      </Can>
+
+      <Can permission={Permission.SETTINGS_PERMISSIONS_EDIT}>
+        <FeatureGate feature={FeatureFlag.CUSTOM_PERMISSIONS}>
+          <RolePermissions />
+        </FeatureGate>
+      </Can>
     </motion.div>
   );
 };
\ No newline at end of file
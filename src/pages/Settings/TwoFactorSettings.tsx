@@ -0,0 +1,257 @@
+import React, { useState } from 'react';
+import { QRCodeSVG } from 'qrcode.react';
+import { Copy, ShieldCheck, ShieldOff } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { useAuth } from '@/contexts';
+import { authService } from '@/services';
+import type { TwoFactorSetup } from '@/types';
+import { getErrorMessage } from '@/utils/formErrors';
+
+type Step = 'idle' | 'enrolling' | 'backup_codes' | 'disabling';
+
+export const TwoFactorSettings: React.FC = () => {
+  const { user, updateUser } = useAuth();
+  const [step, setStep] = useState<Step>('idle');
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [backupCodes, setBackupCodes] = useState<string[]>([]);
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+
+  const isEnabled = user?.twoFactorEnabled === true;
+
+  const reset = () => {
+    setStep('idle');
+    setSetup(null);
+    setCode('');
+    setPassword('');
+  };
+
+  const handleStartEnroll = async () => {
+    setIsBusy(true);
+    try {
+      const response = await authService.setupTwoFactor();
+      setSetup(response.data ?? null);
+      setStep('enrolling');
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'No se pudo iniciar la configuración'));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleEnable = async () => {
+    if (!/^\d{6}$/.test(code)) {
+      toast.error('Ingresa el código de 6 dígitos');
+      return;
+    }
+
+    setIsBusy(true);
+    try {
+      const response = await authService.enableTwoFactor(code);
+      setBackupCodes(response.data?.backupCodes ?? []);
+      setStep('backup_codes');
+      setSetup(null);
+      setCode('');
+      if (user) {
+        updateUser({ ...user, twoFactorEnabled: true });
+      }
+      toast.success('Verificación en dos pasos activada');
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Código de verificación inválido'));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleDisable = async () => {
+    if (!password || !code) {
+      toast.error('Ingresa tu contraseña y un código de verificación');
+      return;
+    }
+
+    setIsBusy(true);
+    try {
+      await authService.disableTwoFactor({ password, code });
+      if (user) {
+        updateUser({ ...user, twoFactorEnabled: false });
+      }
+      reset();
+      toast.success('Verificación en dos pasos desactivada');
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'No se pudo desactivar la verificación'));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const copyBackupCodes = async () => {
+    try {
+      await navigator.clipboard.writeText(backupCodes.join('\n'));
+      toast.success('Códigos copiados');
+    } catch {
+      toast.error('No se pudieron copiar los códigos');
+    }
+  };
+
+  return (
+    <Card className="card-shadow">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <ShieldCheck className="h-5 w-5 text-nequi-pink" />
+          <span>Verificación en dos pasos</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex items-center justify-between">
+          <p className="text-gray-600 dark:text-gray-400">
+            {isEnabled
+              ? 'Tu cuenta pide un código de tu aplicación de autenticación al iniciar sesión.'
+              : 'Protege tu cuenta pidiendo un código de una aplicación de autenticación al iniciar sesión.'}
+          </p>
+          <span
+            className={`ml-4 px-3 py-1 rounded-full text-xs font-medium whitespace-nowrap ${
+              isEnabled
+                ? 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400'
+                : 'bg-gray-100 text-gray-600 dark:bg-gray-800 dark:text-gray-400'
+            }`}
+          >
+            {isEnabled ? 'Activada' : 'Desactivada'}
+          </span>
+        </div>
+
+        {step === 'idle' && (
+          <div className="flex justify-end">
+            {isEnabled ? (
+              <Button variant="outline" onClick={() => setStep('disabling')}>
+                <ShieldOff className="h-4 w-4 mr-2" />
+                Desactivar
+              </Button>
+            ) : (
+              <Button
+                onClick={handleStartEnroll}
+                disabled={isBusy}
+                className="bg-nequi-pink hover:bg-nequi-pink-dark text-white"
+              >
+                {isBusy ? 'Preparando...' : 'Activar'}
+              </Button>
+            )}
+          </div>
+        )}
+
+        {step === 'enrolling' && setup && (
+          <div className="space-y-4">
+            <div className="flex flex-col md:flex-row md:items-center gap-6">
+              <div className="bg-white p-4 rounded-lg self-center">
+                <QRCodeSVG value={setup.otpauthUri} size={168} />
+              </div>
+              <div className="space-y-2 text-sm text-gray-600 dark:text-gray-400">
+                <p>1. Escanea el código QR con Google Authenticator, Authy o una aplicación similar.</p>
+                <p>2. Si no puedes escanearlo, ingresa esta clave manualmente:</p>
+                <code className="block bg-gray-100 dark:bg-gray-800 text-gray-900 dark:text-white rounded px-3 py-2 font-mono break-all">
+                  {setup.secret}
+                </code>
+                <p>3. Escribe el código de 6 dígitos que muestra la aplicación.</p>
+              </div>
+            </div>
+            <Input
+              value={code}
+              onChange={(event) => setCode(event.target.value.replace(/\D/g, '').slice(0, 6))}
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              placeholder="000000"
+              aria-label="Código de verificación"
+              className="max-w-xs"
+            />
+            <div className="flex justify-end space-x-3">
+              <Button variant="outline" onClick={reset} disabled={isBusy}>
+                Cancelar
+              </Button>
+              <Button
+                onClick={handleEnable}
+                disabled={isBusy}
+                className="bg-nequi-pink hover:bg-nequi-pink-dark text-white"
+              >
+                {isBusy ? 'Verificando...' : 'Verificar y activar'}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {step === 'backup_codes' && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Guarda estos códigos de respaldo en un lugar seguro. Cada uno sirve una sola vez si pierdes
+              acceso a tu aplicación de autenticación. No se volverán a mostrar.
+            </p>
+            <ul className="grid grid-cols-2 md:grid-cols-5 gap-2">
+              {backupCodes.map((backupCode) => (
+                <li
+                  key={backupCode}
+                  className="bg-gray-100 dark:bg-gray-800 text-gray-900 dark:text-white rounded px-3 py-2 font-mono text-center"
+                >
+                  {backupCode}
+                </li>
+              ))}
+            </ul>
+            <div className="flex justify-end space-x-3">
+              <Button variant="outline" onClick={copyBackupCodes}>
+                <Copy className="h-4 w-4 mr-2" />
+                Copiar
+              </Button>
+              <Button
+                onClick={() => {
+                  setBackupCodes([]);
+                  reset();
+                }}
+                className="bg-nequi-pink hover:bg-nequi-pink-dark text-white"
+              >
+                Ya los guardé
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {step === 'disabling' && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Confirma tu contraseña y un código de la aplicación o de respaldo para desactivar la verificación.
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <Input
+                type="password"
+                value={password}
+                onChange={(event) => setPassword(event.target.value)}
+                autoComplete="current-password"
+                placeholder="Contraseña"
+                aria-label="Contraseña"
+              />
+              <Input
+                value={code}
+                onChange={(event) => setCode(event.target.value.trim())}
+                autoComplete="one-time-code"
+                placeholder="Código"
+                aria-label="Código de verificación"
+              />
+            </div>
+            <div className="flex justify-end space-x-3">
+              <Button variant="outline" onClick={reset} disabled={isBusy}>
+                Cancelar
+              </Button>
+              <Button
+                onClick={handleDisable}
+                disabled={isBusy}
+                className="bg-red-600 hover:bg-red-700 text-white"
+              >
+                {isBusy ? 'Desactivando...' : 'Desactivar'}
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
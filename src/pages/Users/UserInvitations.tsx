@@ -0,0 +1,215 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { MailPlus } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Select } from '@/components/ui/Select';
+import { ROLE_LABELS, invitationService } from '@/services';
+import { UserRole } from '@/types';
+import type { Invitation, InvitationStatus } from '@/types';
+import { getErrorMessage } from '@/utils/formErrors';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const STATUS_LABELS: Record<InvitationStatus, string> = {
+  pending: 'Pendiente',
+  accepted: 'Aceptada',
+  expired: 'Expirada',
+  revoked: 'Revocada',
+};
+
+const STATUS_STYLES: Record<InvitationStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400',
+  accepted: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400',
+  expired: 'bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300',
+  revoked: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400',
+};
+
+const formatDate = (value: string): string =>
+  new Date(value).toLocaleDateString('es-CO', { dateStyle: 'medium' });
+
+interface UserInvitationsProps {
+  /** False once active users plus pending invitations fill the plan's seats */
+  hasFreeSeat: boolean;
+  /** Called after an invitation is sent or revoked, so seat usage can refresh */
+  onSeatsChanged: () => void;
+}
+
+export const UserInvitations: React.FC<UserInvitationsProps> = ({ hasFreeSeat, onSeatsChanged }) => {
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<UserRole>(UserRole.CASHIER);
+  const [isSending, setIsSending] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const loadInvitations = useCallback(async () => {
+    try {
+      setInvitations(await invitationService.list());
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'No se pudieron cargar las invitaciones'));
+    }
+  }, []);
+
+  useEffect(() => {
+    loadInvitations();
+  }, [loadInvitations]);
+
+  const handleInvite = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    if (!hasFreeSeat) {
+      toast.error('No quedan cupos de usuario en tu plan');
+      return;
+    }
+    if (!EMAIL_PATTERN.test(email.trim())) {
+      toast.error('Ingresa un correo electrónico válido');
+      return;
+    }
+
+    setIsSending(true);
+    try {
+      const invitation = await invitationService.invite({ email: email.trim(), role });
+      setInvitations((current) => [invitation, ...current]);
+      setEmail('');
+      onSeatsChanged();
+      toast.success(`Invitación enviada a ${invitation.email}`);
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'No se pudo enviar la invitación'));
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleResend = async (invitation: Invitation) => {
+    setBusyId(invitation.id);
+    try {
+      await invitationService.resend(invitation.id);
+      toast.success(`Invitación reenviada a ${invitation.email}`);
+      await loadInvitations();
+      onSeatsChanged();
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'No se pudo reenviar la invitación'));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRevoke = async (invitation: Invitation) => {
+    if (!window.confirm(`¿Revocar la invitación de ${invitation.email}?`)) {
+      return;
+    }
+
+    setBusyId(invitation.id);
+    try {
+      await invitationService.revoke(invitation.id);
+      setInvitations((current) =>
+        current.map((item) => (item.id === invitation.id ? { ...item, status: 'revoked' } : item))
+      );
+      onSeatsChanged();
+      toast.success('Invitación revocada');
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'No se pudo revocar la invitación'));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <Card className="card-shadow">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <MailPlus className="h-5 w-5 text-nequi-pink" />
+          <span>Invitar usuarios</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-gray-600 dark:text-gray-400">
+          Envía una invitación por correo con el rol asignado. La persona elegirá su nombre y contraseña al aceptarla.
+        </p>
+
+        <form onSubmit={handleInvite} className="flex flex-col md:flex-row gap-3">
+          <Input
+            type="email"
+            value={email}
+            onChange={(event) => setEmail(event.target.value)}
+            placeholder="correo@ejemplo.com"
+            aria-label="Correo del invitado"
+            className="flex-1"
+          />
+          <Select
+            value={role}
+            onChange={(event) => setRole(event.target.value as UserRole)}
+            aria-label="Rol"
+          >
+            {Object.values(UserRole).map((option) => (
+              <option key={option} value={option}>
+                {ROLE_LABELS[option]}
+              </option>
+            ))}
+          </Select>
+          <Button
+            type="submit"
+            disabled={isSending || !hasFreeSeat}
+            className="bg-nequi-pink hover:bg-nequi-pink-dark text-white"
+          >
+            {isSending ? 'Enviando...' : 'Invitar'}
+          </Button>
+        </form>
+
+        {invitations.length > 0 && (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-gray-200 dark:border-gray-700">
+                  <th className="text-left py-3 px-4 font-medium text-gray-600 dark:text-gray-400">Correo</th>
+                  <th className="text-left py-3 px-4 font-medium text-gray-600 dark:text-gray-400">Rol</th>
+                  <th className="text-left py-3 px-4 font-medium text-gray-600 dark:text-gray-400">Estado</th>
+                  <th className="text-left py-3 px-4 font-medium text-gray-600 dark:text-gray-400">Vence</th>
+                  <th className="py-3 px-4"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {invitations.map((invitation) => (
+                  <tr key={invitation.id} className="border-b border-gray-100 dark:border-gray-800">
+                    <td className="py-2 px-4 text-sm text-gray-900 dark:text-white">{invitation.email}</td>
+                    <td className="py-2 px-4 text-sm text-gray-600 dark:text-gray-400">{ROLE_LABELS[invitation.role]}</td>
+                    <td className="py-2 px-4">
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_STYLES[invitation.status]}`}>
+                        {STATUS_LABELS[invitation.status]}
+                      </span>
+                    </td>
+                    <td className="py-2 px-4 text-sm text-gray-600 dark:text-gray-400">{formatDate(invitation.expiresAt)}</td>
+                    <td className="py-2 px-4 text-right whitespace-nowrap">
+                      {(invitation.status === 'pending' || invitation.status === 'expired') && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleResend(invitation)}
+                          disabled={busyId !== null}
+                        >
+                          Reenviar
+                        </Button>
+                      )}
+                      {invitation.status === 'pending' && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleRevoke(invitation)}
+                          disabled={busyId !== null}
+                          className="text-red-600 hover:text-red-700 dark:text-red-400"
+                        >
+                          Revocar
+                        </Button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
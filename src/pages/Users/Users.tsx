@@ -0,0 +1,354 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { KeyRound, RefreshCw, Search, UserCheck, UserCog, UserX } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Pagination } from '@/components/ui/Pagination';
+import { Select } from '@/components/ui/Select';
+import { useAuth } from '@/contexts';
+import { useDebouncedValue, usePlan } from '@/hooks';
+import { PLAN_LABELS, ROLE_LABELS, userService } from '@/services';
+import { UserRole } from '@/types';
+import type { PaginatedResponse, User, UserFilters, UserSeatUsage } from '@/types';
+import { getErrorMessage } from '@/utils/formErrors';
+import { UserInvitations } from './UserInvitations';
+
+const PAGE_SIZE = 20;
+
+type StatusFilter = 'all' | 'active' | 'inactive';
+
+const formatDate = (value?: Date | string): string =>
+  value ? new Date(value).toLocaleString('es-CO', { dateStyle: 'medium', timeStyle: 'short' }) : 'Nunca';
+
+export const Users: React.FC = () => {
+  const { user: currentUser, company } = useAuth();
+  const { plan, features, isWithinLimit } = usePlan();
+  const [result, setResult] = useState<PaginatedResponse<User> | null>(null);
+  const [seats, setSeats] = useState<UserSeatUsage | null>(null);
+  const [page, setPage] = useState(1);
+  const [search, setSearch] = useState('');
+  const [role, setRole] = useState<UserRole | ''>('');
+  const [status, setStatus] = useState<StatusFilter>('all');
+  const [isLoading, setIsLoading] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const debouncedSearch = useDebouncedValue(search.trim());
+  const [appliedSearch, setAppliedSearch] = useState(debouncedSearch);
+
+  const seatsUsed = seats ? seats.activeUsers + seats.pendingInvitations : 0;
+  const hasFreeSeat = seats !== null && isWithinLimit('maxUsers', seatsUsed);
+
+  // A superseded request is aborted, so an older query can't overwrite a newer one
+  const loadUsers = useCallback(async (signal?: AbortSignal) => {
+    const filters: UserFilters = {
+      role: role || undefined,
+      isActive: status === 'all' ? undefined : status === 'active',
+      search: debouncedSearch || undefined,
+    };
+
+    setIsLoading(true);
+    try {
+      const next = await userService.list({ page, limit: PAGE_SIZE, sortBy: 'name', sortOrder: 'asc' }, filters, signal);
+      if (!signal?.aborted) setResult(next);
+    } catch (error) {
+      if (!signal?.aborted) toast.error(getErrorMessage(error, 'No se pudieron cargar los usuarios'));
+    } finally {
+      if (!signal?.aborted) setIsLoading(false);
+    }
+  }, [page, role, status, debouncedSearch]);
+
+  const loadSeats = useCallback(async () => {
+    try {
+      setSeats(await userService.getSeatUsage());
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'No se pudo consultar el uso de cupos'));
+    }
+  }, []);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    loadUsers(controller.signal);
+    return () => controller.abort();
+  }, [loadUsers]);
+
+  useEffect(() => {
+    loadSeats();
+  }, [loadSeats]);
+
+  // Filters apply from the first page, reset in the same render so the old
+  // page is never requested with the new filters
+  if (appliedSearch !== debouncedSearch) {
+    setAppliedSearch(debouncedSearch);
+    setPage(1);
+  }
+
+  const replaceUser = (updated: User) => {
+    setResult((current) =>
+      current && { ...current, data: current.data.map((item) => (item.id === updated.id ? updated : item)) }
+    );
+  };
+
+  const runAction = async (target: User, action: () => Promise<void>, fallback: string) => {
+    setBusyId(target.id);
+    try {
+      await action();
+    } catch (error) {
+      toast.error(getErrorMessage(error, fallback));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRoleChange = (target: User, nextRole: UserRole) => {
+    if (!window.confirm(`¿Cambiar el rol de ${target.name} a ${ROLE_LABELS[nextRole]}?`)) {
+      return;
+    }
+
+    runAction(target, async () => {
+      replaceUser(await userService.changeRole(target, nextRole));
+      toast.success('Rol actualizado');
+    }, 'No se pudo cambiar el rol');
+  };
+
+  const handleToggleActive = (target: User) => {
+    const activate = !target.isActive;
+
+    if (activate && !hasFreeSeat) {
+      toast.error('No quedan cupos de usuario en tu plan para reactivar a esta persona');
+      return;
+    }
+    if (!activate && !window.confirm(`¿Desactivar a ${target.name}? Se cerrarán sus sesiones y no podrá iniciar sesión.`)) {
+      return;
+    }
+
+    runAction(target, async () => {
+      replaceUser(await userService.setActive(target, activate));
+      await loadSeats();
+      toast.success(activate ? 'Usuario reactivado' : 'Usuario desactivado');
+    }, activate ? 'No se pudo reactivar el usuario' : 'No se pudo desactivar el usuario');
+  };
+
+  const handleForceReset = (target: User) => {
+    if (!window.confirm(`¿Obligar a ${target.name} a restablecer su contraseña? Se cerrarán sus sesiones.`)) {
+      return;
+    }
+
+    runAction(target, async () => {
+      await userService.forcePasswordReset(target);
+      toast.success(`Enviamos un enlace de restablecimiento a ${target.email}`);
+    }, 'No se pudo forzar el restablecimiento');
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.4 }}
+      className="space-y-6"
+    >
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
+          Usuarios
+        </h1>
+        <p className="text-gray-600 dark:text-gray-400 mt-2">
+          Administra el equipo de {company?.name ?? 'tu empresa'}
+        </p>
+      </div>
+
+      {seats && (
+        <Card className="card-shadow">
+          <CardContent className="pt-6">
+            <div className="flex items-center justify-between mb-2">
+              <span className="font-medium text-gray-900 dark:text-white">Cupos de usuario</span>
+              <span className="text-sm text-gray-600 dark:text-gray-400">
+                {features.maxUsers === null
+                  ? `${seatsUsed} en uso · ilimitados`
+                  : `${seatsUsed} de ${features.maxUsers} en uso`}
+              </span>
+            </div>
+            {features.maxUsers !== null && (
+              <div className="h-2 rounded-full bg-gray-200 dark:bg-gray-700 overflow-hidden">
+                <div
+                  className={`h-full rounded-full ${hasFreeSeat ? 'bg-nequi-pink' : 'bg-red-500'}`}
+                  style={{ width: `${Math.min(100, (seatsUsed / Math.max(features.maxUsers, 1)) * 100)}%` }}
+                />
+              </div>
+            )}
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+              Incluye {seats.activeUsers} usuarios activos y {seats.pendingInvitations} invitaciones pendientes.
+            </p>
+            {!hasFreeSeat && (
+              <p className="text-sm text-red-600 dark:text-red-400 mt-2">
+                Alcanzaste el límite de tu plan {plan ? PLAN_LABELS[plan] : ''}.{' '}
+                <Link to="/settings" className="font-medium underline">
+                  Ver planes
+                </Link>
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <UserInvitations hasFreeSeat={hasFreeSeat} onSeatsChanged={loadSeats} />
+
+      <Card className="card-shadow">
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between">
+            <span className="flex items-center space-x-2">
+              <UserCog className="h-5 w-5 text-nequi-pink" />
+              <span>Equipo</span>
+            </span>
+            <Button variant="ghost" size="icon" onClick={() => loadUsers()} disabled={isLoading} aria-label="Actualizar">
+              <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+            </Button>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+              <Input
+                value={search}
+                onChange={(event) => setSearch(event.target.value)}
+                placeholder="Buscar por nombre o correo"
+                aria-label="Buscar usuarios"
+                className="pl-9"
+              />
+            </div>
+            <Select
+              value={role}
+              onChange={(event) => {
+                setPage(1);
+                setRole(event.target.value as UserRole | '');
+              }}
+              aria-label="Rol"
+            >
+              <option value="">Todos los roles</option>
+              {Object.values(UserRole).map((option) => (
+                <option key={option} value={option}>
+                  {ROLE_LABELS[option]}
+                </option>
+              ))}
+            </Select>
+            <Select
+              value={status}
+              onChange={(event) => {
+                setPage(1);
+                setStatus(event.target.value as StatusFilter);
+              }}
+              aria-label="Estado"
+            >
+              <option value="all">Todos los estados</option>
+              <option value="active">Activos</option>
+              <option value="inactive">Inactivos</option>
+            </Select>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-gray-200 dark:border-gray-700">
+                  <th className="text-left py-3 px-4 font-medium text-gray-600 dark:text-gray-400">Usuario</th>
+                  <th className="text-left py-3 px-4 font-medium text-gray-600 dark:text-gray-400">Rol</th>
+                  <th className="text-left py-3 px-4 font-medium text-gray-600 dark:text-gray-400">Estado</th>
+                  <th className="text-left py-3 px-4 font-medium text-gray-600 dark:text-gray-400">Último acceso</th>
+                  <th className="py-3 px-4"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {result?.data.map((member) => {
+                  const isSelf = member.id === currentUser?.id;
+                  const isBusy = busyId === member.id;
+
+                  return (
+                    <tr key={member.id} className="border-b border-gray-100 dark:border-gray-800">
+                      <td className="py-2 px-4">
+                        <p className="font-medium text-gray-900 dark:text-white">
+                          {member.name}
+                          {isSelf && <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">(tú)</span>}
+                        </p>
+                        <p className="text-sm text-gray-500 dark:text-gray-400">{member.email}</p>
+                      </td>
+                      <td className="py-2 px-4">
+                        <Select
+                          value={member.role}
+                          onChange={(event) => handleRoleChange(member, event.target.value as UserRole)}
+                          disabled={isSelf || isBusy}
+                          aria-label={`Rol de ${member.name}`}
+                        >
+                          {Object.values(UserRole).map((option) => (
+                            <option key={option} value={option}>
+                              {ROLE_LABELS[option]}
+                            </option>
+                          ))}
+                        </Select>
+                      </td>
+                      <td className="py-2 px-4">
+                        <span
+                          className={`px-2 py-1 rounded-full text-xs font-medium ${
+                            member.isActive
+                              ? 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400'
+                              : 'bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300'
+                          }`}
+                        >
+                          {member.isActive ? 'Activo' : 'Inactivo'}
+                        </span>
+                      </td>
+                      <td className="py-2 px-4 text-sm text-gray-600 dark:text-gray-400 whitespace-nowrap">
+                        {formatDate(member.lastLogin)}
+                      </td>
+                      <td className="py-2 px-4 text-right whitespace-nowrap">
+                        {!isSelf && (
+                          <>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleForceReset(member)}
+                              disabled={isBusy || !member.isActive}
+                              title="Forzar restablecimiento de contraseña"
+                            >
+                              <KeyRound className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleToggleActive(member)}
+                              disabled={isBusy}
+                              className={member.isActive ? 'text-red-600 hover:text-red-700 dark:text-red-400' : ''}
+                            >
+                              {member.isActive ? (
+                                <>
+                                  <UserX className="h-4 w-4 mr-2" />
+                                  Desactivar
+                                </>
+                              ) : (
+                                <>
+                                  <UserCheck className="h-4 w-4 mr-2" />
+                                  Reactivar
+                                </>
+                              )}
+                            </Button>
+                          </>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+
+            {!isLoading && result?.data.length === 0 && (
+              <p className="text-center text-gray-500 dark:text-gray-400 py-8">
+                No hay usuarios para los filtros seleccionados.
+              </p>
+            )}
+          </div>
+
+          {result && <Pagination pagination={result.pagination} onPageChange={setPage} itemLabel="usuarios" />}
+        </CardContent>
+      </Card>
+    </motion.div>
+  );
+};
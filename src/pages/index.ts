@@ -1,5 +1,10 @@
 export { Dashboard } from './Dashboard/Dashboard';
 export { Reports } from './Reports/Reports';
 export { Clients } from './Clients/Clients';
+export { ClientDetail } from './Clients/ClientDetail';
+export { CreditPortfolio } from './Clients/CreditPortfolio';
+export { CreditStatement } from './Clients/CreditStatement';
 export { Calendar } from './Calendar/Calendar';
-export { Settings } from './Settings/Settings';
\ No newline at end of file
+export { Settings } from './Settings/Settings';
+export { Users } from './Users/Users';
+export { SecurityActivity } from './Security/SecurityActivity';
\ No newline at end of file
@@ -6,9 +6,23 @@ import { ProtectedRoute, PublicRoute } from '@/guards';
 import { Dashboard } from '@/pages/Dashboard/Dashboard';
 import { Reports } from '@/pages/Reports/Reports';
 import { Clients } from '@/pages/Clients/Clients';
+import { ClientDetail } from '@/pages/Clients/ClientDetail';
+import { CreditPortfolio } from '@/pages/Clients/CreditPortfolio';
+import { CreditStatement } from '@/pages/Clients/CreditStatement';
 import { Calendar } from '@/pages/Calendar/Calendar';
 import { Settings } from '@/pages/Settings/Settings';
-import { LoginPage, RegisterPage, ForgotPasswordPage } from '@/pages/Auth';
+import { SecurityActivity } from '@/pages/Security/SecurityActivity';
+import { Users } from '@/pages/Users/Users';
+import {
+  LoginPage,
+  RegisterPage,
+  ForgotPasswordPage,
+  ResetPasswordPage,
+  VerificationPendingPage,
+  VerifyEmailPage,
+  AcceptInvitePage
+} from '@/pages/Auth';
+import { FeatureFlag, Permission } from '@/types';
 
 export const AppRoutes: React.FC = () => {
   return (
@@ -40,12 +54,38 @@ export const AppRoutes: React.FC = () => {
               </PublicRoute>
             } 
           />
+          <Route
+            path="/reset-password/:token"
+            element={
+              <PublicRoute>
+                <ResetPasswordPage />
+              </PublicRoute>
+            }
+          />
+          <Route
+            path="/verify-email"
+            element={
+              <PublicRoute>
+                <VerificationPendingPage />
+              </PublicRoute>
+            }
+          />
+          {/* Not a PublicRoute: signed-in users confirm email changes here too */}
+          <Route path="/verify-email/:token" element={<VerifyEmailPage />} />
+          <Route
+            path="/accept-invite/:token"
+            element={
+              <PublicRoute>
+                <AcceptInvitePage />
+              </PublicRoute>
+            }
+          />
 
           {/* Protected Routes */}
           <Route
             path="/"
             element={
-              <ProtectedRoute>
+              <ProtectedRoute requiredPermission={Permission.DASHBOARD_VIEW}>
                 <Layout>
                   <Dashboard />
                 </Layout>
@@ -59,7 +99,7 @@ export const AppRoutes: React.FC = () => {
           <Route
             path="/reports"
             element={
-              <ProtectedRoute>
+              <ProtectedRoute requiredPermission={Permission.REPORTS_VIEW} requiredFeature={FeatureFlag.REPORTS}>
                 <Layout>
                   <Reports />
                 </Layout>
@@ -69,23 +109,52 @@ export const AppRoutes: React.FC = () => {
           <Route
             path="/clients"
             element={
-              <ProtectedRoute>
+              <ProtectedRoute requiredPermission={Permission.CLIENTS_VIEW}>
                 <Layout>
                   <Clients />
                 </Layout>
               </ProtectedRoute>
             }
           />
+          <Route
+            path="/clients/:id"
+            element={
+              <ProtectedRoute requiredPermission={Permission.CLIENTS_VIEW}>
+                <Layout>
+                  <ClientDetail />
+                </Layout>
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/clients/:id/statement"
+            element={
+              <ProtectedRoute requiredPermission={Permission.CREDIT_VIEW}>
+                <CreditStatement />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/credit"
+            element={
+              <ProtectedRoute requiredPermission={Permission.CREDIT_VIEW}>
+                <Layout>
+                  <CreditPortfolio />
+                </Layout>
+              </ProtectedRoute>
+            }
+          />
           <Route
             path="/calendar"
             element={
-              <ProtectedRoute>
+              <ProtectedRoute requiredPermission={Permission.CALENDAR_VIEW} requiredFeature={FeatureFlag.CALENDAR}>
                 <Layout>
                   <Calendar />
                 </Layout>
               </ProtectedRoute>
             }
           />
+          {/* Every role reaches its own account, PIN and sessions; company sections gate themselves */}
           <Route
             path="/settings"
             element={
@@ -96,6 +165,26 @@ export const AppRoutes: React.FC = () => {
               </ProtectedRoute>
             }
           />
+          <Route
+            path="/users"
+            element={
+              <ProtectedRoute requiredPermission={Permission.USERS_MANAGE}>
+                <Layout>
+                  <Users />
+                </Layout>
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/security"
+            element={
+              <ProtectedRoute requiredPermission={Permission.SECURITY_VIEW}>
+                <Layout>
+                  <SecurityActivity />
+                </Layout>
+              </ProtectedRoute>
+            }
+          />
 
           {/* Catch all route */}
           <Route path="*" element={<Navigate to="/login" replace />} />
@@ -0,0 +1,47 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { AxiosAdapter } from 'axios';
+import { apiClient } from './apiClient';
+import { SessionSecurityService } from './securityService';
+
+const MINUTE = 60 * 1000;
+
+const okAdapter: AxiosAdapter = async (config) => ({
+  data: { success: true },
+  status: 200,
+  statusText: 'OK',
+  headers: {},
+  config,
+});
+
+describe('apiClient and the idle timeout', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    SessionSecurityService.applyPolicy({ idleTimeoutMinutes: 30, absoluteLifetimeMinutes: null, warningLeadMinutes: 5 });
+    SessionSecurityService.extendSession();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('does not reset the idle timer for background requests', async () => {
+    vi.setSystemTime(Date.now() + 10 * MINUTE);
+
+    await apiClient.request({ method: 'get', url: '/auth/verify', adapter: okAdapter });
+
+    expect(SessionSecurityService.getRemainingTime()).toBe(20 * MINUTE);
+  });
+
+  it('resets the idle timer on user input', () => {
+    SessionSecurityService.initializeSessionSecurity();
+    vi.setSystemTime(Date.now() + 10 * MINUTE);
+
+    document.dispatchEvent(new Event('keypress'));
+
+    expect(SessionSecurityService.getRemainingTime()).toBe(30 * MINUTE);
+  });
+});
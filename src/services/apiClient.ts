@@ -0,0 +1,215 @@
+import axios from 'axios';
+import type { AxiosError, AxiosInstance, AxiosRequestConfig, InternalAxiosRequestConfig } from 'axios';
+import type { ApiResponse, PaginatedResponse, PaginationParams } from '@/types';
+import {
+  CSRFService,
+  SecurityHeadersService,
+  SecurityLogger
+} from './securityService';
+import { normalizeApiError } from './apiErrors';
+
+/**
+ * Shared HTTP client for every MercaloPOS service.
+ *
+ * Attaches the access token, CSRF and security headers, refreshes the token
+ * once when a signed-in request gets a 401 and normalizes failures into `ApiError`s (see `apiErrors.ts`).
+ * Resource services (clients, products, sales, reports) should build on the
+ * typed helpers instead of creating their own axios instances.
+ */
+
+export interface RequestOptions {
+  params?: object;
+  headers?: Record<string, string>;
+  signal?: AbortSignal;
+  /** Per-request timeout in milliseconds, overrides the client default */
+  timeout?: number;
+}
+
+export interface AuthHandlers {
+  getAccessToken: () => string | null;
+  /** Whether there's a session a refresh could restore, e.g. an httpOnly refresh cookie */
+  hasSession: () => boolean;
+  refreshAccessToken: () => Promise<string>;
+  onRefreshFailure: (error: unknown) => void;
+}
+
+type RetriableRequestConfig = InternalAxiosRequestConfig & { _retry?: boolean };
+
+// A 401 from these means wrong credentials or an invalid link, not an expired session
+const CREDENTIAL_ENDPOINT =
+  /^\/(auth\/(login|register|logout|2fa\/verify|pin\/unlock|forgot-password|reset-password|change-password)(\/|$)|auth\/verify-email$|invitations\/token\/)/;
+
+class ApiClient {
+  private instance: AxiosInstance;
+  readonly baseURL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+  private authHandlers: AuthHandlers | null = null;
+
+  constructor() {
+    this.instance = axios.create({
+      baseURL: this.baseURL,
+      headers: {
+        'Content-Type': 'application/json',
+        ...SecurityHeadersService.getSecurityHeaders(),
+      },
+      timeout: 10000,
+    });
+
+    this.setupInterceptors();
+  }
+
+  configureAuth(handlers: AuthHandlers): void {
+    this.authHandlers = handlers;
+  }
+
+  setWithCredentials(enabled: boolean): void {
+    this.instance.defaults.withCredentials = enabled;
+  }
+
+  private shouldRefresh(request: RetriableRequestConfig): boolean {
+    return !!this.authHandlers
+      && !request._retry
+      && this.authHandlers.hasSession()
+      && !CREDENTIAL_ENDPOINT.test(request.url ?? '');
+  }
+
+  private setupInterceptors(): void {
+    // Request interceptor to add auth token and security headers
+    this.instance.interceptors.request.use(
+      (config) => {
+        const token = this.authHandlers?.getAccessToken();
+        if (token) {
+          config.headers.Authorization = `Bearer ${token}`;
+        }
+
+        // Add CSRF token
+        const csrfHeaders = CSRFService.getCSRFHeaders();
+        Object.assign(config.headers, csrfHeaders);
+
+        // Add security headers
+        const securityHeaders = SecurityHeadersService.getSecurityHeaders();
+        Object.assign(config.headers, securityHeaders);
+
+        // Requests don't count as activity for the idle timeout: background
+        // calls (session checks, log uploads) would keep an unattended
+        // terminal signed in. Only user input does, see SessionSecurityService
+        return config;
+      },
+      (error) => Promise.reject(error)
+    );
+
+    // Response interceptor to handle token refresh and security validation
+    this.instance.interceptors.response.use(
+      (response) => {
+        // Validate security headers in response
+        const hasSecurityHeaders = SecurityHeadersService.validateSecurityHeaders(
+          response.headers as Record<string, string>
+        );
+
+        if (!hasSecurityHeaders) {
+          SecurityLogger.log({
+            type: 'security_header_missing',
+            severity: 'medium',
+            message: 'Response missing required security headers',
+            details: { url: response.config.url }
+          });
+        }
+
+        return response;
+      },
+      async (error: AxiosError) => {
+        const originalRequest = error.config as RetriableRequestConfig | undefined;
+
+        if (error.response?.status === 401 && originalRequest && this.shouldRefresh(originalRequest) && this.authHandlers) {
+          originalRequest._retry = true;
+
+          SecurityLogger.log({
+            type: 'token_expired',
+            severity: 'medium',
+            message: 'Access token expired, attempting refresh',
+            details: { url: originalRequest.url }
+          });
+
+          try {
+            const newToken = await this.authHandlers.refreshAccessToken();
+            originalRequest.headers.Authorization = `Bearer ${newToken}`;
+            return this.instance(originalRequest);
+          } catch (refreshError) {
+            SecurityLogger.log({
+              type: 'token_refresh',
+              severity: 'high',
+              message: 'Token refresh failed, forcing logout',
+            });
+
+            this.authHandlers.onRefreshFailure(refreshError);
+            return Promise.reject(refreshError);
+          }
+        }
+
+        // Log security-related errors
+        if (error.response?.status === 403) {
+          SecurityLogger.log({
+            type: 'csrf_violation',
+            severity: 'high',
+            message: 'CSRF token validation failed',
+            details: { url: originalRequest?.url }
+          });
+        }
+
+        return Promise.reject(error);
+      }
+    );
+  }
+
+  /**
+   * Sends a request and returns the raw response body. Prefer the typed
+   * helpers below unless the endpoint doesn't follow the `ApiResponse` shape.
+   */
+  async request<R>(config: AxiosRequestConfig): Promise<R> {
+    try {
+      const response = await this.instance.request<R>(config);
+      return response.data;
+    } catch (error) {
+      throw normalizeApiError(error);
+    }
+  }
+
+  get<T>(url: string, options: RequestOptions = {}): Promise<ApiResponse<T>> {
+    return this.request<ApiResponse<T>>({ ...options, method: 'get', url });
+  }
+
+  post<T>(url: string, data?: unknown, options: RequestOptions = {}): Promise<ApiResponse<T>> {
+    return this.request<ApiResponse<T>>({ ...options, method: 'post', url, data });
+  }
+
+  put<T>(url: string, data?: unknown, options: RequestOptions = {}): Promise<ApiResponse<T>> {
+    return this.request<ApiResponse<T>>({ ...options, method: 'put', url, data });
+  }
+
+  patch<T>(url: string, data?: unknown, options: RequestOptions = {}): Promise<ApiResponse<T>> {
+    return this.request<ApiResponse<T>>({ ...options, method: 'patch', url, data });
+  }
+
+  delete<T = void>(url: string, options: RequestOptions = {}): Promise<ApiResponse<T>> {
+    return this.request<ApiResponse<T>>({ ...options, method: 'delete', url });
+  }
+
+  getPaginated<T>(
+    url: string,
+    pagination: PaginationParams,
+    options: RequestOptions = {}
+  ): Promise<PaginatedResponse<T>> {
+    return this.request<PaginatedResponse<T>>({
+      ...options,
+      method: 'get',
+      url,
+      params: { ...pagination, ...options.params },
+    });
+  }
+}
+
+export const apiClient = new ApiClient();
+
+SecurityLogger.setUploader(async (logs) => {
+  await apiClient.post('/security/logs/batch', { logs });
+});
+export default apiClient;
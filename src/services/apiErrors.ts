@@ -0,0 +1,175 @@
+import axios from 'axios';
+import type { ApiResponse, AuthError as ApiErrorDetail, TokenStatus } from '@/types';
+
+/**
+ * Structured API errors. Every failure coming out of `apiClient` is an
+ * `ApiError` (or subclass) carrying the HTTP status and the server's
+ * `errors` array so callers can react to the kind of failure.
+ */
+
+interface ApiErrorOptions {
+  status?: number;
+  code?: string;
+  errors?: ApiErrorDetail[];
+  cause?: unknown;
+}
+
+export class ApiError extends Error {
+  readonly status?: number;
+  readonly code?: string;
+  readonly errors: ApiErrorDetail[];
+
+  constructor(message: string, options: ApiErrorOptions = {}) {
+    super(message, { cause: options.cause });
+    this.name = 'ApiError';
+    this.status = options.status;
+    this.code = options.code;
+    this.errors = options.errors ?? [];
+  }
+
+  /** Errors the server tied to a specific input field */
+  get fieldErrors(): ApiErrorDetail[] {
+    return this.errors.filter((error) => Boolean(error.field));
+  }
+}
+
+// The request never reached the server or the response never came back
+export class NetworkError extends ApiError {
+  constructor(message = 'Network error, check your connection', options: ApiErrorOptions = {}) {
+    super(message, options);
+    this.name = 'NetworkError';
+  }
+}
+
+export class TimeoutError extends NetworkError {
+  constructor(message = 'The request timed out', options: ApiErrorOptions = {}) {
+    super(message, options);
+    this.name = 'TimeoutError';
+  }
+}
+
+// Aborted through an AbortSignal; usually not worth showing to the user
+export class CancelledError extends ApiError {
+  constructor(message = 'Request was cancelled', options: ApiErrorOptions = {}) {
+    super(message, options);
+    this.name = 'CancelledError';
+  }
+}
+
+export class ValidationError extends ApiError {
+  constructor(message: string, options: ApiErrorOptions = {}) {
+    super(message, options);
+    this.name = 'ValidationError';
+  }
+}
+
+// 401/403: missing, expired or insufficient credentials
+export class AuthError extends ApiError {
+  constructor(message: string, options: ApiErrorOptions = {}) {
+    super(message, options);
+    this.name = 'AuthError';
+  }
+}
+
+export class RateLimitError extends ApiError {
+  /** Milliseconds until the caller may try again */
+  readonly retryAfter: number;
+
+  constructor(message: string, options: ApiErrorOptions & { retryAfter?: number } = {}) {
+    super(message, { status: 429, ...options });
+    this.name = 'RateLimitError';
+    this.retryAfter = options.retryAfter ?? 0;
+  }
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+function parseRetryAfter(header: unknown): number {
+  if (typeof header !== 'string' && typeof header !== 'number') {
+    return 0;
+  }
+
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) {
+    return seconds * 1000;
+  }
+
+  const date = Date.parse(String(header));
+  return Number.isNaN(date) ? 0 : Math.max(0, date - Date.now());
+}
+
+export function normalizeApiError(error: unknown): ApiError {
+  if (error instanceof ApiError) {
+    return error;
+  }
+
+  if (axios.isCancel(error)) {
+    return new CancelledError(undefined, { cause: error });
+  }
+
+  if (axios.isAxiosError(error)) {
+    if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+      return new TimeoutError(undefined, { code: error.code, cause: error });
+    }
+
+    if (!error.response) {
+      return new NetworkError(undefined, { code: error.code, cause: error });
+    }
+
+    const { status, data, headers } = error.response;
+    const body = data as Partial<ApiResponse> | undefined;
+    const options: ApiErrorOptions = {
+      status,
+      code: body?.errors?.[0]?.code,
+      errors: body?.errors,
+      cause: error,
+    };
+    const message = body?.message || error.message;
+
+    switch (status) {
+      case 400:
+      case 409:
+      case 422:
+        return new ValidationError(message, options);
+      case 401:
+      case 403:
+        return new AuthError(message, options);
+      case 429:
+        return new RateLimitError(message, { ...options, retryAfter: parseRetryAfter(headers['retry-after']) });
+      default:
+        return new ApiError(message, options);
+    }
+  }
+
+  if (error instanceof Error && error.message) {
+    return new ApiError(error.message, { cause: error });
+  }
+
+  return new ApiError('An unexpected error occurred', { cause: error });
+}
+
+// Server error codes for emailed links that can no longer be used
+const TOKEN_ERROR_CODES: Record<string, Exclude<TokenStatus, 'valid'>> = {
+  TOKEN_EXPIRED: 'expired',
+  TOKEN_USED: 'used',
+  TOKEN_INVALID: 'invalid',
+};
+
+/**
+ * Why an emailed link (reset, verification, invitation) was rejected, or null
+ * when `error` isn't about the token, e.g. the server couldn't be reached.
+ */
+export function getTokenStatus(error: unknown): Exclude<TokenStatus, 'valid'> | null {
+  if (!(error instanceof ApiError)) {
+    return null;
+  }
+  if (error.code && TOKEN_ERROR_CODES[error.code]) {
+    return TOKEN_ERROR_CODES[error.code];
+  }
+  if (error.status === 410) {
+    return 'expired';
+  }
+  if (error.status === 400 || error.status === 404) {
+    return 'invalid';
+  }
+  return null;
+}
@@ -1,45 +1,89 @@
 import axios from 'axios';
-import type { AxiosInstance, AxiosResponse } from 'axios';
+import type { AxiosResponse } from 'axios';
 import type {
   LoginCredentials,
   LoginResponse,
+  LoginResult,
+  TwoFactorChallengeResponse,
+  TwoFactorVerifyData,
+  TwoFactorSetup,
+  TwoFactorEnableResponse,
+  TwoFactorDisableData,
+  PinUnlockData,
+  SetPinData,
   RegisterData,
   RefreshTokenResponse,
   PasswordResetRequest,
   PasswordReset,
+  PasswordResetTokenInfo,
+  EmailVerificationResult,
   ChangePasswordData,
+  ChangePasswordResult,
+  UpdateProfileData,
+  PasswordPolicy,
   ApiResponse,
+  ActiveSession,
   User,
+  Company,
   JWTPayload
 } from '@/types';
+import { TaxDocumentType } from '@/types';
 import { 
   CSRFService, 
-  SecurityHeadersService, 
   SecurityLogger, 
   SanitizationService,
   SessionSecurityService,
   RateLimitService
 } from './securityService';
+import { apiClient } from './apiClient';
+import { ApiError, AuthError, NetworkError, RateLimitError, getTokenStatus, normalizeApiError } from './apiErrors';
+import { DEFAULT_PASSWORD_POLICY, assertPasswordPolicy } from './passwordPolicyService';
+import type { PasswordContext } from './passwordPolicyService';
+import { assertTaxId, splitNit } from './taxIdService';
+import { sessionSyncService } from './sessionSyncService';
+import { terminalLockService } from './terminalLockService';
+import { resolveTokenStorage } from './tokenStorage';
+import type { TokenStorage } from './tokenStorage';
+import { TokenRefreshScheduler } from './tokenRefreshScheduler';
+import type { TokenRefreshListener } from './tokenRefreshScheduler';
+
+// How often a visible tab confirms its session is still valid
+const SESSION_CHECK_INTERVAL = 5 * 60 * 1000; // 5 minutes
 
 class AuthService {
-  private api: AxiosInstance;
-  private readonly baseURL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
-  private readonly tokenKey = 'mercalo_access_token';
-  private readonly refreshTokenKey = 'mercalo_refresh_token';
+  private lastSessionCheck = Date.now();
+  private tokenStorage: TokenStorage = resolveTokenStorage();
   private refreshPromise: Promise<string> | null = null;
+  private refreshScheduler = new TokenRefreshScheduler({
+    refresh: () => this.handleTokenRefresh(),
+    // Tokens are only cleared when the server rejects the refresh
+    shouldRetry: () => this.getAccessToken() !== null,
+  });
 
   constructor() {
-    this.api = axios.create({
-      baseURL: this.baseURL,
-      headers: {
-        'Content-Type': 'application/json',
-        ...SecurityHeadersService.getSecurityHeaders(),
+    apiClient.setWithCredentials(this.tokenStorage.isServerManaged);
+    apiClient.configureAuth({
+      getAccessToken: () => this.getAccessToken(),
+      hasSession: () => !!this.getAccessToken() || this.tokenStorage.isServerManaged,
+      refreshAccessToken: () => this.handleTokenRefresh(),
+      onRefreshFailure: (error) => {
+        // The server answers SESSION_REVOKED once the session was closed from another device
+        const reason = error instanceof ApiError && error.code === 'SESSION_REVOKED'
+          ? 'session-revoked'
+          : 'session-expired';
+        // Navigating away could abort the logout before it clears the tokens
+        this.logout().finally(() => {
+          window.location.href = `/login?reason=${reason}`;
+        });
       },
-      timeout: 10000,
     });
 
-    this.setupInterceptors();
     this.initializeSecurity();
+
+    const accessToken = this.getAccessToken();
+    if (accessToken && this.isTokenValid(accessToken)) {
+      this.scheduleTokenRefresh(accessToken);
+    }
   }
 
   private initializeSecurity(): void {
@@ -51,110 +95,75 @@ class AuthService {
 
     // Initialize session security
     SessionSecurityService.initializeSessionSecurity();
+    if (this.getAccessToken() || this.getRefreshToken()) {
+      SessionSecurityService.resumeSession();
+    }
+
+    // Upload audit entries queued by a previous session
+    SecurityLogger.flush();
 
     // Listen for session events
     window.addEventListener('session-expired', this.handleSessionExpired.bind(this));
     window.addEventListener('session-warning', this.handleSessionWarning.bind(this));
-  }
 
-  private handleSessionExpired(): void {
-    this.logout();
-    window.location.href = '/login?reason=session-expired';
-  }
+    // Keep other tabs in step with this one
+    sessionSyncService.subscribe('token_refreshed', (message) => {
+      this.setAccessToken(message.accessToken);
+      this.scheduleTokenRefresh(message.accessToken);
+    });
+    sessionSyncService.subscribe('logout', () => this.handleRemoteSignOut());
+    sessionSyncService.subscribe('session_expired', () => this.handleRemoteSignOut('session-expired'));
+    // A session revoked from another device only notices on its next request,
+    // so check in when the tab comes back into view and periodically after that
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'visible') {
+        this.checkSession();
+      }
+    });
+    window.setInterval(() => this.checkSession(), SESSION_CHECK_INTERVAL);
 
-  private handleSessionWarning(event: Event): void {
-    const customEvent = event as CustomEvent;
-    // Show session warning modal/toast
-    console.warn('Session will expire soon:', customEvent.detail?.remainingTime);
+    sessionSyncService.subscribe('terminal_unlocked', (message) => {
+      this.setAccessToken(message.accessToken);
+      this.scheduleTokenRefresh(message.accessToken);
+    });
   }
 
-  private setupInterceptors(): void {
-    // Request interceptor to add auth token and security headers
-    this.api.interceptors.request.use(
-      (config) => {
-        const token = this.getAccessToken();
-        if (token) {
-          config.headers.Authorization = `Bearer ${token}`;
-        }
-
-        // Add CSRF token
-        const csrfHeaders = CSRFService.getCSRFHeaders();
-        Object.assign(config.headers, csrfHeaders);
-
-        // Add security headers
-        const securityHeaders = SecurityHeadersService.getSecurityHeaders();
-        Object.assign(config.headers, securityHeaders);
-
-        // Update session activity
-        SessionSecurityService.updateLastActivity();
-
-        return config;
-      },
-      (error) => Promise.reject(error)
-    );
-
-    // Response interceptor to handle token refresh and security validation
-    this.api.interceptors.response.use(
-      (response) => {
-        // Validate security headers in response
-        const hasSecurityHeaders = SecurityHeadersService.validateSecurityHeaders(
-          response.headers as Record<string, string>
-        );
-
-        if (!hasSecurityHeaders) {
-          SecurityLogger.log({
-            type: 'security_header_missing',
-            severity: 'medium',
-            message: 'Response missing required security headers',
-            details: { url: response.config.url }
-          });
-        }
+  private async handleSessionExpired(): Promise<void> {
+    sessionSyncService.broadcast({ type: 'session_expired' });
+    // Wait for the tokens to be cleared; otherwise the login page sends us back in
+    await this.logout();
+    window.location.href = '/login?reason=session-expired';
+  }
 
-        return response;
-      },
-      async (error) => {
-        const originalRequest = error.config;
+  private handleRemoteSignOut(reason?: string): void {
+    this.clearTokens();
+    terminalLockService.clear();
+    SessionSecurityService.destroySession();
 
-        if (error.response?.status === 401 && !originalRequest._retry) {
-          originalRequest._retry = true;
+    window.dispatchEvent(new CustomEvent('session-logout', { detail: { reason } }));
 
-          SecurityLogger.log({
-            type: 'token_expired',
-            severity: 'medium',
-            message: 'Access token expired, attempting refresh',
-            details: { url: originalRequest.url }
-          });
+    if (reason && window.location.pathname !== '/login') {
+      window.location.href = `/login?reason=${reason}`;
+    }
+  }
 
-          try {
-            const newToken = await this.handleTokenRefresh();
-            originalRequest.headers.Authorization = `Bearer ${newToken}`;
-            return this.api(originalRequest);
-          } catch (refreshError) {
-            SecurityLogger.log({
-              type: 'token_refresh',
-              severity: 'high',
-              message: 'Token refresh failed, forcing logout',
-            });
-
-            this.logout();
-            window.location.href = '/login';
-            return Promise.reject(refreshError);
-          }
-        }
+  private checkSession(): void {
+    if (document.visibilityState !== 'visible' || !this.isAuthenticated()) {
+      return;
+    }
+    if (Date.now() - this.lastSessionCheck < SESSION_CHECK_INTERVAL) {
+      return;
+    }
 
-        // Log security-related errors
-        if (error.response?.status === 403) {
-          SecurityLogger.log({
-            type: 'csrf_violation',
-            severity: 'high',
-            message: 'CSRF token validation failed',
-            details: { url: originalRequest.url }
-          });
-        }
+    this.lastSessionCheck = Date.now();
+    // A revoked session fails here with 401 and goes through the refresh/logout path
+    this.verifyToken();
+  }
 
-        return Promise.reject(error);
-      }
-    );
+  private handleSessionWarning(event: Event): void {
+    const customEvent = event as CustomEvent;
+    // Show session warning modal/toast
+    console.warn('Session will expire soon:', customEvent.detail?.remainingTime);
   }
 
   private async handleTokenRefresh(): Promise<string> {
@@ -162,7 +171,8 @@ class AuthService {
       return this.refreshPromise;
     }
 
-    this.refreshPromise = this.refreshToken().then((newToken) => {
+    // Only one tab refreshes at a time; the rest pick up the broadcast token
+    this.refreshPromise = sessionSyncService.runExclusiveRefresh(() => this.refreshToken()).then((newToken) => {
       this.refreshPromise = null;
       return newToken;
     }).catch((error) => {
@@ -174,7 +184,7 @@ class AuthService {
   }
 
   // Authentication methods
-  async login(credentials: LoginCredentials): Promise<LoginResponse> {
+  async login(credentials: LoginCredentials): Promise<LoginResult> {
     // Sanitize input
     const sanitizedCredentials = {
       ...credentials,
@@ -184,80 +194,229 @@ class AuthService {
 
     // Rate limiting check
     const rateLimitKey = `login_${sanitizedCredentials.email}`;
-    const rateLimitResult = RateLimitService.checkRateLimit(rateLimitKey, 5, 15 * 60 * 1000);
+    this.enforceRateLimit(rateLimitKey, 'Login', { email: sanitizedCredentials.email });
+
+    SecurityLogger.log({
+      type: 'login_attempt',
+      severity: 'low',
+      message: 'User attempting to login',
+      details: { email: sanitizedCredentials.email }
+    });
+
+    try {
+      const response = await apiClient.request<LoginResult>({
+        method: 'post',
+        url: '/auth/login',
+        data: sanitizedCredentials,
+      });
+      
+      if (response.success) {
+        // Reset rate limit on successful login
+        RateLimitService.resetRateLimit(rateLimitKey);
+
+        if (isTwoFactorChallenge(response)) {
+          SecurityLogger.log({
+            type: 'two_factor_challenge',
+            severity: 'low',
+            message: 'Password accepted, second factor required',
+            details: { email: sanitizedCredentials.email }
+          });
+        } else {
+          this.assertCanSignIn(response.data.user);
+          this.completeLogin(response, sanitizedCredentials.email, credentials.rememberMe ?? false);
+        }
+      }
+
+      return response;
+    } catch (error: any) {
+      SecurityLogger.log({
+        type: 'login_failure',
+        severity: 'medium',
+        message: 'Login attempt failed',
+        details: { 
+          email: sanitizedCredentials.email,
+          error: error.message
+        }
+      });
+
+      // Increment backoff on failed login
+      RateLimitService.incrementBackoff(rateLimitKey);
+
+      throw error;
+    }
+  }
+
+  async verifyTwoFactor(data: TwoFactorVerifyData, email: string, rememberMe = false): Promise<LoginResponse> {
+    // Codes are short, so attempts are limited just like passwords
+    const rateLimitKey = `2fa_${email}`;
+    this.enforceRateLimit(rateLimitKey, 'Two-factor', { email });
+
+    try {
+      const response = await apiClient.request<LoginResponse>({
+        method: 'post',
+        url: '/auth/2fa/verify',
+        data,
+      });
+
+      if (response.success) {
+        RateLimitService.resetRateLimit(rateLimitKey);
+        this.assertCanSignIn(response.data.user);
+        this.completeLogin(response, email, rememberMe);
+
+        SecurityLogger.log({
+          type: 'two_factor_success',
+          severity: 'low',
+          message: 'Second factor verified',
+          details: { email, method: data.method }
+        });
+      }
+
+      return response;
+    } catch (error) {
+      SecurityLogger.log({
+        type: 'two_factor_failure',
+        severity: 'medium',
+        message: 'Second factor verification failed',
+        details: { email, method: data.method, error: error instanceof Error ? error.message : String(error) }
+      });
+
+      RateLimitService.incrementBackoff(rateLimitKey);
+
+      throw error;
+    }
+  }
+
+  private enforceRateLimit(
+    key: string,
+    action: string,
+    details: Record<string, unknown>,
+    maxAttempts = 5,
+    windowMs = 15 * 60 * 1000
+  ): void {
+    const rateLimitResult = RateLimitService.checkRateLimit(key, maxAttempts, windowMs);
 
     if (!rateLimitResult.allowed) {
       SecurityLogger.log({
         type: 'rate_limit_exceeded',
         severity: 'high',
-        message: 'Login rate limit exceeded',
+        message: `${action} rate limit exceeded`,
         details: { 
-          email: sanitizedCredentials.email,
+          ...details,
           retryAfter: rateLimitResult.retryAfter,
           remainingAttempts: rateLimitResult.remainingAttempts
         }
       });
 
-      throw new Error(`Too many login attempts. Try again in ${Math.ceil(rateLimitResult.retryAfter / 1000 / 60)} minutes.`);
+      throw new RateLimitError(
+        `Too many ${action.toLowerCase()} attempts. Try again in ${Math.ceil(rateLimitResult.retryAfter / 1000 / 60)} minutes.`,
+        { retryAfter: rateLimitResult.retryAfter }
+      );
+    }
+  }
+
+  /**
+   * The server shouldn't issue tokens to these accounts, but refuse them here
+   * too so a misconfigured backend can't sign in a deactivated user.
+   */
+  private assertCanSignIn(user: User): void {
+    if (!user.isActive) {
+      throw new AuthError('This account has been deactivated', { status: 403, code: 'ACCOUNT_INACTIVE' });
+    }
+    if (user.emailVerified === false) {
+      throw new AuthError('Verify your email before signing in', { status: 403, code: 'EMAIL_NOT_VERIFIED' });
     }
+  }
+
+  private completeLogin(response: LoginResponse, email: string, rememberMe: boolean): void {
+    const { accessToken, refreshToken, expiresIn } = response.data;
+    this.setTokens(accessToken, refreshToken, rememberMe);
+    this.scheduleTokenRefresh(accessToken, expiresIn);
+    terminalLockService.clear();
+
+    // Start the session clock for the idle and absolute limits
+    SessionSecurityService.startSession();
 
     SecurityLogger.log({
-      type: 'login_attempt',
+      type: 'login_success',
       severity: 'low',
-      message: 'User attempting to login',
-      details: { email: sanitizedCredentials.email }
+      message: 'User successfully logged in',
+      details: { 
+        email,
+        userId: response.data.user.id
+      }
     });
+  }
+
+  /**
+   * Unlocks a locked terminal with a cashier PIN. The server issues tokens for
+   * the PIN's owner, which may differ from the user who locked the terminal.
+   */
+  async unlockWithPin(data: PinUnlockData, lockedByUserId: string): Promise<LoginResponse> {
+    // PINs are short, so allow fewer attempts than passwords
+    const rateLimitKey = `pin_${data.userId}`;
+    this.enforceRateLimit(rateLimitKey, 'PIN', { userId: data.userId }, 3, 5 * 60 * 1000);
 
     try {
-      const response: AxiosResponse<LoginResponse> = await this.api.post('/auth/login', sanitizedCredentials);
-      
-      if (response.data.success) {
-        const { accessToken, refreshToken } = response.data.data;
-        this.setTokens(accessToken, refreshToken);
+      const response = await apiClient.request<LoginResponse>({
+        method: 'post',
+        url: '/auth/pin/unlock',
+        data,
+      });
 
-        // Reset rate limit on successful login
+      if (response.success) {
+        const { user, accessToken, refreshToken, expiresIn } = response.data;
         RateLimitService.resetRateLimit(rateLimitKey);
 
-        // Extend session
+        // Keep the persistence the terminal was signed in with
+        this.setTokens(accessToken, refreshToken, this.tokenStorage.kind === 'local');
+        this.scheduleTokenRefresh(accessToken, expiresIn);
         SessionSecurityService.extendSession();
+        terminalLockService.release(user, accessToken);
 
         SecurityLogger.log({
-          type: 'login_success',
+          type: user.id === lockedByUserId ? 'pin_unlock_success' : 'cashier_switched',
           severity: 'low',
-          message: 'User successfully logged in',
-          details: { 
-            email: sanitizedCredentials.email,
-            userId: response.data.data.user.id
-          }
+          message: user.id === lockedByUserId ? 'Terminal unlocked with PIN' : 'Cashier switched with PIN',
+          details: { userId: user.id, previousUserId: lockedByUserId }
         });
       }
 
-      return response.data;
-    } catch (error: any) {
+      return response;
+    } catch (error) {
       SecurityLogger.log({
-        type: 'login_failure',
+        type: 'pin_unlock_failure',
         severity: 'medium',
-        message: 'Login attempt failed',
-        details: { 
-          email: sanitizedCredentials.email,
-          error: error.message
-        }
+        message: 'PIN unlock failed',
+        details: { userId: data.userId, error: error instanceof Error ? error.message : String(error) }
       });
 
-      // Increment backoff on failed login
       RateLimitService.incrementBackoff(rateLimitKey);
 
-      throw this.handleError(error);
+      throw error;
     }
   }
 
+  async setPin(data: SetPinData): Promise<ApiResponse> {
+    const response = await apiClient.put('/auth/pin', data);
+
+    SecurityLogger.log({
+      type: 'pin_changed',
+      severity: 'medium',
+      message: 'Terminal PIN changed',
+    });
+
+    return response;
+  }
+
   async register(data: RegisterData): Promise<ApiResponse<User>> {
-    try {
-      const response: AxiosResponse<ApiResponse<User>> = await this.api.post('/auth/register', data);
-      return response.data;
-    } catch (error: any) {
-      throw this.handleError(error);
-    }
+    assertPasswordPolicy(data.password, DEFAULT_PASSWORD_POLICY, 'password', { name: data.name, email: data.email });
+    assertTaxId(data.documentType, data.nit, data.dv);
+
+    return apiClient.post<User>('/auth/register', {
+      ...data,
+      nit: splitNit(data.nit).nit,
+      dv: data.documentType === TaxDocumentType.NIT ? data.dv : '',
+    });
   }
 
   async logout(): Promise<void> {
@@ -270,13 +429,17 @@ class AuthService {
     try {
       const refreshToken = this.getRefreshToken();
       if (refreshToken) {
-        await this.api.post('/auth/logout', { refreshToken });
+        await apiClient.post('/auth/logout', { refreshToken });
+      } else if (this.tokenStorage.isServerManaged) {
+        await apiClient.post('/auth/logout');
       }
     } catch (error) {
       // Continue with logout even if server request fails
       console.error('Error during server logout:', error);
     } finally {
+      sessionSyncService.broadcast({ type: 'logout' });
       this.clearTokens();
+      terminalLockService.clear();
       CSRFService.removeCSRFToken();
       SessionSecurityService.destroySession();
     }
@@ -284,97 +447,341 @@ class AuthService {
 
   async refreshToken(): Promise<string> {
     const refreshToken = this.getRefreshToken();
+    const isServerManaged = this.tokenStorage.isServerManaged;
     
-    if (!refreshToken) {
-      throw new Error('No refresh token available');
+    if (!refreshToken && !isServerManaged) {
+      throw new AuthError('No refresh token available');
     }
 
     try {
+      // Bypasses the shared client so a failing refresh can't trigger another refresh.
+      // With httpOnly cookies the browser sends the refresh token for us.
       const response: AxiosResponse<RefreshTokenResponse> = await axios.post(
-        `${this.baseURL}/auth/refresh`,
-        { refreshToken }
+        `${apiClient.baseURL}/auth/refresh`,
+        isServerManaged ? {} : { refreshToken },
+        { withCredentials: isServerManaged }
       );
 
       if (response.data.success) {
-        const { accessToken } = response.data.data;
+        const { accessToken, expiresIn } = response.data.data;
         this.setAccessToken(accessToken);
+        this.scheduleTokenRefresh(accessToken, expiresIn);
+        // With cookie storage a reload restores the session through this refresh
+        SessionSecurityService.resumeSession();
         return accessToken;
       }
 
-      throw new Error('Failed to refresh token');
-    } catch (error: any) {
-      this.clearTokens();
-      throw this.handleError(error);
+      throw new AuthError('Failed to refresh token');
+    } catch (error) {
+      const apiError = normalizeApiError(error);
+
+      // Keep the tokens on network failures so the refresh can be retried
+      if (!(apiError instanceof NetworkError)) {
+        this.clearTokens();
+      }
+      throw apiError;
     }
   }
 
   async verifyToken(): Promise<boolean> {
     try {
-      const response = await this.api.get('/auth/verify');
-      return response.data.success;
-    } catch (error) {
+      const response = await apiClient.get('/auth/verify');
+      return response.success;
+    } catch {
       return false;
     }
   }
 
   async getCurrentUser(): Promise<User> {
+    const response = await apiClient.get<User>('/auth/me');
+    return response.data!;
+  }
+
+  async getCurrentCompany(): Promise<Company> {
+    const response = await apiClient.get<Company>('/company');
+    return response.data!;
+  }
+
+  // Email verification
+  async verifyEmail(token: string): Promise<EmailVerificationResult> {
     try {
-      const response: AxiosResponse<ApiResponse<User>> = await this.api.get('/auth/me');
-      return response.data.data!;
-    } catch (error: any) {
-      throw this.handleError(error);
+      const response = await apiClient.post<{ email: string }>('/auth/verify-email', { token });
+      return { status: 'valid', email: response.data?.email };
+    } catch (error) {
+      const status = getTokenStatus(error);
+      if (status) {
+        return { status };
+      }
+      throw error;
     }
   }
 
+  async resendVerificationEmail(email: string): Promise<ApiResponse> {
+    return apiClient.post('/auth/verify-email/resend', { email: SanitizationService.sanitizeEmail(email) });
+  }
+
   // Password management
   async requestPasswordReset(data: PasswordResetRequest): Promise<ApiResponse> {
+    return apiClient.post('/auth/forgot-password', data);
+  }
+
+  /**
+   * Checks an emailed reset token before showing the form. Expired, used and
+   * unknown tokens resolve to a status instead of throwing; only failures to
+   * reach the server are rethrown.
+   */
+  async validateResetToken(token: string): Promise<PasswordResetTokenInfo> {
     try {
-      const response: AxiosResponse<ApiResponse> = await this.api.post('/auth/forgot-password', data);
-      return response.data;
-    } catch (error: any) {
-      throw this.handleError(error);
+      const response = await apiClient.get<PasswordResetTokenInfo>(
+        `/auth/reset-password/${encodeURIComponent(token)}`
+      );
+      return response.data ?? { status: 'invalid' };
+    } catch (error) {
+      const status = getTokenStatus(error);
+      if (status) {
+        return { status };
+      }
+      throw error;
     }
   }
 
-  async resetPassword(data: PasswordReset): Promise<ApiResponse> {
+  async resetPassword(data: PasswordReset, policy: PasswordPolicy = DEFAULT_PASSWORD_POLICY): Promise<ApiResponse> {
+    assertPasswordPolicy(data.password, policy, 'password');
+    return apiClient.post('/auth/reset-password', data);
+  }
+
+  async changePassword(
+    data: ChangePasswordData,
+    policy: PasswordPolicy = DEFAULT_PASSWORD_POLICY,
+    context: PasswordContext = {}
+  ): Promise<ChangePasswordResult> {
+    assertPasswordPolicy(data.newPassword, policy, 'newPassword', context);
+    const response = await apiClient.post('/auth/change-password', data);
+
+    SecurityLogger.log({
+      type: 'password_changed',
+      severity: 'medium',
+      message: 'Password changed',
+    });
+
+    // Anyone holding the old password may still be signed in elsewhere. The
+    // password is already changed, so a failure here must not look like the
+    // change itself failed
     try {
-      const response: AxiosResponse<ApiResponse> = await this.api.post('/auth/reset-password', data);
-      return response.data;
-    } catch (error: any) {
-      throw this.handleError(error);
+      await this.revokeOtherSessions();
+      return { response, otherSessionsRevoked: true };
+    } catch (error) {
+      console.error('Error revoking other sessions:', error);
+      return { response, otherSessionsRevoked: false };
     }
   }
 
-  async changePassword(data: ChangePasswordData): Promise<ApiResponse> {
+  // Profile
+  /**
+   * Saves name and email. An email change isn't applied right away: the
+   * server keeps it in `pendingEmail` until the user confirms it.
+   */
+  async updateProfile(data: UpdateProfileData): Promise<User> {
+    const response = await apiClient.put<User>('/auth/profile', {
+      name: SanitizationService.sanitizeInput(data.name),
+      email: SanitizationService.sanitizeEmail(data.email),
+    });
+
+    SecurityLogger.log({
+      type: 'profile_updated',
+      severity: 'low',
+      message: 'Profile updated',
+      details: { emailChangeRequested: Boolean(response.data?.pendingEmail) },
+    });
+
+    return response.data!;
+  }
+
+  async resendEmailChange(): Promise<ApiResponse> {
+    return apiClient.post('/auth/profile/email/resend');
+  }
+
+  async cancelEmailChange(): Promise<User> {
+    const response = await apiClient.delete<User>('/auth/profile/email');
+    return response.data!;
+  }
+
+  async uploadAvatar(image: Blob): Promise<User> {
+    const formData = new FormData();
+    formData.append('avatar', image, 'avatar.jpg');
+
+    const response = await apiClient.post<User>('/auth/profile/avatar', formData, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+    });
+    return response.data!;
+  }
+
+  async removeAvatar(): Promise<User> {
+    const response = await apiClient.delete<User>('/auth/profile/avatar');
+    return response.data!;
+  }
+
+  // Session keep-alive
+  /**
+   * Keep-alive for the session warning. Confirms the session with the server,
+   * falling back to a forced token refresh when the API has no keep-alive
+   * endpoint, and only then resets the idle timers in every tab.
+   */
+  async extendSession(): Promise<void> {
     try {
-      const response: AxiosResponse<ApiResponse> = await this.api.post('/auth/change-password', data);
-      return response.data;
-    } catch (error: any) {
-      throw this.handleError(error);
+      await apiClient.post('/auth/session/keep-alive');
+    } catch (error) {
+      if (!(error instanceof ApiError && error.status === 404)) {
+        throw error;
+      }
+      await this.handleTokenRefresh();
     }
+
+    SessionSecurityService.extendSession();
+    window.dispatchEvent(new CustomEvent('session-extended'));
+
+    SecurityLogger.log({
+      type: 'session_extended',
+      severity: 'low',
+      message: 'Session extended from the expiry warning',
+    });
+  }
+
+  // Active sessions
+  async getSessions(): Promise<ActiveSession[]> {
+    const response = await apiClient.get<ActiveSession[]>('/auth/sessions');
+    return response.data ?? [];
+  }
+
+  async revokeSession(sessionId: string): Promise<ApiResponse> {
+    const response = await apiClient.delete(`/auth/sessions/${sessionId}`);
+
+    SecurityLogger.log({
+      type: 'session_revoked',
+      severity: 'medium',
+      message: 'Session revoked',
+      details: { sessionId }
+    });
+
+    return response;
+  }
+
+  async revokeOtherSessions(): Promise<ApiResponse> {
+    const response = await apiClient.post('/auth/sessions/revoke-others');
+
+    SecurityLogger.log({
+      type: 'session_revoked',
+      severity: 'medium',
+      message: 'All other sessions revoked',
+    });
+
+    return response;
+  }
+
+  // Two-factor enrollment
+  async setupTwoFactor(): Promise<ApiResponse<TwoFactorSetup>> {
+    return apiClient.post<TwoFactorSetup>('/auth/2fa/setup');
+  }
+
+  async enableTwoFactor(code: string): Promise<ApiResponse<TwoFactorEnableResponse>> {
+    const response = await apiClient.post<TwoFactorEnableResponse>('/auth/2fa/enable', { code });
+
+    SecurityLogger.log({
+      type: 'two_factor_enabled',
+      severity: 'medium',
+      message: 'Two-factor authentication enabled',
+    });
+
+    return response;
+  }
+
+  async disableTwoFactor(data: TwoFactorDisableData): Promise<ApiResponse> {
+    const response = await apiClient.post('/auth/2fa/disable', data);
+
+    SecurityLogger.log({
+      type: 'two_factor_disabled',
+      severity: 'high',
+      message: 'Two-factor authentication disabled',
+    });
+
+    return response;
   }
 
   // Token management
-  private setTokens(accessToken: string, refreshToken: string): void {
-    localStorage.setItem(this.tokenKey, accessToken);
-    localStorage.setItem(this.refreshTokenKey, refreshToken);
+  private setTokens(accessToken: string, refreshToken: string, rememberMe: boolean): void {
+    const storage = resolveTokenStorage(rememberMe);
+
+    // Don't leave tokens behind in the strategy we are switching away from
+    if (storage.kind !== this.tokenStorage.kind) {
+      this.tokenStorage.clear();
+    }
+
+    this.tokenStorage = storage;
+    this.tokenStorage.setAccessToken(accessToken);
+    if (refreshToken) {
+      this.tokenStorage.setRefreshToken(refreshToken);
+    }
   }
 
   private setAccessToken(accessToken: string): void {
-    localStorage.setItem(this.tokenKey, accessToken);
+    this.tokenStorage.setAccessToken(accessToken);
   }
 
   getAccessToken(): string | null {
-    return localStorage.getItem(this.tokenKey);
+    return this.tokenStorage.getAccessToken();
   }
 
   private getRefreshToken(): string | null {
-    return localStorage.getItem(this.refreshTokenKey);
+    return this.tokenStorage.getRefreshToken();
   }
 
   private clearTokens(): void {
-    localStorage.removeItem(this.tokenKey);
-    localStorage.removeItem(this.refreshTokenKey);
+    this.tokenStorage.clear();
+    this.refreshScheduler.stop();
+  }
+
+  /**
+   * Refreshes ahead of expiry so in-flight work (e.g. a checkout) never hits
+   * a 401. `expiresIn` (seconds) is preferred over the JWT `exp` claim because
+   * it is immune to clock skew between the terminal and the server.
+   */
+  private scheduleTokenRefresh(accessToken: string, expiresIn?: number): void {
+    const expiresAt = expiresIn
+      ? Date.now() + expiresIn * 1000
+      : this.getTokenExpiration(accessToken)?.getTime();
+
+    if (expiresAt) {
+      this.refreshScheduler.schedule(expiresAt);
+    }
+  }
+
+  onTokenRefreshEvent(listener: TokenRefreshListener): () => void {
+    return this.refreshScheduler.subscribe(listener);
+  }
+
+  getTokenStorageKind(): TokenStorage['kind'] {
+    return this.tokenStorage.kind;
+  }
+
+  /**
+   * Recovers a session after a reload when the access token was not persisted
+   * (memory or httpOnly cookie storage) but the refresh token may still be valid.
+   */
+  async restoreSession(): Promise<boolean> {
+    if (this.isAuthenticated()) {
+      return true;
+    }
+
+    if (!this.tokenStorage.isServerManaged && !this.getRefreshToken()) {
+      return false;
+    }
+
+    try {
+      await this.handleTokenRefresh();
+      return this.isAuthenticated();
+    } catch {
+      return false;
+    }
   }
 
   // Token validation
@@ -418,19 +825,6 @@ class AuthService {
     return token ? this.isTokenValid(token) : false;
   }
 
-  // Error handling
-  private handleError(error: any): Error {
-    if (error.response?.data?.message) {
-      return new Error(error.response.data.message);
-    }
-    
-    if (error.message) {
-      return new Error(error.message);
-    }
-
-    return new Error('An unexpected error occurred');
-  }
-
   // Rate limiting helper
   private rateLimitAttempts = new Map<string, { count: number; resetTime: number }>();
 
@@ -456,5 +850,9 @@ class AuthService {
   }
 }
 
+export function isTwoFactorChallenge(result: LoginResult): result is TwoFactorChallengeResponse {
+  return 'challengeRequired' in result.data && result.data.challengeRequired === true;
+}
+
 export const authService = new AuthService();
 export default authService;
\ No newline at end of file
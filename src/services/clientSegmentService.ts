@@ -0,0 +1,174 @@
+import type {
+  ApiResponse,
+  ClientSegment,
+  SegmentDefinition,
+  SegmentRule,
+  SegmentRuleField
+} from '@/types';
+import { RfmSegment } from '@/types';
+import { formatCurrency } from '@/utils/format';
+import { apiClient } from './apiClient';
+import { ValidationError } from './apiErrors';
+import { findMunicipality } from './locationService';
+import { SanitizationService } from './securityService';
+
+/**
+ * Client segments: tag, municipality and RFM (recency, frequency,
+ * monetary) conditions combined with "all" or "any". Saved segments belong
+ * to the user who created them; the server evaluates them wherever a client
+ * list accepts `segmentId`.
+ */
+
+export const MAX_SEGMENT_RULES = 10;
+
+export const SEGMENT_FIELDS: { field: SegmentRuleField; label: string }[] = [
+  { field: 'tags', label: 'Etiquetas' },
+  { field: 'municipality', label: 'Municipio' },
+  { field: 'rfmSegment', label: 'Segmento RFM' },
+  { field: 'recencyDays', label: 'Días desde la última compra' },
+  { field: 'purchaseCount', label: 'Número de compras' },
+  { field: 'lifetimeValue', label: 'Total comprado' },
+];
+
+export const SEGMENT_OPERATOR_LABELS: Record<SegmentRule['operator'], string> = {
+  any: 'tiene alguna de',
+  all: 'tiene todas',
+  none: 'no tiene ninguna de',
+  in: 'es alguno de',
+  notIn: 'no es ninguno de',
+  gte: 'al menos',
+  lte: 'como máximo',
+};
+
+export const RFM_SEGMENT_LABELS: Record<RfmSegment, string> = {
+  [RfmSegment.CHAMPIONS]: 'Campeones',
+  [RfmSegment.LOYAL]: 'Leales',
+  [RfmSegment.POTENTIAL_LOYALIST]: 'Potencialmente leales',
+  [RfmSegment.NEW]: 'Nuevos',
+  [RfmSegment.NEEDS_ATTENTION]: 'Requieren atención',
+  [RfmSegment.AT_RISK]: 'En riesgo',
+  [RfmSegment.CANT_LOSE]: 'No se pueden perder',
+  [RfmSegment.HIBERNATING]: 'Hibernando',
+  [RfmSegment.LOST]: 'Perdidos',
+};
+
+export const EMPTY_SEGMENT: SegmentDefinition = { match: 'all', rules: [] };
+
+const FIELD_LABELS = Object.fromEntries(SEGMENT_FIELDS.map(({ field, label }) => [field, label])) as Record<
+  SegmentRuleField,
+  string
+>;
+
+/** A new rule with the field's most common operator */
+export function createSegmentRule(field: SegmentRuleField): SegmentRule {
+  switch (field) {
+    case 'tags':
+      return { field, operator: 'any', values: [] };
+    case 'municipality':
+      return { field, operator: 'in', values: [] };
+    case 'rfmSegment':
+      return { field, operator: 'in', values: [] };
+    case 'recencyDays':
+      return { field, operator: 'lte', value: 30 };
+    case 'purchaseCount':
+      return { field, operator: 'gte', value: 1 };
+    case 'lifetimeValue':
+      return { field, operator: 'gte', value: 0 };
+  }
+}
+
+export function isCompleteSegmentRule(rule: SegmentRule): boolean {
+  return 'values' in rule ? rule.values.length > 0 : Number.isFinite(rule.value) && rule.value >= 0;
+}
+
+/** Drops rules still being filled in; undefined when none is left */
+export function compactSegment(definition: SegmentDefinition): SegmentDefinition | undefined {
+  const rules = definition.rules.filter(isCompleteSegmentRule);
+  return rules.length > 0 ? { match: definition.match, rules } : undefined;
+}
+
+function describeValues(rule: SegmentRule): string {
+  switch (rule.field) {
+    case 'tags':
+      return rule.values.join(', ');
+    case 'municipality':
+      return rule.values.map((code) => findMunicipality(code)?.name ?? code).join(', ');
+    case 'rfmSegment':
+      return rule.values.map((segment) => RFM_SEGMENT_LABELS[segment]).join(', ');
+    case 'lifetimeValue':
+      return formatCurrency(rule.value);
+    default:
+      return rule.value.toLocaleString('es-CO');
+  }
+}
+
+/** e.g. "Etiquetas tiene alguna de vip, mayorista" */
+export function describeSegmentRule(rule: SegmentRule): string {
+  return `${FIELD_LABELS[rule.field]} ${SEGMENT_OPERATOR_LABELS[rule.operator]} ${describeValues(rule)}`;
+}
+
+export function describeSegment(definition: SegmentDefinition): string {
+  return definition.rules.map(describeSegmentRule).join(definition.match === 'all' ? ' y ' : ' o ');
+}
+
+function assertSegment(name: string, definition: SegmentDefinition): SegmentDefinition {
+  const compact = compactSegment(definition);
+  const problem = !name.trim()
+    ? { field: 'name', message: 'Ponle un nombre al segmento' }
+    : !compact
+      ? { field: 'rules', message: 'Agrega al menos una condición completa' }
+      : compact.rules.length > MAX_SEGMENT_RULES
+        ? { field: 'rules', message: `Un segmento puede tener hasta ${MAX_SEGMENT_RULES} condiciones` }
+        : null;
+
+  if (problem) {
+    throw new ValidationError(problem.message, {
+      status: 422,
+      code: 'INVALID_SEGMENT',
+      errors: [{ code: 'INVALID_SEGMENT', ...problem }],
+    });
+  }
+  return compact!;
+}
+
+class ClientSegmentService {
+  /** The current user's segments, with up-to-date counts */
+  async list(): Promise<ClientSegment[]> {
+    const response = await apiClient.get<ClientSegment[]>('/clients/segments');
+    return response.data ?? [];
+  }
+
+  async create(name: string, definition: SegmentDefinition): Promise<ClientSegment> {
+    const response = await apiClient.post<ClientSegment>('/clients/segments', {
+      name: SanitizationService.sanitizeInput(name),
+      definition: assertSegment(name, definition),
+    });
+    return response.data!;
+  }
+
+  async update(segmentId: string, name: string, definition: SegmentDefinition): Promise<ClientSegment> {
+    const response = await apiClient.put<ClientSegment>(`/clients/segments/${segmentId}`, {
+      name: SanitizationService.sanitizeInput(name),
+      definition: assertSegment(name, definition),
+    });
+    return response.data!;
+  }
+
+  async remove(segmentId: string): Promise<ApiResponse> {
+    return apiClient.delete(`/clients/segments/${segmentId}`);
+  }
+
+  /** Clients matching unsaved conditions, for the builder's live count */
+  async count(definition: SegmentDefinition, signal?: AbortSignal): Promise<number> {
+    const compact = compactSegment(definition);
+    if (!compact) {
+      return 0;
+    }
+
+    const response = await apiClient.post<{ count: number }>('/clients/segments/count', { definition: compact }, { signal });
+    return response.data?.count ?? 0;
+  }
+}
+
+export const clientSegmentService = new ClientSegmentService();
+export default clientSegmentService;
@@ -0,0 +1,168 @@
+import * as yup from 'yup';
+import type {
+  ApiResponse,
+  Client,
+  ClientActivity,
+  ClientFilters,
+  ClientFormData,
+  ClientStats,
+  PaginatedResponse,
+  PaginationParams
+} from '@/types';
+import { TaxDocumentType, TaxRegime } from '@/types';
+import { apiClient } from './apiClient';
+import { EMPTY_ADDRESS, addressSchema, isBlankAddress } from './locationService';
+import { COLOMBIA_CALLING_CODE, isBlankPhone, phoneSchema } from './phoneService';
+import { SanitizationService } from './securityService';
+import { assertTaxId, nitDvSchema, splitNit, taxIdSchema } from './taxIdService';
+
+export const TAX_REGIME_LABELS: Record<TaxRegime, string> = {
+  [TaxRegime.IVA_RESPONSIBLE]: 'Responsable de IVA',
+  [TaxRegime.NOT_IVA_RESPONSIBLE]: 'No responsable de IVA',
+  [TaxRegime.SIMPLE]: 'Régimen Simple (SIMPLE)',
+  [TaxRegime.SPECIAL]: 'Régimen Tributario Especial',
+};
+
+export const MAX_CLIENT_TAGS = 10;
+
+export const EMPTY_CLIENT_FORM: ClientFormData = {
+  documentType: TaxDocumentType.CC,
+  documentNumber: '',
+  dv: '',
+  name: '',
+  email: '',
+  phone: `+${COLOMBIA_CALLING_CODE}`,
+  address: EMPTY_ADDRESS,
+  taxRegime: TaxRegime.NOT_IVA_RESPONSIBLE,
+  tags: [],
+};
+
+/** Lower-cased, trimmed and without duplicates, so filters match reliably */
+export function normalizeTags(tags: string[]): string[] {
+  return [...new Set(tags.map((tag) => tag.trim().toLowerCase()).filter(Boolean))];
+}
+
+export function clientSchema() {
+  return yup.object({
+    documentType: yup
+      .mixed<TaxDocumentType>()
+      .oneOf(Object.values(TaxDocumentType), 'Selecciona un tipo de documento')
+      .required('El tipo de documento es requerido'),
+    documentNumber: taxIdSchema(),
+    dv: nitDvSchema('documentNumber'),
+    name: yup
+      .string()
+      .trim()
+      .required('El nombre es requerido')
+      .min(2, 'El nombre debe tener al menos 2 caracteres')
+      .max(120, 'El nombre no puede superar 120 caracteres'),
+    email: yup.string().trim().default('').email('Debe ser un correo electrónico válido'),
+    phone: phoneSchema({ optional: true }),
+    address: addressSchema({ optional: true }),
+    taxRegime: yup
+      .mixed<TaxRegime>()
+      .oneOf(Object.values(TaxRegime), 'Selecciona un régimen')
+      .required('El régimen es requerido'),
+    tags: yup
+      .array(yup.string().required().max(30, 'Cada etiqueta puede tener hasta 30 caracteres'))
+      .default([])
+      .max(MAX_CLIENT_TAGS, `Puedes asignar hasta ${MAX_CLIENT_TAGS} etiquetas`),
+  });
+}
+
+/** Form values for editing an existing client */
+export function toClientFormData(client: Client): ClientFormData {
+  return {
+    documentType: client.documentType,
+    documentNumber: client.documentNumber,
+    dv: client.dv ?? '',
+    name: client.name,
+    email: client.email ?? '',
+    phone: client.phone ?? EMPTY_CLIENT_FORM.phone,
+    address: client.address ?? EMPTY_ADDRESS,
+    taxRegime: client.taxRegime,
+    tags: client.tags,
+  };
+}
+
+/**
+ * Request body for a client. Blank optional fields are sent as null so an
+ * edit can clear them.
+ */
+export function toClientPayload(data: ClientFormData) {
+  assertTaxId(data.documentType, data.documentNumber, data.dv, { number: 'documentNumber', dv: 'dv' });
+
+  const email = data.email.trim();
+  return {
+    documentType: data.documentType,
+    documentNumber: splitNit(data.documentNumber).nit,
+    dv: data.documentType === TaxDocumentType.NIT ? data.dv : null,
+    name: SanitizationService.sanitizeInput(data.name),
+    email: email ? SanitizationService.sanitizeEmail(email) : null,
+    phone: isBlankPhone(data.phone) ? null : data.phone,
+    address: isBlankAddress(data.address) ? null : data.address,
+    taxRegime: data.taxRegime,
+    tags: normalizeTags(data.tags),
+  };
+}
+
+/** Customer directory */
+class ClientService {
+  /** Builder conditions travel as JSON in the `segment` query parameter */
+  async list(
+    pagination: PaginationParams,
+    filters: ClientFilters = {},
+    signal?: AbortSignal
+  ): Promise<PaginatedResponse<Client>> {
+    const { segment, ...params } = filters;
+    return apiClient.getPaginated<Client>('/clients', pagination, {
+      params: { ...params, segment: segment ? JSON.stringify(segment) : undefined },
+      signal,
+    });
+  }
+
+  /** Every tag in use, for filters and suggestions */
+  async listTags(): Promise<string[]> {
+    const response = await apiClient.get<string[]>('/clients/tags');
+    return response.data ?? [];
+  }
+
+  async get(clientId: string): Promise<Client> {
+    const response = await apiClient.get<Client>(`/clients/${clientId}`);
+    return response.data!;
+  }
+
+  async create(data: ClientFormData): Promise<Client> {
+    const response = await apiClient.post<Client>('/clients', toClientPayload(data));
+    return response.data!;
+  }
+
+  async update(clientId: string, data: ClientFormData): Promise<Client> {
+    const response = await apiClient.put<Client>(`/clients/${clientId}`, toClientPayload(data));
+    return response.data!;
+  }
+
+  async remove(clientId: string): Promise<ApiResponse> {
+    return apiClient.delete(`/clients/${clientId}`);
+  }
+
+  async getStats(clientId: string): Promise<ClientStats> {
+    const response = await apiClient.get<ClientStats>(`/clients/${clientId}/stats`);
+    return response.data!;
+  }
+
+  /** Sales, payments and notes, newest first */
+  async getActivity(clientId: string, pagination: PaginationParams): Promise<PaginatedResponse<ClientActivity>> {
+    return apiClient.getPaginated<ClientActivity>(`/clients/${clientId}/activity`, pagination);
+  }
+
+  async addNote(clientId: string, text: string): Promise<ClientActivity> {
+    const response = await apiClient.post<ClientActivity>(`/clients/${clientId}/notes`, {
+      text: SanitizationService.sanitizeInput(text),
+    });
+    return response.data!;
+  }
+}
+
+export const clientService = new ClientService();
+export default clientService;
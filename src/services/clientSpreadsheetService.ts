@@ -0,0 +1,308 @@
+import * as yup from 'yup';
+import type {
+  Client,
+  ClientColumnMapping,
+  ClientDuplicateStrategy,
+  ClientFilters,
+  ClientFormData,
+  ClientImportError,
+  ClientImportField,
+  ClientImportResult,
+  ClientImportRow,
+  PaginationParams
+} from '@/types';
+import { TaxDocumentType, TaxRegime } from '@/types';
+import type { CsvColumn } from '@/utils/download';
+import { formatDate, toSearchKey } from '@/utils/format';
+import { apiClient } from './apiClient';
+import {
+  EMPTY_CLIENT_FORM,
+  TAX_REGIME_LABELS,
+  clientSchema,
+  clientService,
+  normalizeTags,
+  toClientPayload
+} from './clientService';
+import { matchMunicipality, resolveAddress } from './locationService';
+import { COLOMBIA_CALLING_CODE, formatPhone, splitPhone, toE164 } from './phoneService';
+import { exportSpreadsheet } from './spreadsheetService';
+import type { ParsedSpreadsheet, SpreadsheetFormat, SpreadsheetRow } from './spreadsheetService';
+import {
+  TAX_DOCUMENT_ABBREVIATIONS,
+  TAX_DOCUMENT_LABELS,
+  calculateNitDv,
+  normalizeTaxId,
+  splitNit
+} from './taxIdService';
+
+/**
+ * Bulk client import and export. Rows are mapped and validated in the
+ * browser with the same schema as the client form; the server then checks
+ * them against existing clients, first as a dry run.
+ */
+
+export interface ClientImportFieldDefinition {
+  field: ClientImportField;
+  label: string;
+  required?: boolean;
+  /** Other headers recognized when guessing the mapping */
+  aliases: string[];
+}
+
+export const MAX_IMPORT_ROWS = 5000;
+
+// Labels double as export headers, so an exported file imports unchanged
+export const CLIENT_IMPORT_FIELDS: ClientImportFieldDefinition[] = [
+  { field: 'name', label: 'Nombre', required: true, aliases: ['nombre o razon social', 'razon social', 'cliente', 'nombre completo'] },
+  { field: 'documentType', label: 'Tipo de documento', aliases: ['tipo documento', 'tipo doc', 'tipo de identificacion', 'tipo id'] },
+  {
+    field: 'documentNumber',
+    label: 'Número de documento',
+    required: true,
+    aliases: ['documento', 'numero documento', 'identificacion', 'numero de identificacion', 'nit', 'cedula', 'cc'],
+  },
+  { field: 'dv', label: 'DV', aliases: ['digito de verificacion', 'digito verificacion'] },
+  { field: 'email', label: 'Correo electrónico', aliases: ['correo', 'email', 'e mail'] },
+  { field: 'phone', label: 'Teléfono', aliases: ['telefono', 'celular', 'movil', 'whatsapp'] },
+  { field: 'street', label: 'Dirección', aliases: ['direccion'] },
+  { field: 'details', label: 'Complemento', aliases: ['detalles', 'complemento direccion'] },
+  { field: 'department', label: 'Departamento', aliases: ['depto', 'codigo departamento'] },
+  { field: 'municipality', label: 'Municipio', aliases: ['ciudad', 'codigo municipio'] },
+  { field: 'taxRegime', label: 'Régimen tributario', aliases: ['regimen', 'responsabilidad iva'] },
+  { field: 'tags', label: 'Etiquetas', aliases: ['etiqueta', 'tags'] },
+];
+
+const FIELD_LABELS = Object.fromEntries(
+  CLIENT_IMPORT_FIELDS.map(({ field, label }) => [field, label])
+) as Record<ClientImportField, string>;
+
+const DOCUMENT_TYPE_ALIASES: Record<string, TaxDocumentType> = {
+  cedula: TaxDocumentType.CC,
+  'cedula de ciudadania': TaxDocumentType.CC,
+  'cedula de extranjeria': TaxDocumentType.CE,
+  pasaporte: TaxDocumentType.PASSPORT,
+  pp: TaxDocumentType.PASSPORT,
+};
+
+const TAX_REGIME_ALIASES: Record<string, TaxRegime> = {
+  responsable: TaxRegime.IVA_RESPONSIBLE,
+  'no responsable': TaxRegime.NOT_IVA_RESPONSIBLE,
+  simple: TaxRegime.SIMPLE,
+  especial: TaxRegime.SPECIAL,
+};
+
+const schema = clientSchema();
+
+function findByKey<T extends string>(text: string, candidates: Record<T, string>[], aliases: Record<string, T>): T | undefined {
+  const key = toSearchKey(text);
+  for (const labels of candidates) {
+    const match = (Object.keys(labels) as T[]).find((value) => toSearchKey(labels[value]) === key || toSearchKey(value) === key);
+    if (match) {
+      return match;
+    }
+  }
+  return aliases[key];
+}
+
+/** Matches headers to fields by label or a known alias; unmatched fields stay unmapped */
+export function guessColumnMapping(headers: string[]): ClientColumnMapping {
+  const keys = headers.map(toSearchKey);
+  const mapping: ClientColumnMapping = {};
+
+  for (const { field, label, aliases } of CLIENT_IMPORT_FIELDS) {
+    const names = [label, ...aliases].map(toSearchKey);
+    const index = keys.findIndex((key, column) => names.includes(key) && !Object.values(mapping).includes(column));
+    if (index !== -1) {
+      mapping[field] = index;
+    }
+  }
+
+  return mapping;
+}
+
+// Yup paths of the form schema, back to the spreadsheet fields they came from
+function toImportField(path: string | undefined): ClientImportField | undefined {
+  if (!path) return undefined;
+  if (path.startsWith('address.')) {
+    const key = path.slice('address.'.length);
+    if (key === 'departmentCode') return 'department';
+    if (key === 'municipalityCode') return 'municipality';
+    return key as ClientImportField;
+  }
+  return path.replace(/\[\d+\]$/, '') as ClientImportField;
+}
+
+function toFormData(row: SpreadsheetRow, mapping: ClientColumnMapping) {
+  const cell = (field: ClientImportField) => {
+    const column = mapping[field];
+    return column === undefined ? '' : (row.cells[column] ?? '').trim();
+  };
+  const errors: ClientImportError[] = [];
+  const error = (field: ClientImportField, message: string) => errors.push({ rowNumber: row.rowNumber, field, message });
+
+  // A hyphenated number is taken as a NIT with its DV when no type is given
+  const rawNumber = cell('documentNumber');
+  const typeText = cell('documentType');
+  const documentType = typeText
+    ? findByKey(typeText, [TAX_DOCUMENT_ABBREVIATIONS, TAX_DOCUMENT_LABELS], DOCUMENT_TYPE_ALIASES)
+    : rawNumber.includes('-') ? TaxDocumentType.NIT : TaxDocumentType.CC;
+  if (!documentType) {
+    error('documentType', `Tipo de documento "${typeText}" no reconocido`);
+  }
+
+  let documentNumber = normalizeTaxId(rawNumber);
+  let dv = cell('dv');
+  if (documentType === TaxDocumentType.NIT) {
+    const split = splitNit(rawNumber);
+    documentNumber = split.nit;
+    dv = dv || split.dv || '';
+    // Spreadsheets often leave the DV out; it can always be derived
+    if (!dv && /^\d{1,15}$/.test(documentNumber)) {
+      dv = calculateNitDv(documentNumber);
+    }
+  }
+
+  const phoneText = cell('phone');
+  const { callingCode, national } = splitPhone(/^57\d{10}$/.test(phoneText) ? `+${phoneText}` : phoneText);
+  const phone = toE164(callingCode || COLOMBIA_CALLING_CODE, national);
+
+  const municipalityText = cell('municipality');
+  const municipality = matchMunicipality(municipalityText, cell('department'));
+  if (municipalityText && !municipality) {
+    error('municipality', `No se encontró el municipio "${municipalityText}"; agrega el departamento si el nombre se repite`);
+  }
+  const address = resolveAddress({
+    street: cell('street'),
+    details: cell('details'),
+    departmentCode: municipality?.departmentCode,
+    municipalityCode: municipality?.code,
+  });
+
+  const regimeText = cell('taxRegime');
+  const taxRegime = regimeText
+    ? findByKey(regimeText, [TAX_REGIME_LABELS], TAX_REGIME_ALIASES)
+    : EMPTY_CLIENT_FORM.taxRegime;
+  if (!taxRegime) {
+    error('taxRegime', `Régimen "${regimeText}" no reconocido`);
+  }
+
+  const data: ClientFormData = {
+    documentType: documentType ?? EMPTY_CLIENT_FORM.documentType,
+    documentNumber,
+    dv,
+    name: cell('name'),
+    email: cell('email'),
+    phone,
+    address,
+    taxRegime: taxRegime ?? EMPTY_CLIENT_FORM.taxRegime,
+    tags: normalizeTags(cell('tags').split(/[,;|]/)),
+  };
+
+  return { data, errors };
+}
+
+/**
+ * Maps every row and validates it like the client form would. Rows that
+ * repeat a document earlier in the file are flagged too.
+ */
+export function buildImportRows(sheet: ParsedSpreadsheet, mapping: ClientColumnMapping): ClientImportRow[] {
+  const seen = new Map<string, number>();
+
+  return sheet.rows.map((row) => {
+    const { data, errors } = toFormData(row, mapping);
+
+    try {
+      Object.assign(data, schema.validateSync(data, { abortEarly: false }));
+    } catch (error) {
+      if (!(error instanceof yup.ValidationError)) throw error;
+      const fieldErrors = error.inner.length > 0 ? error.inner : [error];
+      for (const item of fieldErrors) {
+        const field = toImportField(item.path);
+        // Errors already reported while mapping say more than the schema's
+        if (!errors.some((existing) => existing.field === field)) {
+          errors.push({ rowNumber: row.rowNumber, field, message: item.message });
+        }
+      }
+    }
+
+    const key = `${data.documentType}:${data.documentNumber}`;
+    const firstRow = seen.get(key);
+    if (data.documentNumber && firstRow !== undefined) {
+      errors.push({
+        rowNumber: row.rowNumber,
+        field: 'documentNumber',
+        message: `Documento repetido; ya aparece en la fila ${firstRow}`,
+      });
+    } else if (data.documentNumber) {
+      seen.set(key, row.rowNumber);
+    }
+
+    return { rowNumber: row.rowNumber, data, errors };
+  });
+}
+
+export function getImportFieldLabel(field: ClientImportField): string {
+  return FIELD_LABELS[field];
+}
+
+const EXPORT_COLUMNS: CsvColumn<Client>[] = [
+  { header: FIELD_LABELS.name, value: (client) => client.name },
+  { header: FIELD_LABELS.documentType, value: (client) => TAX_DOCUMENT_ABBREVIATIONS[client.documentType] },
+  { header: FIELD_LABELS.documentNumber, value: (client) => client.documentNumber },
+  { header: FIELD_LABELS.dv, value: (client) => client.dv },
+  { header: FIELD_LABELS.email, value: (client) => client.email },
+  { header: FIELD_LABELS.phone, value: (client) => formatPhone(client.phone) },
+  { header: FIELD_LABELS.street, value: (client) => client.address?.street },
+  { header: FIELD_LABELS.details, value: (client) => client.address?.details },
+  { header: FIELD_LABELS.department, value: (client) => client.address?.departmentName },
+  { header: FIELD_LABELS.municipality, value: (client) => client.address?.municipalityName },
+  { header: FIELD_LABELS.taxRegime, value: (client) => TAX_REGIME_LABELS[client.taxRegime] },
+  { header: FIELD_LABELS.tags, value: (client) => client.tags.join(', ') },
+  { header: 'Creado', value: (client) => formatDate(client.createdAt, { dateStyle: 'short' }) },
+];
+
+const EXPORT_PAGE_SIZE = 100;
+
+class ClientSpreadsheetService {
+  /**
+   * Sends the valid rows. With `dryRun` the server only reports what it
+   * would create, update or skip.
+   */
+  async importRows(
+    rows: ClientImportRow[],
+    options: { dryRun: boolean; onDuplicate: ClientDuplicateStrategy }
+  ): Promise<ClientImportResult> {
+    const response = await apiClient.post<ClientImportResult>(
+      '/clients/import',
+      {
+        ...options,
+        clients: rows.map((row) => ({ rowNumber: row.rowNumber, ...toClientPayload(row.data) })),
+      },
+      { timeout: 120000 }
+    );
+    return response.data!;
+  }
+
+  /** Downloads every client matching the filters, not just the visible page */
+  async exportList(
+    filters: ClientFilters,
+    sort: Pick<PaginationParams, 'sortBy' | 'sortOrder'>,
+    format: SpreadsheetFormat
+  ): Promise<void> {
+    const clients: Client[] = [];
+    let page = 1;
+    let hasNext = true;
+
+    while (hasNext) {
+      const result = await clientService.list({ ...sort, page, limit: EXPORT_PAGE_SIZE }, filters);
+      clients.push(...result.data);
+      hasNext = result.pagination.hasNext;
+      page++;
+    }
+
+    await exportSpreadsheet(clients, EXPORT_COLUMNS, `clientes-${new Date().toISOString().slice(0, 10)}`, format);
+  }
+}
+
+export const clientSpreadsheetService = new ClientSpreadsheetService();
+export default clientSpreadsheetService;
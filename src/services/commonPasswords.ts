@@ -0,0 +1,31 @@
+/**
+ * Offline list of the most common passwords seen in public breach dumps,
+ * plus frequent Spanish/Colombian variants. Compared case-insensitively.
+ */
+export const COMMON_PASSWORDS: ReadonlySet<string> = new Set([
+  '123456', '123456789', '12345678', '12345', '1234567', '1234567890', '123123',
+  '111111', '000000', '654321', '666666', '121212', '112233', '123321', '7777777',
+  '88888888', '987654321', '1q2w3e4r', '1q2w3e4r5t', '1qaz2wsx', 'qwerty', 'qwerty123',
+  'qwertyuiop', 'asdfgh', 'asdfghjkl', 'zxcvbnm', 'qazwsx', 'abc123', 'abcd1234',
+  'a1b2c3d4', 'aa123456', 'password', 'password1', 'password123', 'passw0rd', 'p@ssw0rd',
+  'p@ssword', 'pass1234', 'letmein', 'welcome', 'welcome1', 'welcome123', 'admin',
+  'admin123', 'admin1234', 'administrator', 'root', 'toor', 'login', 'master',
+  'secret', 'changeme', 'default', 'guest', 'test', 'test123', 'testing', 'iloveyou',
+  'sunshine', 'princess', 'football', 'baseball', 'soccer', 'dragon', 'monkey',
+  'shadow', 'superman', 'batman', 'trustno1', 'starwars', 'michael', 'jennifer',
+  'jordan23', 'hunter2', 'freedom', 'whatever', 'qwe123', 'zaq12wsx', 'q1w2e3r4',
+  'q1w2e3r4t5', 'mustang', 'access', 'flower', 'hello', 'hello123', 'charlie',
+  'donald', 'loveme', 'lovely', 'computer', 'internet', 'samsung', 'google',
+  'contraseña', 'contrasena', 'contrasena1', 'contraseña1', 'contrasena123',
+  'clave', 'clave123', 'miclave', 'micontraseña', 'micontrasena', 'colombia',
+  'colombia1', 'colombia123', 'bogota', 'bogota123', 'medellin', 'medellin123',
+  'cali123', 'barranquilla', 'nacional', 'millonarios', 'america', 'junior',
+  'teamo', 'teamo123', 'tequiero', 'amor', 'amor123', 'amorcito', 'mariposa',
+  'princesa', 'corazon', 'estrella', 'angelito', 'familia', 'familia123', 'dios',
+  'diosesamor', 'jesus', 'jesus123', 'maria', 'mariana', 'daniela', 'valentina',
+  'alejandro', 'santiago', 'sebastian', 'camila', 'andrea', 'carolina', 'futbol',
+  'futbol123', 'hola', 'hola123', 'holamundo', 'qwerty1', 'abc12345', 'abcdef',
+  'abcdefg', 'abcdefgh', 'mercalo', 'mercalo123', 'mercalopos', 'nequi', 'nequi123',
+  'tienda', 'tienda123', 'negocio', 'negocio123', 'ventas', 'ventas123', 'caja',
+  'caja123', 'cajero', 'cajero123', 'usuario', 'usuario123', 'empresa', 'empresa123',
+]);
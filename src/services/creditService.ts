@@ -0,0 +1,188 @@
+import * as yup from 'yup';
+import type {
+  AgingBucket,
+  CreditAccount,
+  CreditAccountFilters,
+  CreditAging,
+  CreditChargeData,
+  CreditMovement,
+  CreditPaymentData,
+  CreditPortfolioSummary,
+  CreditStatement,
+  PaginatedResponse,
+  PaginationParams
+} from '@/types';
+import { PaymentMethod } from '@/types';
+import { formatCurrency } from '@/utils/format';
+import { apiClient } from './apiClient';
+import { ValidationError } from './apiErrors';
+import { SanitizationService } from './securityService';
+
+/**
+ * Customer credit ("fiado"). Charges come from sales sold on account and
+ * payments apply to the oldest charges first; balances and aging are kept
+ * by the server.
+ */
+
+export const AGING_BUCKETS: { bucket: AgingBucket; label: string; maxDays?: number }[] = [
+  { bucket: 'current', label: '0-30 días', maxDays: 30 },
+  { bucket: 'days31to60', label: '31-60 días', maxDays: 60 },
+  { bucket: 'days61to90', label: '61-90 días', maxDays: 90 },
+  { bucket: 'over90', label: 'Más de 90 días' },
+];
+
+export const EMPTY_AGING: CreditAging = { current: 0, days31to60: 0, days61to90: 0, over90: 0 };
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  [PaymentMethod.CASH]: 'Efectivo',
+  [PaymentMethod.TRANSFER]: 'Transferencia bancaria',
+  [PaymentMethod.NEQUI]: 'Nequi',
+  [PaymentMethod.DAVIPLATA]: 'Daviplata',
+  [PaymentMethod.CARD]: 'Tarjeta',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Bucket for a charge made on `date` */
+export function getAgingBucket(date: Date | string, now: Date = new Date()): AgingBucket {
+  const days = Math.floor((now.getTime() - new Date(date).getTime()) / DAY_MS);
+  return AGING_BUCKETS.find(({ maxDays }) => maxDays === undefined || days <= maxDays)!.bucket;
+}
+
+export function getAvailableCredit(account: CreditAccount): number {
+  return Math.max(0, account.creditLimit - account.balance);
+}
+
+/** Amount owed for more than 30 days */
+export function getOverdueBalance(aging: CreditAging): number {
+  return aging.days31to60 + aging.days61to90 + aging.over90;
+}
+
+const amountSchema = () =>
+  yup
+    .number()
+    .typeError('Ingresa un monto')
+    .required('Ingresa un monto')
+    .integer('El monto no lleva decimales')
+    .min(1, 'El monto debe ser mayor a cero');
+
+export function creditLimitSchema() {
+  return yup.object({
+    creditLimit: yup
+      .number()
+      .typeError('Ingresa un cupo')
+      .required('Ingresa un cupo')
+      .integer('El cupo no lleva decimales')
+      .min(0, 'El cupo no puede ser negativo'),
+  });
+}
+
+/** `available` is the credit left before the charge */
+export function creditChargeSchema(available: number) {
+  return yup.object({
+    amount: amountSchema().max(available, `El cupo disponible es ${formatCurrency(available)}`),
+    saleReference: yup.string().trim().required('Indica la venta a crédito').max(40, 'Máximo 40 caracteres'),
+    description: yup.string().trim().default('').max(200, 'Máximo 200 caracteres'),
+  });
+}
+
+export function creditPaymentSchema(balance: number) {
+  return yup.object({
+    amount: amountSchema().max(balance, `El saldo pendiente es ${formatCurrency(balance)}`),
+    method: yup
+      .mixed<PaymentMethod>()
+      .oneOf(Object.values(PaymentMethod), 'Selecciona un medio de pago')
+      .required('Selecciona un medio de pago'),
+    reference: yup.string().trim().default('').max(40, 'Máximo 40 caracteres'),
+    note: yup.string().trim().default('').max(200, 'Máximo 200 caracteres'),
+  });
+}
+
+function assertAmount(amount: number, max: number, code: string, message: string): void {
+  if (Number.isInteger(amount) && amount > 0 && amount <= max) {
+    return;
+  }
+
+  throw new ValidationError(message, {
+    status: 422,
+    code,
+    errors: [{ code, message, field: 'amount' }],
+  });
+}
+
+class CreditService {
+  async getAccount(clientId: string): Promise<CreditAccount> {
+    const response = await apiClient.get<CreditAccount>(`/clients/${clientId}/credit`);
+    return response.data!;
+  }
+
+  /** Charges and payments, newest first */
+  async listMovements(clientId: string, pagination: PaginationParams): Promise<PaginatedResponse<CreditMovement>> {
+    return apiClient.getPaginated<CreditMovement>(`/clients/${clientId}/credit/movements`, pagination);
+  }
+
+  /** A limit below the current balance only blocks new charges */
+  async setLimit(clientId: string, creditLimit: number): Promise<CreditAccount> {
+    const response = await apiClient.put<CreditAccount>(`/clients/${clientId}/credit/limit`, { creditLimit });
+    return response.data!;
+  }
+
+  /** Puts a sale on the client's account; it must fit in the available credit */
+  async charge(account: CreditAccount, data: CreditChargeData): Promise<CreditMovement> {
+    const available = getAvailableCredit(account);
+    assertAmount(
+      data.amount,
+      available,
+      'CREDIT_LIMIT_EXCEEDED',
+      `El cargo supera el cupo disponible de ${formatCurrency(available)}`
+    );
+
+    const response = await apiClient.post<CreditMovement>(`/clients/${account.clientId}/credit/charges`, {
+      amount: data.amount,
+      saleReference: SanitizationService.sanitizeInput(data.saleReference),
+      description: SanitizationService.sanitizeInput(data.description) || null,
+    });
+    return response.data!;
+  }
+
+  /** Partial payments are fine; paying more than the balance is not */
+  async recordPayment(account: CreditAccount, data: CreditPaymentData): Promise<CreditMovement> {
+    assertAmount(
+      data.amount,
+      account.balance,
+      'PAYMENT_EXCEEDS_BALANCE',
+      `El abono supera el saldo pendiente de ${formatCurrency(account.balance)}`
+    );
+
+    const response = await apiClient.post<CreditMovement>(`/clients/${account.clientId}/credit/payments`, {
+      amount: data.amount,
+      method: data.method,
+      reference: SanitizationService.sanitizeInput(data.reference) || null,
+      note: SanitizationService.sanitizeInput(data.note) || null,
+    });
+    return response.data!;
+  }
+
+  async getStatement(clientId: string, period: { from: Date; to: Date }): Promise<CreditStatement> {
+    const response = await apiClient.get<CreditStatement>(`/clients/${clientId}/credit/statement`, {
+      params: { from: period.from.toISOString(), to: period.to.toISOString() },
+    });
+    return response.data!;
+  }
+
+  /** Accounts with a balance, across all clients */
+  async listAccounts(
+    pagination: PaginationParams,
+    filters: CreditAccountFilters = {}
+  ): Promise<PaginatedResponse<CreditAccount>> {
+    return apiClient.getPaginated<CreditAccount>('/credit/accounts', pagination, { params: filters });
+  }
+
+  async getPortfolioSummary(): Promise<CreditPortfolioSummary> {
+    const response = await apiClient.get<CreditPortfolioSummary>('/credit/summary');
+    return response.data!;
+  }
+}
+
+export const creditService = new CreditService();
+export default creditService;
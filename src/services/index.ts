@@ -1,4 +1,17 @@
-export { authService } from './authService';
+export { authService, isTwoFactorChallenge } from './authService';
+export { apiClient } from './apiClient';
+export type { RequestOptions } from './apiClient';
+export {
+  ApiError,
+  NetworkError,
+  TimeoutError,
+  CancelledError,
+  ValidationError,
+  AuthError,
+  RateLimitError,
+  normalizeApiError,
+  getTokenStatus
+} from './apiErrors';
 export type { default as AuthService } from './authService';
 export { 
   CSRFService, 
@@ -8,4 +21,165 @@ export {
   SessionSecurityService,
   RateLimitService 
 } from './securityService';
-export type { SecurityEvent, SecurityLog, SecurityEventType } from './securityService';
\ No newline at end of file
+export type {
+  SecurityEvent,
+  SecurityLog,
+  SecurityEventType,
+  SecuritySeverity,
+  SecurityLoggerConfig,
+  SessionExpiryReason,
+  SessionWarningDetail
+} from './securityService';
+export type { SecurityLogFilter } from './securityLogStore';
+export { sessionSyncService } from './sessionSyncService';
+export type { SessionSyncMessage, SessionSyncMessageType } from './sessionSyncService';
+export {
+  MemoryTokenStorage,
+  SessionTokenStorage,
+  LocalTokenStorage,
+  CookieTokenStorage,
+  createTokenStorage,
+  resolveTokenStorage
+} from './tokenStorage';
+export type { TokenStorage, TokenStorageKind } from './tokenStorage';
+
+export { TokenRefreshScheduler } from './tokenRefreshScheduler';
+export type { TokenRefreshEvent, TokenRefreshListener } from './tokenRefreshScheduler';
+export {
+  ROLE_PERMISSIONS,
+  ROLE_LABELS,
+  PERMISSION_LABELS,
+  getRolePermissions,
+  toRoleOverride,
+  can,
+  savePermissionOverrides
+} from './permissionService';
+export {
+  PLAN_FEATURES,
+  PLAN_LABELS,
+  FEATURE_LABELS,
+  getPlanFeatures,
+  hasFeature,
+  isWithinLimit,
+  getRequiredPlan
+} from './planService';
+export { terminalLockService } from './terminalLockService';
+export type { TerminalLockListener } from './terminalLockService';
+export {
+  DEFAULT_SESSION_POLICY,
+  resolveSessionPolicy,
+  validateSessionPolicy,
+  saveSessionPolicies
+} from './sessionPolicyService';
+export {
+  DEFAULT_PASSWORD_POLICY,
+  MIN_PASSWORD_LENGTH,
+  MAX_PASSWORD_LENGTH,
+  PASSWORD_STRENGTH_LABELS,
+  resolvePasswordPolicy,
+  getActiveRules,
+  describePasswordRule,
+  isCommonPassword,
+  checkPassword,
+  getPasswordStrength,
+  passwordSchema,
+  passwordConfirmationSchema,
+  resetPasswordSchema,
+  changePasswordSchema,
+  assertPasswordPolicy,
+  validatePasswordPolicy,
+  savePasswordPolicy
+} from './passwordPolicyService';
+export type { PasswordContext, PasswordStrength } from './passwordPolicyService';
+export { invitationService } from './invitationService';
+export { userService } from './userService';
+export {
+  TAX_DOCUMENT_LABELS,
+  TAX_DOCUMENT_ABBREVIATIONS,
+  normalizeTaxId,
+  splitNit,
+  calculateNitDv,
+  isValidNitDv,
+  validateTaxId,
+  assertTaxId,
+  formatNit,
+  formatTaxId,
+  taxIdSchema,
+  nitDvSchema,
+  lookupNit
+} from './taxIdService';
+export {
+  EMPTY_ADDRESS,
+  getDepartments,
+  findDepartment,
+  getMunicipalities,
+  findMunicipality,
+  matchMunicipality,
+  resolveAddress,
+  formatAddress,
+  isBlankAddress,
+  addressSchema
+} from './locationService';
+export {
+  COLOMBIA_CALLING_CODE,
+  CALLING_CODES,
+  splitPhone,
+  toE164,
+  getColombianPhoneKind,
+  validatePhone,
+  formatPhone,
+  isBlankPhone,
+  phoneSchema
+} from './phoneService';
+export type { CallingCode, ColombianPhoneKind } from './phoneService';
+export {
+  clientService,
+  TAX_REGIME_LABELS,
+  MAX_CLIENT_TAGS,
+  EMPTY_CLIENT_FORM,
+  normalizeTags,
+  clientSchema,
+  toClientFormData
+} from './clientService';
+export {
+  parseSpreadsheet,
+  exportSpreadsheet,
+  getSpreadsheetFormat,
+  SPREADSHEET_ACCEPT,
+  MAX_SPREADSHEET_BYTES
+} from './spreadsheetService';
+export type { ParsedSpreadsheet, SpreadsheetFormat, SpreadsheetRow } from './spreadsheetService';
+export {
+  clientSpreadsheetService,
+  CLIENT_IMPORT_FIELDS,
+  MAX_IMPORT_ROWS,
+  guessColumnMapping,
+  buildImportRows,
+  getImportFieldLabel
+} from './clientSpreadsheetService';
+export type { ClientImportFieldDefinition } from './clientSpreadsheetService';
+export {
+  creditService,
+  AGING_BUCKETS,
+  EMPTY_AGING,
+  PAYMENT_METHOD_LABELS,
+  getAgingBucket,
+  getAvailableCredit,
+  getOverdueBalance,
+  creditLimitSchema,
+  creditChargeSchema,
+  creditPaymentSchema
+} from './creditService';
+export {
+  clientSegmentService,
+  MAX_SEGMENT_RULES,
+  SEGMENT_FIELDS,
+  SEGMENT_OPERATOR_LABELS,
+  RFM_SEGMENT_LABELS,
+  EMPTY_SEGMENT,
+  createSegmentRule,
+  isCompleteSegmentRule,
+  compactSegment,
+  describeSegmentRule,
+  describeSegment
+} from './clientSegmentService';
\ No newline at end of file
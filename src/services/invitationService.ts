@@ -0,0 +1,84 @@
+import type {
+  AcceptInvitationData,
+  ApiResponse,
+  Invitation,
+  InvitationInfo,
+  InviteUserData,
+  PasswordPolicy
+} from '@/types';
+import { apiClient } from './apiClient';
+import { getTokenStatus } from './apiErrors';
+import { DEFAULT_PASSWORD_POLICY, assertPasswordPolicy } from './passwordPolicyService';
+import { SanitizationService, SecurityLogger } from './securityService';
+
+/**
+ * Email invitations that let an admin add users with a preassigned role.
+ * The invitee sets their own name and password on the accept-invite page.
+ */
+class InvitationService {
+  async list(): Promise<Invitation[]> {
+    const response = await apiClient.get<Invitation[]>('/invitations');
+    return response.data ?? [];
+  }
+
+  async invite(data: InviteUserData): Promise<Invitation> {
+    const email = SanitizationService.sanitizeEmail(data.email);
+    const response = await apiClient.post<Invitation>('/invitations', { ...data, email });
+
+    SecurityLogger.log({
+      type: 'user_invited',
+      severity: 'medium',
+      message: 'User invited',
+      details: { email, role: data.role },
+    });
+
+    return response.data!;
+  }
+
+  async resend(invitationId: string): Promise<ApiResponse> {
+    return apiClient.post(`/invitations/${invitationId}/resend`);
+  }
+
+  async revoke(invitationId: string): Promise<ApiResponse> {
+    const response = await apiClient.delete(`/invitations/${invitationId}`);
+
+    SecurityLogger.log({
+      type: 'invitation_revoked',
+      severity: 'medium',
+      message: 'Invitation revoked',
+      details: { invitationId },
+    });
+
+    return response;
+  }
+
+  // Public side, used by the invitee before they have an account
+  async validate(token: string): Promise<InvitationInfo> {
+    try {
+      const response = await apiClient.get<InvitationInfo>(`/invitations/token/${encodeURIComponent(token)}`);
+      return response.data ?? { status: 'invalid' };
+    } catch (error) {
+      const status = getTokenStatus(error);
+      if (status) {
+        return { status };
+      }
+      throw error;
+    }
+  }
+
+  async accept(
+    data: AcceptInvitationData,
+    policy: PasswordPolicy = DEFAULT_PASSWORD_POLICY,
+    email?: string
+  ): Promise<ApiResponse> {
+    assertPasswordPolicy(data.password, policy, 'password', { name: data.name, email });
+
+    return apiClient.post('/invitations/accept', {
+      ...data,
+      name: SanitizationService.sanitizeInput(data.name),
+    });
+  }
+}
+
+export const invitationService = new InvitationService();
+export default invitationService;
@@ -0,0 +1,164 @@
+import * as yup from 'yup';
+import type { Address, DaneDepartment, DaneMunicipality } from '@/types';
+import { toSearchKey } from '@/utils/format';
+import { DANE_DEPARTMENTS } from './daneDivipola';
+
+/**
+ * Department and municipality lookups over the bundled DANE dataset, plus
+ * the structured address used by companies and clients.
+ */
+
+export const EMPTY_ADDRESS: Address = {
+  street: '',
+  details: '',
+  departmentCode: '',
+  departmentName: '',
+  municipalityCode: '',
+  municipalityName: '',
+};
+
+const collator = new Intl.Collator('es-CO');
+
+const departments: DaneDepartment[] = DANE_DEPARTMENTS
+  .map(({ code, name }) => ({ code, name }))
+  .sort((a, b) => collator.compare(a.name, b.name));
+
+const municipalitiesByDepartment = new Map<string, DaneMunicipality[]>(
+  DANE_DEPARTMENTS.map((department) => [
+    department.code,
+    department.municipalities
+      .map(([code, name]) => ({ code: `${department.code}${code}`, name, departmentCode: department.code }))
+      .sort((a, b) => collator.compare(a.name, b.name)),
+  ])
+);
+
+/** Departments sorted by name */
+export function getDepartments(): DaneDepartment[] {
+  return departments;
+}
+
+export function findDepartment(code: string): DaneDepartment | undefined {
+  return departments.find((department) => department.code === code);
+}
+
+/** Municipalities of a department, sorted by name */
+export function getMunicipalities(departmentCode: string): DaneMunicipality[] {
+  return municipalitiesByDepartment.get(departmentCode) ?? [];
+}
+
+export function findMunicipality(code: string): DaneMunicipality | undefined {
+  return getMunicipalities(code.slice(0, 2)).find((municipality) => municipality.code === code);
+}
+
+/** Exact name matches win; otherwise the single name that starts with the text */
+function matchByName<T extends { name: string }>(items: T[], text: string): T[] {
+  const key = toSearchKey(text);
+  const exact = items.filter((item) => toSearchKey(item.name) === key);
+  return exact.length > 0 ? exact : items.filter((item) => toSearchKey(item.name).startsWith(`${key} `));
+}
+
+/**
+ * Finds a municipality from free text such as a spreadsheet cell: a
+ * five-digit DANE code, or a name. Names shared by several departments
+ * (Barbosa, Mosquera...) only resolve when the department, by name or
+ * code, is given too.
+ */
+export function matchMunicipality(municipality: string, department = ''): DaneMunicipality | undefined {
+  const text = municipality.trim();
+  if (/^\d{5}$/.test(text)) {
+    return findMunicipality(text);
+  }
+  if (!toSearchKey(text)) {
+    return undefined;
+  }
+
+  const departmentText = department.trim();
+  const candidates = !departmentText
+    ? departments
+    : /^\d{2}$/.test(departmentText)
+      ? departments.filter((item) => item.code === departmentText)
+      : matchByName(departments, departmentText);
+  const matches = matchByName(
+    candidates.flatMap((item) => getMunicipalities(item.code)),
+    text
+  );
+
+  return matches.length === 1 ? matches[0] : undefined;
+}
+
+/**
+ * Fills in the department and municipality names from their codes. Changing
+ * the department clears a municipality that belongs to another one.
+ */
+export function resolveAddress(address: Partial<Address>): Address {
+  const department = findDepartment(address.departmentCode ?? '');
+  const municipality = findMunicipality(address.municipalityCode ?? '');
+  const municipalityMatches = municipality?.departmentCode === department?.code;
+
+  return {
+    street: address.street ?? '',
+    details: address.details ?? '',
+    departmentCode: department?.code ?? '',
+    departmentName: department?.name ?? '',
+    municipalityCode: municipalityMatches ? municipality?.code ?? '' : '',
+    municipalityName: municipalityMatches ? municipality?.name ?? '' : '',
+  };
+}
+
+/**
+ * One-line address for lists and invoice headers. The department is left
+ * out when it repeats the municipality, as with Bogotá.
+ */
+export function formatAddress(address: Address | null | undefined): string {
+  if (!address) {
+    return '';
+  }
+
+  const parts = [address.street, address.details, address.municipalityName];
+  if (address.departmentName && address.departmentName !== address.municipalityName) {
+    parts.push(address.departmentName);
+  }
+  return parts.filter(Boolean).join(', ');
+}
+
+export function isBlankAddress(address: Partial<Address> | null | undefined): boolean {
+  return !address?.street?.trim() && !address?.departmentCode && !address?.municipalityCode;
+}
+
+/**
+ * With `optional`, a completely blank address is accepted; a partly filled
+ * one still needs the street, department and municipality.
+ */
+export function addressSchema({ optional = false }: { optional?: boolean } = {}) {
+  const required = (message: string) =>
+    function (this: yup.TestContext, value: string | undefined) {
+      if (value?.trim() || (optional && isBlankAddress(this.parent))) {
+        return true;
+      }
+      return this.createError({ message });
+    };
+
+  return yup.object({
+    street: yup
+      .string()
+      .trim()
+      .default('')
+      .max(120, 'La dirección no puede superar 120 caracteres')
+      .test('required', required('La dirección es requerida')),
+    details: yup.string().trim().max(120, 'El complemento no puede superar 120 caracteres').default(''),
+    departmentCode: yup
+      .string()
+      .default('')
+      .test('required', required('Selecciona un departamento'))
+      .test('dane-department', 'Departamento no válido', (code) => !code || !!findDepartment(code)),
+    departmentName: yup.string().default(''),
+    municipalityCode: yup
+      .string()
+      .default('')
+      .test('required', required('Selecciona un municipio'))
+      .test('dane-municipality', 'El municipio no pertenece al departamento', function (code) {
+        return !code || findMunicipality(code)?.departmentCode === this.parent?.departmentCode;
+      }),
+    municipalityName: yup.string().default(''),
+  });
+}
@@ -0,0 +1,237 @@
+import * as yup from 'yup';
+import type { ApiResponse, Company, PasswordPolicy, PasswordRule, User } from '@/types';
+import { apiClient } from './apiClient';
+import { ValidationError } from './apiErrors';
+import { COMMON_PASSWORDS } from './commonPasswords';
+
+/**
+ * Password rules shared by registration, password reset and password change.
+ * Each company may tighten or relax them; the same policy drives the yup
+ * schemas, the strength meter and the pre-flight checks in `authService`.
+ */
+
+export const DEFAULT_PASSWORD_POLICY: PasswordPolicy = {
+  minLength: 8,
+  requireUppercase: true,
+  requireLowercase: true,
+  requireNumber: true,
+  requireSymbol: false,
+  rejectCommon: true,
+  rejectPersonalInfo: true,
+};
+
+export const MIN_PASSWORD_LENGTH = 8;
+export const MAX_PASSWORD_LENGTH = 128;
+
+// Fragments shorter than this are too generic to count as personal info
+const MIN_PERSONAL_FRAGMENT = 3;
+
+export type PasswordContext = Partial<Pick<User, 'name' | 'email'>>;
+
+export interface PasswordStrength {
+  /** 0 (very weak) to 4 (very strong) */
+  score: 0 | 1 | 2 | 3 | 4;
+  label: string;
+}
+
+export const PASSWORD_STRENGTH_LABELS = ['Muy débil', 'Débil', 'Aceptable', 'Fuerte', 'Muy fuerte'] as const;
+
+export function resolvePasswordPolicy(company: Pick<Company, 'passwordPolicy'> | null | undefined): PasswordPolicy {
+  return company?.passwordPolicy ?? DEFAULT_PASSWORD_POLICY;
+}
+
+/** The rules `policy` enforces, in the order they are shown to the user. */
+export function getActiveRules(policy: PasswordPolicy): PasswordRule[] {
+  const rules: PasswordRule[] = ['minLength'];
+  if (policy.requireUppercase) rules.push('uppercase');
+  if (policy.requireLowercase) rules.push('lowercase');
+  if (policy.requireNumber) rules.push('number');
+  if (policy.requireSymbol) rules.push('symbol');
+  if (policy.rejectCommon) rules.push('common');
+  if (policy.rejectPersonalInfo) rules.push('personalInfo');
+  return rules;
+}
+
+export function describePasswordRule(rule: PasswordRule, policy: PasswordPolicy): string {
+  switch (rule) {
+    case 'minLength':
+      return `Al menos ${policy.minLength} caracteres`;
+    case 'uppercase':
+      return 'Una letra mayúscula';
+    case 'lowercase':
+      return 'Una letra minúscula';
+    case 'number':
+      return 'Un número';
+    case 'symbol':
+      return 'Un símbolo (!@#$...)';
+    case 'common':
+      return 'No es una contraseña común o filtrada';
+    case 'personalInfo':
+      return 'No contiene tu nombre ni tu correo';
+  }
+}
+
+const RULE_ERRORS: Record<PasswordRule, (policy: PasswordPolicy) => string> = {
+  minLength: (policy) => `La contraseña debe tener al menos ${policy.minLength} caracteres`,
+  uppercase: () => 'La contraseña debe contener al menos una letra mayúscula',
+  lowercase: () => 'La contraseña debe contener al menos una letra minúscula',
+  number: () => 'La contraseña debe contener al menos un número',
+  symbol: () => 'La contraseña debe contener al menos un símbolo',
+  common: () => 'Esta contraseña es demasiado común o aparece en filtraciones conocidas',
+  personalInfo: () => 'La contraseña no puede contener tu nombre ni tu correo',
+};
+
+/**
+ * Whether `password` is in the bundled breach list, also after stripping the
+ * digits and symbols people tend to append ("Colombia2024!").
+ */
+export function isCommonPassword(password: string): boolean {
+  const normalized = password.trim().toLowerCase();
+  const stem = normalized.replace(/[^\p{L}]+$/u, '');
+  return COMMON_PASSWORDS.has(normalized) || (stem.length > 0 && COMMON_PASSWORDS.has(stem));
+}
+
+function containsPersonalInfo(password: string, context: PasswordContext): boolean {
+  const lowered = password.toLowerCase();
+  const fragments = [
+    ...(context.name ?? '').split(/\s+/),
+    ...(context.email ?? '').split('@')[0].split(/[._+-]/),
+  ];
+
+  return fragments.some(
+    (fragment) => fragment.length >= MIN_PERSONAL_FRAGMENT && lowered.includes(fragment.toLowerCase())
+  );
+}
+
+/** The rules of `policy` that `password` breaks; empty when it is acceptable. */
+export function checkPassword(
+  password: string,
+  policy: PasswordPolicy,
+  context: PasswordContext = {}
+): PasswordRule[] {
+  const tests: Record<PasswordRule, () => boolean> = {
+    minLength: () => password.length >= policy.minLength,
+    uppercase: () => /\p{Lu}/u.test(password),
+    lowercase: () => /\p{Ll}/u.test(password),
+    number: () => /\d/.test(password),
+    symbol: () => /[^\p{L}\d]/u.test(password),
+    common: () => !isCommonPassword(password),
+    personalInfo: () => !containsPersonalInfo(password, context),
+  };
+
+  return getActiveRules(policy).filter((rule) => !tests[rule]());
+}
+
+export function getPasswordStrength(
+  password: string,
+  policy: PasswordPolicy = DEFAULT_PASSWORD_POLICY,
+  context: PasswordContext = {}
+): PasswordStrength {
+  if (!password || isCommonPassword(password)) {
+    return { score: 0, label: PASSWORD_STRENGTH_LABELS[0] };
+  }
+
+  const classes = [/\p{Lu}/u, /\p{Ll}/u, /\d/, /[^\p{L}\d]/u].filter((pattern) => pattern.test(password)).length;
+  let score = 0;
+  if (password.length >= policy.minLength) score++;
+  if (password.length >= 12) score++;
+  if (password.length >= 16) score++;
+  if (classes >= 3) score++;
+
+  // A password that breaks the policy can't look better than "Débil"
+  if (checkPassword(password, policy, context).length > 0) {
+    score = Math.min(score, 1);
+  }
+
+  const clamped = Math.min(score, 4) as PasswordStrength['score'];
+  return { score: clamped, label: PASSWORD_STRENGTH_LABELS[clamped] };
+}
+
+/**
+ * Yup schema for a new password under `policy`. Personal info is taken from
+ * `context` or, for forms that collect it, the sibling `name`/`email` fields.
+ */
+export function passwordSchema(policy: PasswordPolicy, context: PasswordContext = {}) {
+  return yup
+    .string()
+    .required('La contraseña es requerida')
+    .max(MAX_PASSWORD_LENGTH, `La contraseña no puede superar ${MAX_PASSWORD_LENGTH} caracteres`)
+    .test('password-policy', function (value) {
+      const siblings = (this.parent ?? {}) as PasswordContext;
+      const [broken] = checkPassword(value ?? '', policy, {
+        name: context.name ?? siblings.name,
+        email: context.email ?? siblings.email,
+      });
+
+      return broken ? this.createError({ message: RULE_ERRORS[broken](policy) }) : true;
+    });
+}
+
+export function passwordConfirmationSchema(field: string) {
+  return yup
+    .string()
+    .required('Confirma tu contraseña')
+    .oneOf([yup.ref(field)], 'Las contraseñas no coinciden');
+}
+
+// The reset token travels in the URL, so the form only holds the passwords
+export function resetPasswordSchema(policy: PasswordPolicy, context: PasswordContext = {}) {
+  return yup.object({
+    password: passwordSchema(policy, context),
+    confirmPassword: passwordConfirmationSchema('password'),
+  });
+}
+
+export function changePasswordSchema(policy: PasswordPolicy, context: PasswordContext = {}) {
+  return yup.object({
+    currentPassword: yup.string().required('La contraseña actual es requerida'),
+    newPassword: passwordSchema(policy, context).notOneOf(
+      [yup.ref('currentPassword')],
+      'La nueva contraseña debe ser diferente a la actual'
+    ),
+    confirmPassword: passwordConfirmationSchema('newPassword'),
+  });
+}
+
+/**
+ * Pre-flight check for service calls, so a caller that skips the form schema
+ * still can't submit a password the policy rejects. Throws a
+ * `ValidationError` whose field error lands on `field` via
+ * `applyServerFieldErrors`.
+ */
+export function assertPasswordPolicy(
+  password: string,
+  policy: PasswordPolicy,
+  field: string,
+  context: PasswordContext = {}
+): void {
+  const [broken] = checkPassword(password, policy, context);
+  if (!broken) {
+    return;
+  }
+
+  const message = RULE_ERRORS[broken](policy);
+  throw new ValidationError(message, {
+    status: 422,
+    code: 'PASSWORD_POLICY',
+    errors: [{ code: 'PASSWORD_POLICY', message, field }],
+  });
+}
+
+/**
+ * Returns a Spanish message describing why `policy` is invalid, or null when
+ * it can be saved.
+ */
+export function validatePasswordPolicy(policy: PasswordPolicy): string | null {
+  if (!Number.isInteger(policy.minLength) || policy.minLength < MIN_PASSWORD_LENGTH) {
+    return `La longitud mínima debe ser de al menos ${MIN_PASSWORD_LENGTH} caracteres`;
+  }
+  if (policy.minLength > MAX_PASSWORD_LENGTH) {
+    return `La longitud mínima no puede superar ${MAX_PASSWORD_LENGTH} caracteres`;
+  }
+  return null;
+}
+
+export async function savePasswordPolicy(policy: PasswordPolicy): Promise<ApiResponse<Company>> {
+  return apiClient.put<Company>('/company/password-policy', { passwordPolicy: policy });
+}
@@ -0,0 +1,128 @@
+import { Permission, UserRole } from '@/types';
+import type { ApiResponse, Company, PermissionOverrides, RolePermissionOverride, User } from '@/types';
+import { apiClient } from './apiClient';
+
+/**
+ * Role-based permissions for MercaloPOS
+ */
+
+const ALL_PERMISSIONS = Object.values(Permission);
+
+// Default role→permission matrix; companies can adjust it via `permissionOverrides`
+export const ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+  [UserRole.ADMIN]: ALL_PERMISSIONS,
+  [UserRole.MANAGER]: [
+    Permission.DASHBOARD_VIEW,
+    Permission.SALES_CREATE,
+    Permission.SALES_VOID,
+    Permission.SALES_REFUND,
+    Permission.REPORTS_VIEW,
+    Permission.REPORTS_EXPORT,
+    Permission.CLIENTS_VIEW,
+    Permission.CLIENTS_CREATE,
+    Permission.CLIENTS_EDIT,
+    Permission.CLIENTS_DELETE,
+    Permission.CLIENTS_EXPORT,
+    Permission.CREDIT_VIEW,
+    Permission.CREDIT_MANAGE,
+    Permission.CALENDAR_VIEW,
+  ],
+  [UserRole.CASHIER]: [
+    Permission.DASHBOARD_VIEW,
+    Permission.SALES_CREATE,
+    Permission.CLIENTS_VIEW,
+    Permission.CLIENTS_CREATE,
+    Permission.CLIENTS_EDIT,
+    Permission.CREDIT_VIEW,
+    Permission.CALENDAR_VIEW,
+  ],
+  [UserRole.VIEWER]: [
+    Permission.DASHBOARD_VIEW,
+    Permission.REPORTS_VIEW,
+    Permission.CLIENTS_VIEW,
+    Permission.CREDIT_VIEW,
+    Permission.CALENDAR_VIEW,
+  ],
+};
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  [UserRole.ADMIN]: 'Administrador',
+  [UserRole.MANAGER]: 'Gerente',
+  [UserRole.CASHIER]: 'Cajero',
+  [UserRole.VIEWER]: 'Consulta',
+};
+
+export const PERMISSION_LABELS: Record<Permission, string> = {
+  [Permission.DASHBOARD_VIEW]: 'Ver dashboard',
+  [Permission.SALES_CREATE]: 'Registrar ventas',
+  [Permission.SALES_VOID]: 'Anular ventas',
+  [Permission.SALES_REFUND]: 'Hacer devoluciones',
+  [Permission.REPORTS_VIEW]: 'Ver reportes',
+  [Permission.REPORTS_EXPORT]: 'Exportar reportes',
+  [Permission.CLIENTS_VIEW]: 'Ver clientes',
+  [Permission.CLIENTS_CREATE]: 'Crear clientes',
+  [Permission.CLIENTS_EDIT]: 'Editar clientes',
+  [Permission.CLIENTS_DELETE]: 'Eliminar clientes',
+  [Permission.CLIENTS_EXPORT]: 'Exportar clientes',
+  [Permission.CREDIT_VIEW]: 'Ver cartera (fiado)',
+  [Permission.CREDIT_MANAGE]: 'Gestionar cupos de fiado',
+  [Permission.CALENDAR_VIEW]: 'Ver calendario',
+  [Permission.SETTINGS_COMPANY_EDIT]: 'Editar datos de la empresa',
+  [Permission.SETTINGS_PERMISSIONS_EDIT]: 'Editar roles y permisos',
+  [Permission.USERS_MANAGE]: 'Gestionar usuarios',
+  [Permission.SECURITY_VIEW]: 'Ver actividad de seguridad',
+};
+
+export function getRolePermissions(role: UserRole, overrides?: PermissionOverrides): Set<Permission> {
+  const permissions = new Set<Permission>(ROLE_PERMISSIONS[role] ?? []);
+
+  // Admins always keep every permission so a company can't lock itself out
+  if (role === UserRole.ADMIN) {
+    return permissions;
+  }
+
+  const override = overrides?.[role];
+  override?.granted?.forEach((permission) => permissions.add(permission));
+  override?.revoked?.forEach((permission) => permissions.delete(permission));
+
+  return permissions;
+}
+
+/**
+ * Checks whether `user` holds `permission`. Pass several permissions to
+ * require all of them, or set `mode` to `'any'` to require at least one.
+ */
+export function can(
+  user: Pick<User, 'role'> | null | undefined,
+  permission: Permission | Permission[],
+  overrides?: PermissionOverrides,
+  mode: 'all' | 'any' = 'all'
+): boolean {
+  if (!user) {
+    return false;
+  }
+
+  const granted = getRolePermissions(user.role, overrides);
+  const required = Array.isArray(permission) ? permission : [permission];
+
+  return mode === 'all'
+    ? required.every((item) => granted.has(item))
+    : required.some((item) => granted.has(item));
+}
+
+/**
+ * Expresses a role's effective permissions as the minimal override against
+ * the default matrix.
+ */
+export function toRoleOverride(role: UserRole, effective: Set<Permission>): RolePermissionOverride {
+  const defaults = new Set(ROLE_PERMISSIONS[role]);
+
+  return {
+    granted: [...effective].filter((permission) => !defaults.has(permission)),
+    revoked: [...defaults].filter((permission) => !effective.has(permission)),
+  };
+}
+
+export async function savePermissionOverrides(overrides: PermissionOverrides): Promise<ApiResponse<Company>> {
+  return apiClient.put<Company>('/company/permissions', { permissionOverrides: overrides });
+}
@@ -0,0 +1,124 @@
+import * as yup from 'yup';
+
+/**
+ * Phone numbers are stored in E.164 (`+573001234567`). Colombian numbers get
+ * full validation; other countries only a length check.
+ */
+
+export interface CallingCode {
+  /** ISO 3166-1 alpha-2 */
+  iso: string;
+  country: string;
+  /** Digits only, without the plus sign */
+  code: string;
+}
+
+export type ColombianPhoneKind = 'mobile' | 'landline';
+
+export const COLOMBIA_CALLING_CODE = '57';
+
+export const CALLING_CODES: CallingCode[] = [
+  { iso: 'CO', country: 'Colombia', code: COLOMBIA_CALLING_CODE },
+  { iso: 'VE', country: 'Venezuela', code: '58' },
+  { iso: 'EC', country: 'Ecuador', code: '593' },
+  { iso: 'PE', country: 'Perú', code: '51' },
+  { iso: 'PA', country: 'Panamá', code: '507' },
+  { iso: 'MX', country: 'México', code: '52' },
+  { iso: 'US', country: 'Estados Unidos', code: '1' },
+  { iso: 'ES', country: 'España', code: '34' },
+  { iso: 'AR', country: 'Argentina', code: '54' },
+  { iso: 'CL', country: 'Chile', code: '56' },
+  { iso: 'BR', country: 'Brasil', code: '55' },
+];
+
+// Longest first, so "+593…" isn't read as a shorter code
+const CODES_BY_LENGTH = [...CALLING_CODES].sort((a, b) => b.code.length - a.code.length);
+
+// Since the 2021 numbering change every landline is 60 + region digit + 7 digits
+const CO_MOBILE = /^3\d{9}$/;
+const CO_LANDLINE = /^60[1-8]\d{7}$/;
+
+const digitsOnly = (value: string): string => value.replace(/\D/g, '');
+
+/**
+ * Splits a stored or typed number into calling code and national number.
+ * Numbers without a plus sign are taken as Colombian.
+ */
+export function splitPhone(value: string): { callingCode: string; national: string } {
+  const trimmed = value.trim();
+  if (!trimmed.startsWith('+')) {
+    return { callingCode: COLOMBIA_CALLING_CODE, national: digitsOnly(trimmed) };
+  }
+
+  const digits = digitsOnly(trimmed);
+  const match = CODES_BY_LENGTH.find(({ code }) => digits.startsWith(code));
+  return match
+    ? { callingCode: match.code, national: digits.slice(match.code.length) }
+    : { callingCode: '', national: digits };
+}
+
+export function toE164(callingCode: string, national: string): string {
+  return `+${digitsOnly(callingCode)}${digitsOnly(national)}`;
+}
+
+export function getColombianPhoneKind(national: string): ColombianPhoneKind | null {
+  const digits = digitsOnly(national);
+  if (CO_MOBILE.test(digits)) return 'mobile';
+  if (CO_LANDLINE.test(digits)) return 'landline';
+  return null;
+}
+
+/**
+ * Returns a Spanish message describing why the number is invalid, or null
+ * when it is valid.
+ */
+export function validatePhone(value: string): string | null {
+  const { callingCode, national } = splitPhone(value);
+
+  if (!national) {
+    return 'El teléfono es requerido';
+  }
+  if (callingCode === COLOMBIA_CALLING_CODE) {
+    return getColombianPhoneKind(national)
+      ? null
+      : 'Ingresa un celular de 10 dígitos (3XX) o un fijo con indicativo (60X)';
+  }
+  // E.164 allows at most 15 digits including the calling code
+  const length = callingCode.length + national.length;
+  return length >= 8 && length <= 15 ? null : 'El número de teléfono no es válido';
+}
+
+/** `+573001234567` becomes `+57 300 123 4567` */
+export function formatPhone(value: string | null | undefined): string {
+  if (!value) {
+    return '';
+  }
+
+  const { callingCode, national } = splitPhone(value);
+  if (callingCode === COLOMBIA_CALLING_CODE && national.length === 10) {
+    return `+57 ${national.slice(0, 3)} ${national.slice(3, 6)} ${national.slice(6)}`;
+  }
+  return callingCode ? `+${callingCode} ${national}` : `+${national}`;
+}
+
+/** True for an empty value or one that only holds the calling code */
+export function isBlankPhone(value: string | null | undefined): boolean {
+  return !value || !splitPhone(value).national;
+}
+
+/**
+ * E.164 phone field, as produced by `PhoneInput`. With `optional`, a blank
+ * number is accepted.
+ */
+export function phoneSchema({ optional = false }: { optional?: boolean } = {}) {
+  return yup
+    .string()
+    .default('')
+    .test('phone', function (value) {
+      if (optional && isBlankPhone(value)) {
+        return true;
+      }
+      const message = validatePhone(value ?? '');
+      return message ? this.createError({ message }) : true;
+    });
+}
@@ -0,0 +1,90 @@
+import { FeatureFlag, PlanType, ReportType } from '@/types';
+import type { Company, PlanFeatures, PlanLimit } from '@/types';
+
+/**
+ * Plan-based feature gating for MercaloPOS
+ */
+
+export const PLAN_FEATURES: Record<PlanType, PlanFeatures> = {
+  [PlanType.FREE]: {
+    features: [],
+    maxUsers: 1,
+    maxProducts: 100,
+    reportTypes: [ReportType.SALES],
+  },
+  [PlanType.BASIC]: {
+    features: [FeatureFlag.REPORTS, FeatureFlag.CALENDAR, FeatureFlag.MULTI_USER],
+    maxUsers: 3,
+    maxProducts: 1000,
+    reportTypes: [ReportType.SALES, ReportType.INVENTORY],
+  },
+  [PlanType.PREMIUM]: {
+    features: [
+      FeatureFlag.REPORTS,
+      FeatureFlag.CALENDAR,
+      FeatureFlag.MULTI_USER,
+      FeatureFlag.DATA_EXPORT,
+      FeatureFlag.CUSTOM_PERMISSIONS,
+    ],
+    maxUsers: 10,
+    maxProducts: 10000,
+    reportTypes: [ReportType.SALES, ReportType.INVENTORY, ReportType.CLIENTS, ReportType.FINANCIAL],
+  },
+  [PlanType.ENTERPRISE]: {
+    features: Object.values(FeatureFlag),
+    maxUsers: null,
+    maxProducts: null,
+    reportTypes: Object.values(ReportType),
+  },
+};
+
+// Cheapest first, used to find the plan that unlocks a feature
+const PLAN_ORDER: PlanType[] = [PlanType.FREE, PlanType.BASIC, PlanType.PREMIUM, PlanType.ENTERPRISE];
+
+export const PLAN_LABELS: Record<PlanType, string> = {
+  [PlanType.FREE]: 'Gratis',
+  [PlanType.BASIC]: 'Básico',
+  [PlanType.PREMIUM]: 'Premium',
+  [PlanType.ENTERPRISE]: 'Empresarial',
+};
+
+export const FEATURE_LABELS: Record<FeatureFlag, string> = {
+  [FeatureFlag.REPORTS]: 'Reportes',
+  [FeatureFlag.CALENDAR]: 'Calendario',
+  [FeatureFlag.DATA_EXPORT]: 'Exportación de datos',
+  [FeatureFlag.CUSTOM_PERMISSIONS]: 'Permisos personalizados',
+  [FeatureFlag.MULTI_USER]: 'Múltiples usuarios',
+};
+
+/**
+ * Resolves the company's effective features: the plan defaults with any
+ * server-provided `planFeatures` applied on top.
+ */
+export function getPlanFeatures(company: Pick<Company, 'plan' | 'planFeatures'> | null | undefined): PlanFeatures {
+  const defaults = PLAN_FEATURES[company?.plan ?? PlanType.FREE] ?? PLAN_FEATURES[PlanType.FREE];
+  return { ...defaults, ...company?.planFeatures };
+}
+
+export function hasFeature(
+  company: Pick<Company, 'plan' | 'planFeatures'> | null | undefined,
+  feature: FeatureFlag
+): boolean {
+  return getPlanFeatures(company).features.includes(feature);
+}
+
+/**
+ * True while `current` is still below the plan's limit, i.e. one more item
+ * (user, product) can be added.
+ */
+export function isWithinLimit(
+  company: Pick<Company, 'plan' | 'planFeatures'> | null | undefined,
+  limit: PlanLimit,
+  current: number
+): boolean {
+  const max = getPlanFeatures(company)[limit];
+  return max === null || current < max;
+}
+
+export function getRequiredPlan(feature: FeatureFlag): PlanType {
+  return PLAN_ORDER.find((plan) => PLAN_FEATURES[plan].features.includes(feature)) ?? PlanType.ENTERPRISE;
+}
@@ -0,0 +1,222 @@
+import type { SecurityEventType, SecurityLog, SecuritySeverity } from './securityService';
+
+/**
+ * IndexedDB persistence for the security audit log.
+ *
+ * Entries survive reloads and keep a `pending` flag until the server has
+ * acknowledged them. Falls back to an in-memory list where IndexedDB is
+ * unavailable (private browsing on some browsers).
+ */
+
+export interface SecurityLogFilter {
+  types?: SecurityEventType[];
+  severities?: SecuritySeverity[];
+  from?: Date;
+  to?: Date;
+  limit?: number;
+}
+
+// IndexedDB can't index booleans, so the upload flag is stored as 0/1
+type StoredSecurityLog = SecurityLog & { pending: 0 | 1 };
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+function stripPending({ id, timestamp, event, userAgent, ip }: StoredSecurityLog): SecurityLog {
+  return { id, timestamp, event, userAgent, ip };
+}
+
+function matchesFilter(log: SecurityLog, filter: SecurityLogFilter): boolean {
+  if (filter.types?.length && !filter.types.includes(log.event.type)) {
+    return false;
+  }
+  if (filter.severities?.length && !filter.severities.includes(log.event.severity)) {
+    return false;
+  }
+  return true;
+}
+
+class SecurityLogStore {
+  private readonly dbName = 'mercalo_security';
+  private readonly storeName = 'logs';
+  private readonly version = 1;
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private memory: StoredSecurityLog[] = [];
+
+  private get isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      const request = indexedDB.open(this.dbName, this.version);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(this.storeName, { keyPath: 'id' });
+        store.createIndex('timestamp', 'timestamp');
+        store.createIndex('pending', 'pending');
+      };
+
+      this.dbPromise = requestToPromise(request).catch((error) => {
+        this.dbPromise = null;
+        throw error;
+      });
+    }
+
+    return this.dbPromise;
+  }
+
+  async add(log: SecurityLog, pending: boolean): Promise<void> {
+    const entry: StoredSecurityLog = { ...log, pending: pending ? 1 : 0 };
+
+    if (!this.isSupported) {
+      this.memory.unshift(entry);
+      return;
+    }
+
+    const db = await this.openDatabase();
+    const transaction = db.transaction(this.storeName, 'readwrite');
+    transaction.objectStore(this.storeName).put(entry);
+    await transactionDone(transaction);
+  }
+
+  /**
+   * Newest-first entries matching `filter`. Dates are matched on the
+   * timestamp index; type and severity are filtered while iterating.
+   */
+  async query(filter: SecurityLogFilter = {}): Promise<SecurityLog[]> {
+    const from = filter.from?.toISOString();
+    const to = filter.to?.toISOString();
+    const limit = filter.limit ?? Infinity;
+
+    if (!this.isSupported) {
+      return this.memory
+        .filter((log) => (!from || log.timestamp >= from) && (!to || log.timestamp <= to))
+        .map(stripPending)
+        .filter((log) => matchesFilter(log, filter))
+        .slice(0, limit);
+    }
+
+    const range = from && to
+      ? IDBKeyRange.bound(from, to)
+      : from
+        ? IDBKeyRange.lowerBound(from)
+        : to
+          ? IDBKeyRange.upperBound(to)
+          : undefined;
+
+    const db = await this.openDatabase();
+    const index = db.transaction(this.storeName).objectStore(this.storeName).index('timestamp');
+    const results: SecurityLog[] = [];
+
+    return new Promise((resolve, reject) => {
+      const request = index.openCursor(range, 'prev');
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor || results.length >= limit) {
+          resolve(results);
+          return;
+        }
+
+        const log = stripPending(cursor.value as StoredSecurityLog);
+        if (matchesFilter(log, filter)) {
+          results.push(log);
+        }
+        cursor.continue();
+      };
+    });
+  }
+
+  async getPending(limit: number): Promise<SecurityLog[]> {
+    if (!this.isSupported) {
+      return this.memory.filter((log) => log.pending === 1).slice(-limit).map(stripPending);
+    }
+
+    const db = await this.openDatabase();
+    const index = db.transaction(this.storeName).objectStore(this.storeName).index('pending');
+    const pending = await requestToPromise(index.getAll(IDBKeyRange.only(1), limit));
+    return (pending as StoredSecurityLog[]).map(stripPending);
+  }
+
+  async markUploaded(ids: string[]): Promise<void> {
+    if (!this.isSupported) {
+      this.memory.forEach((log) => {
+        if (ids.includes(log.id)) {
+          log.pending = 0;
+        }
+      });
+      return;
+    }
+
+    const db = await this.openDatabase();
+    const transaction = db.transaction(this.storeName, 'readwrite');
+    const store = transaction.objectStore(this.storeName);
+
+    ids.forEach((id) => {
+      const request = store.get(id);
+      request.onsuccess = () => {
+        const entry = request.result as StoredSecurityLog | undefined;
+        if (entry) {
+          store.put({ ...entry, pending: 0 });
+        }
+      };
+    });
+
+    await transactionDone(transaction);
+  }
+
+  /**
+   * Drops the oldest uploaded entries beyond `maxEntries`. Entries still
+   * waiting for upload are never pruned.
+   */
+  async prune(maxEntries: number): Promise<void> {
+    if (!this.isSupported) {
+      let kept = 0;
+      this.memory = this.memory.filter((log) => log.pending === 1 || ++kept <= maxEntries);
+      return;
+    }
+
+    const db = await this.openDatabase();
+    const transaction = db.transaction(this.storeName, 'readwrite');
+    const store = transaction.objectStore(this.storeName);
+    const countRequest = store.count();
+
+    countRequest.onsuccess = () => {
+      let excess = countRequest.result - maxEntries;
+      if (excess <= 0) {
+        return;
+      }
+
+      const request = store.index('timestamp').openCursor();
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor || excess <= 0) {
+          return;
+        }
+
+        if ((cursor.value as StoredSecurityLog).pending === 0) {
+          cursor.delete();
+          excess--;
+        }
+        cursor.continue();
+      };
+    };
+
+    await transactionDone(transaction);
+  }
+}
+
+export const securityLogStore = new SecurityLogStore();
+export default securityLogStore;
@@ -2,6 +2,12 @@
  * Security utilities for MercaloPOS authentication system
  */
 
+import type { SessionPolicy } from '@/types';
+import { createId } from '@/utils/id';
+import { securityLogStore } from './securityLogStore';
+import type { SecurityLogFilter } from './securityLogStore';
+import { sessionSyncService } from './sessionSyncService';
+
 // CSRF Token management
 export class CSRFService {
   private static readonly CSRF_TOKEN_KEY = 'mercalo_csrf_token';
@@ -88,13 +94,53 @@ export class SanitizationService {
 }
 
 // Security logging
+// Defined ahead of SecurityLogger, whose static config reads them on load
+const SEVERITY_RANK: Record<SecuritySeverity, number> = { low: 0, medium: 1, high: 2 };
+
+function isAtLeast(severity: SecuritySeverity, threshold: SecuritySeverity): boolean {
+  return SEVERITY_RANK[severity] >= SEVERITY_RANK[threshold];
+}
+
+function parseSeverity(value: string | undefined, fallback: SecuritySeverity): SecuritySeverity {
+  return value && value in SEVERITY_RANK ? (value as SecuritySeverity) : fallback;
+}
+
 export class SecurityLogger {
   private static logs: SecurityLog[] = [];
   private static readonly MAX_LOGS = 1000;
+  private static readonly MAX_RETRY_DELAY = 5 * 60 * 1000; // 5 minutes
+  private static config: SecurityLoggerConfig = {
+    persistSeverity: parseSeverity(import.meta.env.VITE_SECURITY_LOG_PERSIST_SEVERITY, 'low'),
+    uploadSeverity: parseSeverity(import.meta.env.VITE_SECURITY_LOG_UPLOAD_SEVERITY, 'high'),
+    batchSize: 50,
+    maxEntries: 5000,
+  };
+  private static flushTimer: number | null = null;
+  private static isFlushing = false;
+  private static retryAttempt = 0;
+  private static isOnlineListenerBound = false;
+  private static uploader: ((logs: SecurityLog[]) => Promise<void>) | null = null;
+
+  static configure(config: Partial<SecurityLoggerConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  /**
+   * Sets how batches reach the server. `apiClient` registers itself here so
+   * uploads share its base URL, auth headers and token refresh; until then
+   * entries wait in the queue.
+   */
+  static setUploader(uploader: (logs: SecurityLog[]) => Promise<void>): void {
+    this.uploader = uploader;
+  }
+
+  static getConfig(): SecurityLoggerConfig {
+    return { ...this.config };
+  }
 
   static log(event: SecurityEvent): void {
     const logEntry: SecurityLog = {
-      id: crypto.randomUUID(),
+      id: createId(),
       timestamp: new Date().toISOString(),
       event,
       userAgent: navigator.userAgent,
@@ -108,9 +154,8 @@ export class SecurityLogger {
       this.logs = this.logs.slice(0, this.MAX_LOGS);
     }
 
-    // Send critical events to server
-    if (event.severity === 'high') {
-      this.sendLogToServer(logEntry);
+    if (isAtLeast(event.severity, this.config.persistSeverity)) {
+      this.persist(logEntry);
     }
 
     // Log to console in development
@@ -127,54 +172,209 @@ export class SecurityLogger {
     return this.logs.filter(log => log.event.type === type);
   }
 
-  private static async sendLogToServer(log: SecurityLog): Promise<void> {
+  /**
+   * Searches the persisted audit log, which outlives reloads unlike
+   * `getLogs()`.
+   */
+  static query(filter: SecurityLogFilter = {}): Promise<SecurityLog[]> {
+    return securityLogStore.query(filter);
+  }
+
+  /**
+   * Uploads pending entries in batches. On failure the queue is kept and the
+   * upload retried with exponential backoff, or as soon as the browser is
+   * back online.
+   */
+  static async flush(): Promise<void> {
+    if (this.isFlushing) {
+      return;
+    }
+
+    this.clearFlushTimer();
+
+    if (!navigator.onLine) {
+      return;
+    }
+
+    this.isFlushing = true;
     try {
-      await fetch('/api/security/logs', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          ...SecurityHeadersService.getSecurityHeaders(),
-          ...CSRFService.getCSRFHeaders(),
-        },
-        body: JSON.stringify(log),
-      });
+      let batch = await securityLogStore.getPending(this.config.batchSize);
+      while (batch.length > 0) {
+        await this.sendLogsToServer(batch);
+        await securityLogStore.markUploaded(batch.map((log) => log.id));
+        batch = batch.length < this.config.batchSize
+          ? []
+          : await securityLogStore.getPending(this.config.batchSize);
+      }
+
+      this.retryAttempt = 0;
+      await securityLogStore.prune(this.config.maxEntries);
     } catch (error) {
-      console.error('Failed to send security log to server:', error);
+      console.error('Failed to upload security logs:', error);
+      this.retryAttempt++;
+      this.scheduleFlush(Math.min(2000 * 2 ** (this.retryAttempt - 1), this.MAX_RETRY_DELAY));
+    } finally {
+      this.isFlushing = false;
+    }
+  }
+
+  private static persist(log: SecurityLog): void {
+    const pending = isAtLeast(log.event.severity, this.config.uploadSeverity);
+    this.bindOnlineListener();
+
+    securityLogStore
+      .add(log, pending)
+      .then(() => {
+        // Don't jump the queue while a retry is already scheduled
+        if (pending && this.retryAttempt === 0) {
+          this.scheduleFlush(0);
+        }
+      })
+      .catch((error) => {
+        console.error('Failed to persist security log:', error);
+      });
+  }
+
+  private static scheduleFlush(delay: number): void {
+    this.clearFlushTimer();
+    this.flushTimer = window.setTimeout(() => {
+      this.flushTimer = null;
+      this.flush();
+    }, delay);
+  }
+
+  private static clearFlushTimer(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+  }
+
+  private static bindOnlineListener(): void {
+    if (this.isOnlineListenerBound) {
+      return;
+    }
+
+    this.isOnlineListenerBound = true;
+    window.addEventListener('online', () => {
+      this.retryAttempt = 0;
+      this.flush();
+    });
+  }
+
+  private static async sendLogsToServer(logs: SecurityLog[]): Promise<void> {
+    if (!this.uploader) {
+      throw new Error('Security log uploader not configured');
     }
+    await this.uploader(logs);
   }
 }
 
 // Session security
 export class SessionSecurityService {
-  private static readonly SESSION_TIMEOUT = 30 * 60 * 1000; // 30 minutes
-  private static readonly ACTIVITY_CHECK_INTERVAL = 60 * 1000; // 1 minute
+  private static readonly ACTIVITY_CHECK_INTERVAL = 15 * 1000; // 15 seconds
+  private static readonly ACTIVITY_BROADCAST_INTERVAL = 15 * 1000; // 15 seconds
+  private static readonly SESSION_STARTED_KEY = 'mercalo_session_started_at';
+  private static policy: SessionPolicy = {
+    idleTimeoutMinutes: 30,
+    absoluteLifetimeMinutes: null,
+    warningLeadMinutes: 5,
+  };
   private static lastActivity = Date.now();
+  private static lastActivityBroadcast = 0;
   private static activityTimer: number | null = null;
-  private static warningTimer: number | null = null;
+  private static warning: SessionExpiryReason | null = null;
 
+  /** Tracks activity; the expiry checks only run between `startSession` and `destroySession` */
   static initializeSessionSecurity(): void {
     this.updateLastActivity();
-    this.startActivityMonitoring();
     this.bindActivityEvents();
+    this.bindSyncEvents();
+  }
+
+  /**
+   * Switches to the company/role policy of the signed-in user. A pending
+   * warning is re-evaluated against the new limits on the next check.
+   */
+  static applyPolicy(policy: SessionPolicy): void {
+    this.policy = { ...policy };
+    this.clearWarning();
+  }
+
+  static getPolicy(): SessionPolicy {
+    return { ...this.policy };
+  }
+
+  /**
+   * Marks the start of a signed-in session for the absolute lifetime. Kept in
+   * localStorage so reloads and new tabs don't restart the clock.
+   */
+  static startSession(): void {
+    localStorage.setItem(this.SESSION_STARTED_KEY, String(Date.now()));
+    this.lastActivity = Date.now();
+    this.startActivityMonitoring();
+  }
+
+  /**
+   * Resumes the expiry checks for a session restored after a reload, keeping
+   * the original start time.
+   */
+  static resumeSession(): void {
+    this.startActivityMonitoring();
   }
 
   static updateLastActivity(): void {
     this.lastActivity = Date.now();
+
+    // Share activity with other tabs, throttled to avoid flooding the channel
+    if (this.lastActivity - this.lastActivityBroadcast >= this.ACTIVITY_BROADCAST_INTERVAL) {
+      this.lastActivityBroadcast = this.lastActivity;
+      sessionSyncService.broadcast({ type: 'activity', timestamp: this.lastActivity });
+    }
+  }
+
+  /**
+   * Applies activity reported by another tab without re-broadcasting it.
+   */
+  static syncLastActivity(timestamp: number): void {
+    if (timestamp <= this.lastActivity) {
+      return;
+    }
+
+    this.lastActivity = timestamp;
+    // Activity can't push back the absolute lifetime, so only idle warnings clear
+    if (this.warning === 'idle') {
+      this.clearWarning();
+      window.dispatchEvent(new CustomEvent('session-extended'));
+    }
   }
 
   static isSessionExpired(): boolean {
-    return Date.now() - this.lastActivity > this.SESSION_TIMEOUT;
+    return this.getRemainingTime() === 0;
   }
 
+  /**
+   * Milliseconds until the session ends, whichever of the idle timeout and
+   * the absolute lifetime comes first.
+   */
   static getRemainingTime(): number {
-    return Math.max(0, this.SESSION_TIMEOUT - (Date.now() - this.lastActivity));
+    const idleRemaining = this.policy.idleTimeoutMinutes * 60 * 1000 - (Date.now() - this.lastActivity);
+    const absoluteRemaining = this.getAbsoluteRemainingTime() ?? Infinity;
+    return Math.max(0, Math.min(idleRemaining, absoluteRemaining));
+  }
+
+  static getExpiryReason(): SessionExpiryReason {
+    const idleRemaining = this.policy.idleTimeoutMinutes * 60 * 1000 - (Date.now() - this.lastActivity);
+    const absoluteRemaining = this.getAbsoluteRemainingTime();
+    return absoluteRemaining !== null && absoluteRemaining <= idleRemaining ? 'absolute' : 'idle';
   }
 
   static extendSession(): void {
+    // Always reach the other tabs so their warnings close too
+    this.lastActivityBroadcast = 0;
     this.updateLastActivity();
-    if (this.warningTimer) {
-      window.clearTimeout(this.warningTimer);
-      this.warningTimer = null;
+    if (this.warning === 'idle') {
+      this.clearWarning();
     }
   }
 
@@ -183,21 +383,40 @@ export class SessionSecurityService {
       window.clearInterval(this.activityTimer);
       this.activityTimer = null;
     }
-    if (this.warningTimer) {
-      window.clearTimeout(this.warningTimer);
-      this.warningTimer = null;
+    this.clearWarning();
+    localStorage.removeItem(this.SESSION_STARTED_KEY);
+  }
+
+  private static getAbsoluteRemainingTime(): number | null {
+    const startedAt = Number(localStorage.getItem(this.SESSION_STARTED_KEY));
+    if (this.policy.absoluteLifetimeMinutes === null || !startedAt) {
+      return null;
+    }
+
+    return this.policy.absoluteLifetimeMinutes * 60 * 1000 - (Date.now() - startedAt);
+  }
+
+  private static clearWarning(): void {
+    this.warning = null;
+  }
+
+  /**
+   * Expires the session or raises the warning when due. Runs on an interval,
+   * and the warning modal calls it when its countdown reaches zero.
+   */
+  static checkSession(): void {
+    if (this.isSessionExpired()) {
+      this.handleSessionExpiry();
+    } else if (this.getRemainingTime() < this.policy.warningLeadMinutes * 60 * 1000 && !this.warning) {
+      this.showSessionWarning();
     }
   }
 
   private static startActivityMonitoring(): void {
-    this.activityTimer = window.setInterval(() => {
-      if (this.isSessionExpired()) {
-        this.handleSessionExpiry();
-      } else if (this.getRemainingTime() < 5 * 60 * 1000 && !this.warningTimer) {
-        // Show warning 5 minutes before expiry
-        this.showSessionWarning();
-      }
-    }, this.ACTIVITY_CHECK_INTERVAL);
+    if (this.activityTimer) {
+      return;
+    }
+    this.activityTimer = window.setInterval(() => this.checkSession(), this.ACTIVITY_CHECK_INTERVAL);
   }
 
   private static bindActivityEvents(): void {
@@ -210,6 +429,12 @@ export class SessionSecurityService {
     });
   }
 
+  private static bindSyncEvents(): void {
+    sessionSyncService.subscribe('activity', (message) => {
+      this.syncLastActivity(message.timestamp);
+    });
+  }
+
   private static handleSessionExpiry(): void {
     SecurityLogger.log({
       type: 'session_expired',
@@ -217,7 +442,8 @@ export class SessionSecurityService {
       message: 'User session has expired',
       details: {
         lastActivity: new Date(this.lastActivity).toISOString(),
-        timeoutDuration: this.SESSION_TIMEOUT,
+        reason: this.getExpiryReason(),
+        policy: this.policy,
       },
     });
 
@@ -226,18 +452,39 @@ export class SessionSecurityService {
   }
 
   private static showSessionWarning(): void {
-    this.warningTimer = window.setTimeout(() => {
-      window.dispatchEvent(new CustomEvent('session-warning', {
-        detail: { remainingTime: this.getRemainingTime() }
-      }));
-    }, 1000);
+    this.warning = this.getExpiryReason();
+    window.dispatchEvent(new CustomEvent<SessionWarningDetail>('session-warning', {
+      detail: {
+        remainingTime: this.getRemainingTime(),
+        reason: this.warning,
+      }
+    }));
   }
 }
 
 // Types
+export type SecuritySeverity = 'low' | 'medium' | 'high';
+
+export type SessionExpiryReason = 'idle' | 'absolute';
+
+export interface SessionWarningDetail {
+  remainingTime: number;
+  reason: SessionExpiryReason;
+}
+
+export interface SecurityLoggerConfig {
+  /** Lowest severity kept in the persistent audit log */
+  persistSeverity: SecuritySeverity;
+  /** Lowest severity queued for upload to the server */
+  uploadSeverity: SecuritySeverity;
+  batchSize: number;
+  /** Uploaded entries beyond this count are pruned, oldest first */
+  maxEntries: number;
+}
+
 export interface SecurityEvent {
   type: SecurityEventType;
-  severity: 'low' | 'medium' | 'high';
+  severity: SecuritySeverity;
   message: string;
   details?: Record<string, any>;
 }
@@ -263,7 +510,27 @@ export type SecurityEventType =
   | 'suspicious_activity'
   | 'security_header_missing'
   | 'xss_attempt'
-  | 'sql_injection_attempt';
+  | 'sql_injection_attempt'
+  | 'two_factor_challenge'
+  | 'two_factor_success'
+  | 'two_factor_failure'
+  | 'two_factor_enabled'
+  | 'two_factor_disabled'
+  | 'terminal_locked'
+  | 'pin_unlock_success'
+  | 'pin_unlock_failure'
+  | 'pin_changed'
+  | 'cashier_switched'
+  | 'session_revoked'
+  | 'session_extended'
+  | 'password_changed'
+  | 'profile_updated'
+  | 'user_invited'
+  | 'invitation_revoked'
+  | 'user_role_changed'
+  | 'user_deactivated'
+  | 'user_reactivated'
+  | 'password_reset_forced';
 
 // Rate limiting with exponential backoff
 export class RateLimitService {
@@ -0,0 +1,49 @@
+import type { ApiResponse, Company, SessionPolicies, SessionPolicy, User } from '@/types';
+import { apiClient } from './apiClient';
+
+/**
+ * Idle timeout, absolute lifetime and warning lead time for MercaloPOS
+ * sessions, configured per company with optional per-role replacements.
+ */
+
+export const DEFAULT_SESSION_POLICY: SessionPolicy = {
+  idleTimeoutMinutes: 30,
+  absoluteLifetimeMinutes: null,
+  warningLeadMinutes: 5,
+};
+
+/**
+ * The policy that applies to `user`: their role's policy, else the company
+ * default, else `DEFAULT_SESSION_POLICY`.
+ */
+export function resolveSessionPolicy(
+  company: Pick<Company, 'sessionPolicies'> | null | undefined,
+  user: Pick<User, 'role'> | null | undefined
+): SessionPolicy {
+  const policies = company?.sessionPolicies;
+  return (user && policies?.roles?.[user.role]) ?? policies?.default ?? DEFAULT_SESSION_POLICY;
+}
+
+/**
+ * Returns a Spanish message describing why `policy` is invalid, or null when
+ * it can be saved.
+ */
+export function validateSessionPolicy(policy: SessionPolicy): string | null {
+  if (!Number.isInteger(policy.idleTimeoutMinutes) || policy.idleTimeoutMinutes < 1) {
+    return 'El tiempo de inactividad debe ser de al menos 1 minuto';
+  }
+  if (!Number.isInteger(policy.warningLeadMinutes) || policy.warningLeadMinutes < 1) {
+    return 'El aviso debe mostrarse al menos 1 minuto antes';
+  }
+  if (policy.warningLeadMinutes >= policy.idleTimeoutMinutes) {
+    return 'El aviso debe mostrarse antes de que termine el tiempo de inactividad';
+  }
+  if (policy.absoluteLifetimeMinutes !== null && policy.absoluteLifetimeMinutes < policy.idleTimeoutMinutes) {
+    return 'La duración máxima no puede ser menor que el tiempo de inactividad';
+  }
+  return null;
+}
+
+export async function saveSessionPolicies(policies: SessionPolicies): Promise<ApiResponse<Company>> {
+  return apiClient.put<Company>('/company/session-policies', { sessionPolicies: policies });
+}
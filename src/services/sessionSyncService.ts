@@ -0,0 +1,191 @@
+import type { TerminalLock, User } from '@/types';
+import { createId } from '@/utils/id';
+
+/**
+ * Cross-tab session coordination for MercaloPOS.
+ *
+ * Every open tab shares activity, token refreshes, logouts and session expiry
+ * through a BroadcastChannel, falling back to `storage` events on browsers
+ * without BroadcastChannel support.
+ */
+
+export type SessionSyncMessage =
+  | { type: 'activity'; timestamp: number }
+  | { type: 'token_refreshed'; accessToken: string }
+  | { type: 'refresh_failed' }
+  | { type: 'logout' }
+  | { type: 'session_expired' }
+  | { type: 'terminal_locked'; lock: TerminalLock }
+  | { type: 'terminal_unlocked'; user: User; accessToken: string };
+
+export type SessionSyncMessageType = SessionSyncMessage['type'];
+
+type SessionSyncEnvelope = SessionSyncMessage & {
+  tabId: string;
+  sentAt: number;
+};
+
+type SessionSyncListener<T extends SessionSyncMessageType> = (
+  message: Extract<SessionSyncMessage, { type: T }>
+) => void;
+
+class SessionSyncService {
+  private readonly channelName = 'mercalo_session_sync';
+  private readonly storageKey = 'mercalo_session_sync_message';
+  private readonly refreshLockKey = 'mercalo_refresh_lock';
+  private readonly refreshWaitTimeout = 15000;
+  readonly tabId = createId();
+  private channel: BroadcastChannel | null = null;
+  private listeners = new Map<SessionSyncMessageType, Set<(message: SessionSyncMessage) => void>>();
+
+  constructor() {
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(this.channelName);
+      this.channel.onmessage = (event: MessageEvent<SessionSyncEnvelope>) => {
+        this.dispatch(event.data);
+      };
+    } else {
+      window.addEventListener('storage', this.handleStorageEvent.bind(this));
+    }
+  }
+
+  broadcast(message: SessionSyncMessage): void {
+    const envelope: SessionSyncEnvelope = {
+      ...message,
+      tabId: this.tabId,
+      sentAt: Date.now(),
+    };
+
+    if (this.channel) {
+      this.channel.postMessage(envelope);
+      return;
+    }
+
+    // Writing then removing the key still fires a storage event in other tabs
+    // without leaving the payload behind in localStorage.
+    localStorage.setItem(this.storageKey, JSON.stringify(envelope));
+    localStorage.removeItem(this.storageKey);
+  }
+
+  subscribe<T extends SessionSyncMessageType>(type: T, listener: SessionSyncListener<T>): () => void {
+    const listeners = this.listeners.get(type) ?? new Set();
+    const wrapped = listener as (message: SessionSyncMessage) => void;
+    listeners.add(wrapped);
+    this.listeners.set(type, listeners);
+
+    return () => {
+      listeners.delete(wrapped);
+    };
+  }
+
+  /**
+   * Runs `refresh` in at most one tab at a time. Tabs that lose the race wait
+   * for the winner to broadcast the new access token instead of refreshing.
+   */
+  async runExclusiveRefresh(refresh: () => Promise<string>): Promise<string> {
+    const run = async (): Promise<string> => {
+      try {
+        const accessToken = await refresh();
+        this.broadcast({ type: 'token_refreshed', accessToken });
+        return accessToken;
+      } catch (error) {
+        this.broadcast({ type: 'refresh_failed' });
+        throw error;
+      }
+    };
+
+    if (navigator.locks) {
+      const result = await navigator.locks.request(
+        this.refreshLockKey,
+        { ifAvailable: true },
+        async (lock) => (lock ? run() : null)
+      );
+      return result ?? this.waitForRemoteRefresh();
+    }
+
+    if (!this.acquireStorageLock()) {
+      return this.waitForRemoteRefresh();
+    }
+
+    try {
+      return await run();
+    } finally {
+      this.releaseStorageLock();
+    }
+  }
+
+  private waitForRemoteRefresh(): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const cleanup = () => {
+        window.clearTimeout(timer);
+        unsubscribeRefreshed();
+        unsubscribeFailed();
+      };
+
+      const timer = window.setTimeout(() => {
+        cleanup();
+        reject(new Error('Timed out waiting for token refresh in another tab'));
+      }, this.refreshWaitTimeout);
+
+      const unsubscribeRefreshed = this.subscribe('token_refreshed', (message) => {
+        cleanup();
+        resolve(message.accessToken);
+      });
+
+      const unsubscribeFailed = this.subscribe('refresh_failed', () => {
+        cleanup();
+        reject(new Error('Token refresh failed in another tab'));
+      });
+    });
+  }
+
+  // Lease-based lock for browsers without the Web Locks API
+  private acquireStorageLock(): boolean {
+    const now = Date.now();
+    const raw = localStorage.getItem(this.refreshLockKey);
+
+    if (raw) {
+      try {
+        const lock = JSON.parse(raw) as { tabId: string; expiresAt: number };
+        if (lock.tabId !== this.tabId && lock.expiresAt > now) {
+          return false;
+        }
+      } catch {
+        // Corrupted lock entry, overwrite it
+      }
+    }
+
+    localStorage.setItem(
+      this.refreshLockKey,
+      JSON.stringify({ tabId: this.tabId, expiresAt: now + this.refreshWaitTimeout })
+    );
+    return true;
+  }
+
+  private releaseStorageLock(): void {
+    localStorage.removeItem(this.refreshLockKey);
+  }
+
+  private handleStorageEvent(event: StorageEvent): void {
+    if (event.key !== this.storageKey || !event.newValue) {
+      return;
+    }
+
+    try {
+      this.dispatch(JSON.parse(event.newValue));
+    } catch {
+      // Ignore malformed messages
+    }
+  }
+
+  private dispatch(envelope: SessionSyncEnvelope): void {
+    if (envelope.tabId === this.tabId) {
+      return;
+    }
+
+    this.listeners.get(envelope.type)?.forEach((listener) => listener(envelope));
+  }
+}
+
+export const sessionSyncService = new SessionSyncService();
+export default sessionSyncService;
@@ -0,0 +1,86 @@
+import writeXlsxFile from 'write-excel-file/browser';
+import { downloadFile, toCsv } from '@/utils/download';
+import type { CsvColumn } from '@/utils/download';
+
+/**
+ * CSV and XLSX import/export. Files are parsed in a Web Worker so a few
+ * thousand rows don't block the UI.
+ */
+
+export type SpreadsheetFormat = 'csv' | 'xlsx';
+
+export interface SpreadsheetRow {
+  /** 1-based, as shown by spreadsheet apps */
+  rowNumber: number;
+  cells: string[];
+}
+
+/** First non-blank row as headers; cells as trimmed text, blank rows dropped */
+export interface ParsedSpreadsheet {
+  headers: string[];
+  rows: SpreadsheetRow[];
+}
+
+export type SpreadsheetWorkerResponse = { sheet: ParsedSpreadsheet } | { error: string };
+
+export const SPREADSHEET_ACCEPT =
+  '.csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+export const MAX_SPREADSHEET_BYTES = 5 * 1024 * 1024;
+
+export function getSpreadsheetFormat(fileName: string): SpreadsheetFormat | null {
+  const extension = fileName.toLowerCase().split('.').pop();
+  return extension === 'csv' || extension === 'xlsx' ? extension : null;
+}
+
+export function parseSpreadsheet(file: File): Promise<ParsedSpreadsheet> {
+  if (!getSpreadsheetFormat(file.name)) {
+    return Promise.reject(new Error('Solo se admiten archivos CSV o XLSX'));
+  }
+  if (file.size > MAX_SPREADSHEET_BYTES) {
+    return Promise.reject(new Error('El archivo supera el máximo de 5 MB'));
+  }
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('../workers/spreadsheetParser.worker.ts', import.meta.url), {
+      type: 'module',
+    });
+
+    worker.onmessage = (event: MessageEvent<SpreadsheetWorkerResponse>) => {
+      worker.terminate();
+      if ('error' in event.data) {
+        reject(new Error(event.data.error));
+      } else {
+        resolve(event.data.sheet);
+      }
+    };
+    worker.onerror = () => {
+      worker.terminate();
+      reject(new Error('No se pudo leer el archivo'));
+    };
+    worker.postMessage(file);
+  });
+}
+
+export async function exportSpreadsheet<T>(
+  rows: T[],
+  columns: CsvColumn<T>[],
+  baseName: string,
+  format: SpreadsheetFormat
+): Promise<void> {
+  const filename = `${baseName}.${format}`;
+
+  if (format === 'csv') {
+    downloadFile(toCsv(rows, columns), filename, 'text/csv;charset=utf-8');
+    return;
+  }
+
+  const blob = await writeXlsxFile(
+    [
+      columns.map((column) => ({ value: column.header, fontWeight: 'bold' as const })),
+      ...rows.map((row) => columns.map((column) => column.value(row) ?? null)),
+    ],
+    { columns: columns.map(() => ({ width: 20 })) }
+  ).toBlob();
+  downloadFile(blob, filename, blob.type);
+}
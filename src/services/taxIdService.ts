@@ -0,0 +1,199 @@
+import * as yup from 'yup';
+import type { NitLookupResult } from '@/types';
+import { TaxDocumentType } from '@/types';
+import { apiClient } from './apiClient';
+import { ValidationError } from './apiErrors';
+
+/**
+ * Colombian identification numbers: NIT with its DIAN check digit (DV),
+ * cédulas de ciudadanía and extranjería, and passports.
+ */
+
+export const TAX_DOCUMENT_LABELS: Record<TaxDocumentType, string> = {
+  [TaxDocumentType.NIT]: 'NIT',
+  [TaxDocumentType.CC]: 'Cédula de ciudadanía',
+  [TaxDocumentType.CE]: 'Cédula de extranjería',
+  [TaxDocumentType.PASSPORT]: 'Pasaporte',
+};
+
+export const TAX_DOCUMENT_ABBREVIATIONS: Record<TaxDocumentType, string> = {
+  [TaxDocumentType.NIT]: 'NIT',
+  [TaxDocumentType.CC]: 'CC',
+  [TaxDocumentType.CE]: 'CE',
+  [TaxDocumentType.PASSPORT]: 'PA',
+};
+
+const DOCUMENT_PATTERNS: Record<TaxDocumentType, { pattern: RegExp; message: string }> = {
+  [TaxDocumentType.NIT]: {
+    pattern: /^[1-9]\d{4,14}$/,
+    message: 'El NIT debe tener entre 5 y 15 dígitos, sin el dígito de verificación',
+  },
+  [TaxDocumentType.CC]: {
+    pattern: /^[1-9]\d{2,9}$/,
+    message: 'La cédula debe tener entre 3 y 10 dígitos',
+  },
+  [TaxDocumentType.CE]: {
+    pattern: /^[1-9]\d{2,9}$/,
+    message: 'La cédula de extranjería debe tener entre 3 y 10 dígitos',
+  },
+  [TaxDocumentType.PASSPORT]: {
+    pattern: /^[A-Z0-9]{4,20}$/,
+    message: 'El pasaporte debe tener entre 4 y 20 letras o números',
+  },
+};
+
+// DIAN prime weights, applied from the rightmost digit of the NIT
+const DV_WEIGHTS = [3, 7, 13, 17, 19, 23, 29, 37, 41, 43, 47, 53, 59, 67, 71];
+
+/**
+ * Removes the separators people type or paste (dots, commas, spaces) and
+ * upper-cases passport letters. The DV hyphen is kept; see `splitNit`.
+ */
+export function normalizeTaxId(value: string): string {
+  return value.replace(/[.,\s]/g, '').toUpperCase();
+}
+
+/** Splits `900.123.456-8` into its number and check digit */
+export function splitNit(value: string): { nit: string; dv?: string } {
+  const [nit, dv] = normalizeTaxId(value).split('-');
+  return dv === undefined ? { nit } : { nit, dv };
+}
+
+/** DIAN modulo-11 check digit for a NIT of up to 15 digits */
+export function calculateNitDv(nit: string): string {
+  const digits = normalizeTaxId(nit);
+  if (!/^\d{1,15}$/.test(digits)) {
+    throw new Error(`Cannot calculate the DV of "${nit}"`);
+  }
+
+  const sum = digits
+    .split('')
+    .reverse()
+    .reduce((total, digit, index) => total + Number(digit) * DV_WEIGHTS[index], 0);
+  const remainder = sum % 11;
+
+  return String(remainder > 1 ? 11 - remainder : remainder);
+}
+
+export function isValidNitDv(nit: string, dv: string): boolean {
+  return /^\d{1,15}$/.test(nit) && calculateNitDv(nit) === dv;
+}
+
+type TaxIdProblem = { part: 'number' | 'dv'; message: string };
+
+function checkTaxId(type: TaxDocumentType, number: string, dv?: string): TaxIdProblem | null {
+  const { pattern, message } = DOCUMENT_PATTERNS[type];
+  const normalized = normalizeTaxId(number);
+
+  if (!pattern.test(normalized)) {
+    return { part: 'number', message };
+  }
+  if (type === TaxDocumentType.NIT) {
+    if (!dv) {
+      return { part: 'dv', message: 'El dígito de verificación es requerido' };
+    }
+    if (!isValidNitDv(normalized, dv)) {
+      return { part: 'dv', message: 'El dígito de verificación no corresponde al NIT' };
+    }
+  }
+  return null;
+}
+
+/**
+ * Returns a Spanish message describing why the document is invalid, or null
+ * when it is valid. `dv` is only checked for NIT.
+ */
+export function validateTaxId(type: TaxDocumentType, number: string, dv?: string): string | null {
+  return checkTaxId(type, number, dv)?.message ?? null;
+}
+
+/**
+ * Pre-flight check for service calls, like `assertPasswordPolicy`. The
+ * `ValidationError` points at `fields.number` or `fields.dv`.
+ */
+export function assertTaxId(
+  type: TaxDocumentType,
+  number: string,
+  dv: string | undefined,
+  fields: { number: string; dv: string } = { number: 'nit', dv: 'dv' }
+): void {
+  const problem = checkTaxId(type, number, dv);
+  if (!problem) {
+    return;
+  }
+
+  throw new ValidationError(problem.message, {
+    status: 422,
+    code: 'INVALID_TAX_ID',
+    errors: [{ code: 'INVALID_TAX_ID', message: problem.message, field: fields[problem.part] }],
+  });
+}
+
+const groupThousands = (digits: string): string => digits.replace(/\B(?=(\d{3})+(?!\d))/g, '.');
+
+/** `900123456` and `8` become `900.123.456-8` */
+export function formatNit(nit: string, dv?: string): string {
+  const grouped = groupThousands(normalizeTaxId(nit));
+  return dv ? `${grouped}-${dv}` : grouped;
+}
+
+/** Display form of any document; passports are shown as typed */
+export function formatTaxId(type: TaxDocumentType, number: string, dv?: string): string {
+  if (type === TaxDocumentType.NIT) {
+    return formatNit(number, dv);
+  }
+  return type === TaxDocumentType.PASSPORT ? normalizeTaxId(number) : groupThousands(normalizeTaxId(number));
+}
+
+/**
+ * Document number field. Reads the document type from the sibling
+ * `typeField` and strips separators, so the submitted value is digits only.
+ */
+export function taxIdSchema(typeField = 'documentType') {
+  return yup
+    .string()
+    .transform((value: string | undefined) => (value ? splitNit(value).nit : value))
+    .required('El número de documento es requerido')
+    .test('tax-id-format', function (value) {
+      const type = (this.parent?.[typeField] as TaxDocumentType | undefined) ?? TaxDocumentType.NIT;
+      const { pattern, message } = DOCUMENT_PATTERNS[type];
+
+      return pattern.test(value ?? '') ? true : this.createError({ message });
+    });
+}
+
+/** Check digit field; required and verified only when the type is NIT */
+export function nitDvSchema(numberField = 'nit', typeField = 'documentType') {
+  return yup
+    .string()
+    .trim()
+    .default('')
+    .test('nit-dv', function (value) {
+      const parent = this.parent ?? {};
+      if ((parent[typeField] ?? TaxDocumentType.NIT) !== TaxDocumentType.NIT) {
+        return true;
+      }
+      if (!value) {
+        return this.createError({ message: 'El DV es requerido' });
+      }
+      if (!/^\d$/.test(value)) {
+        return this.createError({ message: 'El DV es un solo dígito' });
+      }
+
+      const nit = splitNit(String(parent[numberField] ?? '')).nit;
+      // An invalid number already has its own error
+      if (!DOCUMENT_PATTERNS[TaxDocumentType.NIT].pattern.test(nit)) {
+        return true;
+      }
+      return isValidNitDv(nit, value) ? true : this.createError({ message: 'El DV no corresponde al NIT' });
+    });
+}
+
+/**
+ * Looks the NIT up in the DIAN registry through the backend, so forms can
+ * suggest the registered business name and flag NITs already in use.
+ */
+export async function lookupNit(nit: string): Promise<NitLookupResult> {
+  const response = await apiClient.get<NitLookupResult>(`/tax-ids/nit/${encodeURIComponent(normalizeTaxId(nit))}`);
+  return response.data ?? { alreadyRegistered: false };
+}
@@ -0,0 +1,79 @@
+import type { TerminalLock, TerminalLockMode, TerminalUser, User } from '@/types';
+import { apiClient } from './apiClient';
+import { SecurityLogger } from './securityService';
+import { sessionSyncService } from './sessionSyncService';
+
+/**
+ * Lock screen state for shared terminals.
+ *
+ * The company session stays signed in while the terminal is locked; the lock
+ * is persisted so a reload or a new tab cannot bypass it, and mirrored to the
+ * other tabs through the session sync channel.
+ */
+
+export type TerminalLockListener = (lock: TerminalLock | null, unlockedBy?: { user: User; accessToken: string }) => void;
+
+class TerminalLockService {
+  private readonly storageKey = 'mercalo_terminal_lock';
+
+  getLock(): TerminalLock | null {
+    try {
+      const stored = localStorage.getItem(this.storageKey);
+      return stored ? (JSON.parse(stored) as TerminalLock) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  lock(mode: TerminalLockMode, user: User): TerminalLock {
+    const lock: TerminalLock = { mode, userId: user.id, lockedAt: Date.now() };
+    localStorage.setItem(this.storageKey, JSON.stringify(lock));
+    sessionSyncService.broadcast({ type: 'terminal_locked', lock });
+
+    SecurityLogger.log({
+      type: 'terminal_locked',
+      severity: 'low',
+      message: mode === 'switch' ? 'Terminal locked to switch cashier' : 'Terminal locked',
+      details: { userId: user.id }
+    });
+
+    return lock;
+  }
+
+  /**
+   * Lifts the lock after a successful PIN unlock and hands the unlocked
+   * user's access token to the other tabs.
+   */
+  release(user: User, accessToken: string): void {
+    this.clear();
+    sessionSyncService.broadcast({ type: 'terminal_unlocked', user, accessToken });
+  }
+
+  // Drops the lock without notifying other tabs (login/logout already do)
+  clear(): void {
+    localStorage.removeItem(this.storageKey);
+  }
+
+  onLockChange(listener: TerminalLockListener): () => void {
+    const unsubscribeLocked = sessionSyncService.subscribe('terminal_locked', (message) => {
+      listener(message.lock);
+    });
+    const unsubscribeUnlocked = sessionSyncService.subscribe('terminal_unlocked', (message) => {
+      listener(null, { user: message.user, accessToken: message.accessToken });
+    });
+
+    return () => {
+      unsubscribeLocked();
+      unsubscribeUnlocked();
+    };
+  }
+
+  // Users of the company that can unlock this terminal with a PIN
+  async getTerminalUsers(): Promise<TerminalUser[]> {
+    const response = await apiClient.get<TerminalUser[]>('/auth/terminal/users');
+    return response.data ?? [];
+  }
+}
+
+export const terminalLockService = new TerminalLockService();
+export default terminalLockService;
@@ -0,0 +1,181 @@
+/**
+ * Proactive access token refresh for MercaloPOS.
+ *
+ * Refreshes ahead of expiry (with jitter so open tabs don't all fire at once),
+ * retries with exponential backoff and pauses while the tab is hidden or the
+ * device is offline.
+ */
+
+export type TokenRefreshEvent =
+  | { type: 'scheduled'; refreshAt: number; expiresAt: number }
+  | { type: 'refreshing'; attempt: number }
+  | { type: 'refreshed'; accessToken: string }
+  | { type: 'retrying'; attempt: number; delay: number; error: Error }
+  | { type: 'failed'; error: Error }
+  | { type: 'paused'; reason: 'hidden' | 'offline' }
+  | { type: 'resumed' }
+  | { type: 'stopped' };
+
+export type TokenRefreshListener = (event: TokenRefreshEvent) => void;
+
+export interface TokenRefreshSchedulerOptions {
+  refresh: () => Promise<string>;
+  /** Return false to stop retrying, e.g. once the server rejected the refresh token */
+  shouldRetry?: (error: Error) => boolean;
+}
+
+export class TokenRefreshScheduler {
+  private static readonly REFRESH_LEAD = 60 * 1000; // 1 minute before expiry
+  private static readonly MAX_JITTER = 15 * 1000; // 15 seconds
+  private static readonly RETRY_BASE_DELAY = 2 * 1000; // 2 seconds
+  private static readonly MAX_RETRIES = 4;
+
+  private readonly options: TokenRefreshSchedulerOptions;
+  private listeners = new Set<TokenRefreshListener>();
+  private timer: number | null = null;
+  private expiresAt: number | null = null;
+  private refreshAt: number | null = null;
+  private attempt = 0;
+  private isRefreshing = false;
+
+  constructor(options: TokenRefreshSchedulerOptions) {
+    this.options = options;
+
+    document.addEventListener('visibilitychange', this.handleConditionsChange.bind(this));
+    window.addEventListener('online', this.handleConditionsChange.bind(this));
+    window.addEventListener('offline', this.handleConditionsChange.bind(this));
+  }
+
+  subscribe(listener: TokenRefreshListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Schedules the next refresh for a token expiring at `expiresAt` (epoch ms).
+   */
+  schedule(expiresAt: number): void {
+    const now = Date.now();
+    const lifetime = Math.max(0, expiresAt - now);
+
+    // Short-lived tokens get a proportionally shorter lead and jitter
+    const lead = Math.min(TokenRefreshScheduler.REFRESH_LEAD, lifetime / 4);
+    const jitter = Math.random() * Math.min(TokenRefreshScheduler.MAX_JITTER, lifetime / 10);
+
+    this.expiresAt = expiresAt;
+    this.refreshAt = Math.max(now, expiresAt - lead - jitter);
+
+    this.emit({ type: 'scheduled', refreshAt: this.refreshAt, expiresAt });
+    this.arm();
+  }
+
+  stop(): void {
+    this.clearTimer();
+    this.expiresAt = null;
+    this.refreshAt = null;
+    this.attempt = 0;
+    this.emit({ type: 'stopped' });
+  }
+
+  getExpiresAt(): number | null {
+    return this.expiresAt;
+  }
+
+  private arm(): void {
+    this.clearTimer();
+
+    if (this.refreshAt === null || this.isRefreshing) {
+      return;
+    }
+
+    const pauseReason = this.getPauseReason();
+    if (pauseReason) {
+      this.emit({ type: 'paused', reason: pauseReason });
+      return;
+    }
+
+    this.timer = window.setTimeout(() => {
+      this.timer = null;
+      this.run();
+    }, Math.max(0, this.refreshAt - Date.now()));
+  }
+
+  private async run(): Promise<void> {
+    if (this.getPauseReason()) {
+      this.arm();
+      return;
+    }
+
+    this.isRefreshing = true;
+    this.attempt++;
+    this.emit({ type: 'refreshing', attempt: this.attempt });
+
+    try {
+      const accessToken = await this.options.refresh();
+      this.isRefreshing = false;
+      this.attempt = 0;
+      this.emit({ type: 'refreshed', accessToken });
+
+      // The refresh callback reschedules with the new token's expiry; if it
+      // didn't, wait for the next explicit schedule() instead of looping
+      if (this.refreshAt !== null && this.refreshAt > Date.now()) {
+        this.arm();
+      } else {
+        this.refreshAt = null;
+      }
+    } catch (caught) {
+      this.isRefreshing = false;
+      const error = caught instanceof Error ? caught : new Error(String(caught));
+      const canRetry = this.options.shouldRetry?.(error) ?? true;
+
+      if (!canRetry || this.attempt >= TokenRefreshScheduler.MAX_RETRIES) {
+        this.refreshAt = null;
+        this.attempt = 0;
+        this.emit({ type: 'failed', error });
+        return;
+      }
+
+      const delay = TokenRefreshScheduler.RETRY_BASE_DELAY * Math.pow(2, this.attempt - 1)
+        + Math.random() * 1000;
+      this.refreshAt = Date.now() + delay;
+      this.emit({ type: 'retrying', attempt: this.attempt, delay, error });
+      this.arm();
+    }
+  }
+
+  private handleConditionsChange(): void {
+    if (this.refreshAt === null || this.isRefreshing) {
+      return;
+    }
+
+    const wasPaused = this.timer === null;
+    this.arm();
+
+    if (wasPaused && this.timer !== null) {
+      this.emit({ type: 'resumed' });
+    }
+  }
+
+  private getPauseReason(): 'hidden' | 'offline' | null {
+    if (!navigator.onLine) {
+      return 'offline';
+    }
+    if (document.visibilityState === 'hidden') {
+      return 'hidden';
+    }
+    return null;
+  }
+
+  private clearTimer(): void {
+    if (this.timer !== null) {
+      window.clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private emit(event: TokenRefreshEvent): void {
+    this.listeners.forEach((listener) => listener(event));
+  }
+}
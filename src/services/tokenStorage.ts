@@ -0,0 +1,155 @@
+/**
+ * Token storage strategies for MercaloPOS authentication
+ */
+
+export type TokenStorageKind = 'memory' | 'session' | 'local' | 'cookie';
+
+export interface TokenStorage {
+  readonly kind: TokenStorageKind;
+  /** True when the refresh token lives in an httpOnly cookie managed by the server */
+  readonly isServerManaged: boolean;
+  getAccessToken(): string | null;
+  setAccessToken(token: string): void;
+  getRefreshToken(): string | null;
+  setRefreshToken(token: string): void;
+  clear(): void;
+}
+
+const ACCESS_TOKEN_KEY = 'mercalo_access_token';
+const REFRESH_TOKEN_KEY = 'mercalo_refresh_token';
+
+// Keeps tokens only for the lifetime of the page
+export class MemoryTokenStorage implements TokenStorage {
+  readonly kind: TokenStorageKind = 'memory';
+  readonly isServerManaged: boolean = false;
+  protected accessToken: string | null = null;
+  protected refreshToken: string | null = null;
+
+  getAccessToken(): string | null {
+    return this.accessToken;
+  }
+
+  setAccessToken(token: string): void {
+    this.accessToken = token;
+  }
+
+  getRefreshToken(): string | null {
+    return this.refreshToken;
+  }
+
+  setRefreshToken(token: string): void {
+    this.refreshToken = token;
+  }
+
+  clear(): void {
+    this.accessToken = null;
+    this.refreshToken = null;
+  }
+}
+
+class WebStorageTokenStorage implements TokenStorage {
+  readonly kind: TokenStorageKind;
+  readonly isServerManaged = false;
+  private readonly storage: Storage;
+
+  constructor(kind: 'session' | 'local', storage: Storage) {
+    this.kind = kind;
+    this.storage = storage;
+  }
+
+  getAccessToken(): string | null {
+    return this.storage.getItem(ACCESS_TOKEN_KEY);
+  }
+
+  setAccessToken(token: string): void {
+    this.storage.setItem(ACCESS_TOKEN_KEY, token);
+  }
+
+  getRefreshToken(): string | null {
+    return this.storage.getItem(REFRESH_TOKEN_KEY);
+  }
+
+  setRefreshToken(token: string): void {
+    this.storage.setItem(REFRESH_TOKEN_KEY, token);
+  }
+
+  clear(): void {
+    this.storage.removeItem(ACCESS_TOKEN_KEY);
+    this.storage.removeItem(REFRESH_TOKEN_KEY);
+  }
+}
+
+// Cleared when the browser (or tab) closes
+export class SessionTokenStorage extends WebStorageTokenStorage {
+  constructor() {
+    super('session', sessionStorage);
+  }
+}
+
+// Survives browser restarts; only used when the user asks to be remembered
+export class LocalTokenStorage extends WebStorageTokenStorage {
+  constructor() {
+    super('local', localStorage);
+  }
+}
+
+/**
+ * The refresh token is an httpOnly cookie set by the server, so JavaScript
+ * never sees it. Only the short-lived access token is kept, in memory.
+ */
+export class CookieTokenStorage extends MemoryTokenStorage {
+  readonly kind: TokenStorageKind = 'cookie';
+  readonly isServerManaged: boolean = true;
+
+  getRefreshToken(): string | null {
+    return null;
+  }
+
+  setRefreshToken(): void {
+    // Managed by the server through Set-Cookie
+  }
+}
+
+type TokenStorageSetting = TokenStorageKind | 'auto';
+
+const TOKEN_STORAGE_SETTINGS: TokenStorageSetting[] = ['auto', 'memory', 'session', 'local', 'cookie'];
+
+export function getTokenStorageSetting(): TokenStorageSetting {
+  const setting = import.meta.env.VITE_TOKEN_STORAGE as TokenStorageSetting | undefined;
+  return setting && TOKEN_STORAGE_SETTINGS.includes(setting) ? setting : 'auto';
+}
+
+export function createTokenStorage(kind: TokenStorageKind): TokenStorage {
+  switch (kind) {
+    case 'memory':
+      return new MemoryTokenStorage();
+    case 'session':
+      return new SessionTokenStorage();
+    case 'local':
+      return new LocalTokenStorage();
+    case 'cookie':
+      return new CookieTokenStorage();
+  }
+}
+
+/**
+ * Picks the storage strategy from the `VITE_TOKEN_STORAGE` setting. In `auto`
+ * mode `rememberMe` chooses localStorage, otherwise sessionStorage is used so
+ * shared terminals drop the refresh token when the browser closes. Without a
+ * `rememberMe` value (page reload) the storage already holding tokens wins.
+ */
+export function resolveTokenStorage(rememberMe?: boolean): TokenStorage {
+  const setting = getTokenStorageSetting();
+
+  if (setting !== 'auto') {
+    return createTokenStorage(setting);
+  }
+
+  if (rememberMe === undefined) {
+    return localStorage.getItem(REFRESH_TOKEN_KEY)
+      ? createTokenStorage('local')
+      : createTokenStorage('session');
+  }
+
+  return createTokenStorage(rememberMe ? 'local' : 'session');
+}
@@ -0,0 +1,76 @@
+import type {
+  ApiResponse,
+  PaginatedResponse,
+  PaginationParams,
+  User,
+  UserFilters,
+  UserRole,
+  UserSeatUsage
+} from '@/types';
+import { apiClient } from './apiClient';
+import { SecurityLogger } from './securityService';
+
+/**
+ * Company user administration. Every change is written to the security log
+ * with the affected user, so admins can audit who changed what.
+ */
+class UserService {
+  async list(
+    pagination: PaginationParams,
+    filters: UserFilters = {},
+    signal?: AbortSignal
+  ): Promise<PaginatedResponse<User>> {
+    return apiClient.getPaginated<User>('/users', pagination, { params: filters, signal });
+  }
+
+  async getSeatUsage(): Promise<UserSeatUsage> {
+    const response = await apiClient.get<UserSeatUsage>('/users/seats');
+    return response.data ?? { activeUsers: 0, pendingInvitations: 0 };
+  }
+
+  async changeRole(user: User, role: UserRole): Promise<User> {
+    const response = await apiClient.patch<User>(`/users/${user.id}/role`, { role });
+
+    SecurityLogger.log({
+      type: 'user_role_changed',
+      severity: 'high',
+      message: 'User role changed',
+      details: { userId: user.id, email: user.email, from: user.role, to: role },
+    });
+
+    return response.data!;
+  }
+
+  async setActive(user: User, isActive: boolean): Promise<User> {
+    const response = await apiClient.patch<User>(`/users/${user.id}/status`, { isActive });
+
+    SecurityLogger.log({
+      type: isActive ? 'user_reactivated' : 'user_deactivated',
+      severity: isActive ? 'medium' : 'high',
+      message: isActive ? 'User reactivated' : 'User deactivated',
+      details: { userId: user.id, email: user.email },
+    });
+
+    return response.data!;
+  }
+
+  /**
+   * Ends the user's sessions and emails them a reset link; they can't sign in
+   * again until they choose a new password.
+   */
+  async forcePasswordReset(user: User): Promise<ApiResponse> {
+    const response = await apiClient.post(`/users/${user.id}/force-password-reset`);
+
+    SecurityLogger.log({
+      type: 'password_reset_forced',
+      severity: 'high',
+      message: 'Password reset forced',
+      details: { userId: user.id, email: user.email },
+    });
+
+    return response;
+  }
+}
+
+export const userService = new UserService();
+export default userService;
@@ -5,7 +5,14 @@ export interface User {
   role: UserRole;
   companyId: string;
   avatar?: string;
+  /** False until the user follows the link sent after registering */
+  emailVerified?: boolean;
+  /** New email waiting for the user to confirm it; `email` stays in use until then */
+  pendingEmail?: string;
   isActive: boolean;
+  twoFactorEnabled?: boolean;
+  /** Whether the user has a terminal PIN for fast unlock/switching */
+  pinEnabled?: boolean;
   lastLogin?: Date;
   createdAt: Date;
   updatedAt: Date;
@@ -15,12 +22,22 @@ export interface Company {
   id: string;
   name: string;
   businessType: string;
+  documentType: TaxDocumentType;
+  /** Document number without dots or check digit */
   nit: string;
-  address: string;
+  /** DIAN check digit, only present for NIT */
+  dv?: string;
+  address: Address;
+  /** E.164, e.g. +573001234567 */
   phone: string;
   email: string;
   logo?: string;
   plan: PlanType;
+  /** Server-side adjustments to the plan's default features and limits */
+  planFeatures?: Partial<PlanFeatures>;
+  permissionOverrides?: PermissionOverrides;
+  sessionPolicies?: SessionPolicies;
+  passwordPolicy?: PasswordPolicy;
   isActive: boolean;
   createdAt: Date;
   updatedAt: Date;
@@ -34,6 +51,8 @@ export interface AuthState {
   isAuthenticated: boolean;
   isLoading: boolean;
   error: string | null;
+  twoFactorChallenge: TwoFactorChallenge | null;
+  terminalLock: TerminalLock | null;
 }
 
 export interface LoginCredentials {
@@ -52,8 +71,12 @@ export interface RegisterData {
   // Company data
   companyName: string;
   businessType: string;
+  documentType: TaxDocumentType;
   nit: string;
-  address: string;
+  /** Empty unless documentType is NIT */
+  dv: string;
+  address: Address;
+  /** E.164, e.g. +573001234567 */
   phone: string;
   companyEmail: string;
 }
@@ -70,6 +93,120 @@ export interface LoginResponse {
   message: string;
 }
 
+export type TwoFactorMethod = 'totp' | 'backup_code';
+
+export interface TwoFactorChallenge {
+  challengeToken: string;
+  methods: TwoFactorMethod[];
+  expiresIn: number;
+  email: string;
+  rememberMe?: boolean;
+}
+
+// Returned by /auth/login instead of tokens when the account has 2FA enabled
+export interface TwoFactorChallengeResponse {
+  success: boolean;
+  data: {
+    challengeRequired: true;
+    challengeToken: string;
+    methods: TwoFactorMethod[];
+    expiresIn: number;
+  };
+  message: string;
+}
+
+export type LoginResult = LoginResponse | TwoFactorChallengeResponse;
+
+export interface TwoFactorVerifyData {
+  challengeToken: string;
+  code: string;
+  method: TwoFactorMethod;
+}
+
+export interface TwoFactorSetup {
+  otpauthUri: string;
+  secret: string;
+}
+
+export interface TwoFactorEnableResponse {
+  backupCodes: string[];
+}
+
+export interface TwoFactorDisableData {
+  password: string;
+  code: string;
+}
+
+// Shared-terminal lock screen: 'lock' keeps the current cashier, 'switch' lets another one in
+export type TerminalLockMode = 'lock' | 'switch';
+
+export interface TerminalLock {
+  mode: TerminalLockMode;
+  /** User that was signed in when the terminal was locked */
+  userId: string;
+  lockedAt: number;
+}
+
+export type TerminalUser = Pick<User, 'id' | 'name' | 'role' | 'avatar'>;
+
+export interface PinUnlockData {
+  userId: string;
+  pin: string;
+}
+
+export interface SetPinData {
+  pin: string;
+  password: string;
+}
+
+// A signed-in device as reported by the server
+export interface ActiveSession {
+  id: string;
+  userAgent: string;
+  ipAddress?: string;
+  /** Approximate location resolved by the server from the IP, e.g. "Medellín, CO" */
+  location?: string;
+  createdAt: string;
+  lastActivity: string;
+  isCurrent: boolean;
+}
+
+export interface SessionPolicy {
+  /** Minutes without activity before the session ends */
+  idleTimeoutMinutes: number;
+  /** Maximum session length in minutes regardless of activity; null for no limit */
+  absoluteLifetimeMinutes: number | null;
+  /** Minutes before expiry that the warning is shown */
+  warningLeadMinutes: number;
+}
+
+// Company-wide policy with optional per-role replacements
+export interface SessionPolicies {
+  default?: SessionPolicy;
+  roles?: Partial<Record<UserRole, SessionPolicy>>;
+}
+
+export interface PasswordPolicy {
+  minLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireNumber: boolean;
+  requireSymbol: boolean;
+  /** Reject passwords found in the bundled list of common/breached passwords */
+  rejectCommon: boolean;
+  /** Reject passwords containing the user's name or email */
+  rejectPersonalInfo: boolean;
+}
+
+export type PasswordRule =
+  | 'minLength'
+  | 'uppercase'
+  | 'lowercase'
+  | 'number'
+  | 'symbol'
+  | 'common'
+  | 'personalInfo';
+
 export interface RefreshTokenResponse {
   success: boolean;
   data: {
@@ -110,6 +247,77 @@ export const PlanType = {
 
 export type PlanType = typeof PlanType[keyof typeof PlanType];
 
+// Colombian identification documents accepted for companies and clients
+export const TaxDocumentType = {
+  NIT: 'nit',
+  CC: 'cc',
+  CE: 'ce',
+  PASSPORT: 'passport'
+} as const;
+
+export type TaxDocumentType = typeof TaxDocumentType[keyof typeof TaxDocumentType];
+
+export const FeatureFlag = {
+  REPORTS: 'reports',
+  CALENDAR: 'calendar',
+  DATA_EXPORT: 'data_export',
+  CUSTOM_PERMISSIONS: 'custom_permissions',
+  MULTI_USER: 'multi_user'
+} as const;
+
+export type FeatureFlag = typeof FeatureFlag[keyof typeof FeatureFlag];
+
+export const ReportType = {
+  SALES: 'sales',
+  INVENTORY: 'inventory',
+  CLIENTS: 'clients',
+  FINANCIAL: 'financial',
+  TAXES: 'taxes'
+} as const;
+
+export type ReportType = typeof ReportType[keyof typeof ReportType];
+
+export interface PlanFeatures {
+  features: FeatureFlag[];
+  /** null means unlimited */
+  maxUsers: number | null;
+  maxProducts: number | null;
+  reportTypes: ReportType[];
+}
+
+export type PlanLimit = 'maxUsers' | 'maxProducts';
+
+export const Permission = {
+  DASHBOARD_VIEW: 'dashboard:view',
+  SALES_CREATE: 'sales:create',
+  SALES_VOID: 'sales:void',
+  SALES_REFUND: 'sales:refund',
+  REPORTS_VIEW: 'reports:view',
+  REPORTS_EXPORT: 'reports:export',
+  CLIENTS_VIEW: 'clients:view',
+  CLIENTS_CREATE: 'clients:create',
+  CLIENTS_EDIT: 'clients:edit',
+  CLIENTS_DELETE: 'clients:delete',
+  CLIENTS_EXPORT: 'clients:export',
+  CREDIT_VIEW: 'credit:view',
+  CREDIT_MANAGE: 'credit:manage',
+  CALENDAR_VIEW: 'calendar:view',
+  SETTINGS_COMPANY_EDIT: 'settings:company:edit',
+  SETTINGS_PERMISSIONS_EDIT: 'settings:permissions:edit',
+  USERS_MANAGE: 'users:manage',
+  SECURITY_VIEW: 'security:view'
+} as const;
+
+export type Permission = typeof Permission[keyof typeof Permission];
+
+// Company-level changes to the default role→permission matrix
+export interface RolePermissionOverride {
+  granted?: Permission[];
+  revoked?: Permission[];
+}
+
+export type PermissionOverrides = Partial<Record<UserRole, RolePermissionOverride>>;
+
 export interface PasswordResetRequest {
   email: string;
 }
@@ -120,12 +328,120 @@ export interface PasswordReset {
   confirmPassword: string;
 }
 
+// State of an emailed single-use link (password reset, verification, invitation)
+export type TokenStatus = 'valid' | 'expired' | 'used' | 'invalid';
+
+export interface PasswordResetTokenInfo {
+  status: TokenStatus;
+  /** Account the token belongs to, used to reject passwords containing it */
+  email?: string;
+  /** Policy of the account's company; the default policy applies when missing */
+  passwordPolicy?: PasswordPolicy;
+}
+
+export interface EmailVerificationResult {
+  /** `valid` once the address is confirmed */
+  status: TokenStatus;
+  email?: string;
+}
+
+export type InvitationStatus = 'pending' | 'accepted' | 'expired' | 'revoked';
+
+export interface Invitation {
+  id: string;
+  email: string;
+  role: UserRole;
+  status: InvitationStatus;
+  invitedBy?: Pick<User, 'id' | 'name'>;
+  expiresAt: string;
+  createdAt: string;
+}
+
+export interface InviteUserData {
+  email: string;
+  role: UserRole;
+}
+
+// What the accept-invite page learns from the token before showing the form
+export interface InvitationInfo {
+  status: TokenStatus;
+  email?: string;
+  role?: UserRole;
+  companyName?: string;
+  invitedByName?: string;
+  passwordPolicy?: PasswordPolicy;
+}
+
+export interface AcceptInvitationData {
+  token: string;
+  name: string;
+  password: string;
+  confirmPassword: string;
+}
+
+export interface UserFilters {
+  role?: UserRole;
+  isActive?: boolean;
+  /** Matches name or email */
+  search?: string;
+}
+
+// Seats count active users plus invitations that may still be accepted
+export interface UserSeatUsage {
+  activeUsers: number;
+  pendingInvitations: number;
+}
+
+export interface DaneDepartment {
+  /** Two-digit DANE code */
+  code: string;
+  name: string;
+}
+
+export interface DaneMunicipality {
+  /** Five-digit DANE code; the first two digits are the department */
+  code: string;
+  name: string;
+  departmentCode: string;
+}
+
+// Names are stored next to the DANE codes so invoices and exports don't
+// need the bundled dataset to print them
+export interface Address {
+  /** Street line, e.g. "Calle 10 # 5-20" */
+  street: string;
+  /** Apartment, office, neighborhood or other references; may be empty */
+  details: string;
+  departmentCode: string;
+  departmentName: string;
+  municipalityCode: string;
+  municipalityName: string;
+}
+
+export interface NitLookupResult {
+  /** Business name registered with the DIAN, when the lookup found one */
+  businessName?: string;
+  /** The NIT already belongs to a MercaloPOS company */
+  alreadyRegistered: boolean;
+}
+
+export interface UpdateProfileData {
+  name: string;
+  email: string;
+}
+
 export interface ChangePasswordData {
   currentPassword: string;
   newPassword: string;
   confirmPassword: string;
 }
 
+export interface ChangePasswordResult {
+  response: ApiResponse;
+  /** False when the password changed but signing out the other sessions failed */
+  otherSessionsRevoked: boolean;
+}
+
 // JWT Token payload interface
 export interface JWTPayload {
   sub: string; // user id
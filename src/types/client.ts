@@ -0,0 +1,179 @@
+import type { Address, TaxDocumentType } from './auth';
+
+// DIAN tax responsibility, printed on invoice headers
+export const TaxRegime = {
+  IVA_RESPONSIBLE: 'iva_responsible',
+  NOT_IVA_RESPONSIBLE: 'not_iva_responsible',
+  SIMPLE: 'simple',
+  SPECIAL: 'special'
+} as const;
+
+export type TaxRegime = typeof TaxRegime[keyof typeof TaxRegime];
+
+// RFM groups, from the recency, frequency and monetary scores
+export const RfmSegment = {
+  CHAMPIONS: 'champions',
+  LOYAL: 'loyal',
+  POTENTIAL_LOYALIST: 'potential_loyalist',
+  NEW: 'new',
+  NEEDS_ATTENTION: 'needs_attention',
+  AT_RISK: 'at_risk',
+  CANT_LOSE: 'cant_lose',
+  HIBERNATING: 'hibernating',
+  LOST: 'lost'
+} as const;
+
+export type RfmSegment = typeof RfmSegment[keyof typeof RfmSegment];
+
+/** Quintile scores from 1 (worst) to 5 (best) among the company's clients */
+export interface ClientRfm {
+  recency: number;
+  frequency: number;
+  monetary: number;
+  segment: RfmSegment;
+}
+
+export interface Client {
+  id: string;
+  documentType: TaxDocumentType;
+  /** Digits only (letters allowed for passports), without the check digit */
+  documentNumber: string;
+  /** DIAN check digit, only present for NIT */
+  dv?: string;
+  name: string;
+  email?: string;
+  /** E.164 */
+  phone?: string;
+  address?: Address;
+  taxRegime: TaxRegime;
+  tags: string[];
+  /** Absent until the client's first purchase */
+  rfm?: ClientRfm;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ClientFormData {
+  documentType: TaxDocumentType;
+  documentNumber: string;
+  /** Empty unless documentType is NIT */
+  dv: string;
+  name: string;
+  /** Empty when the client didn't give one */
+  email: string;
+  /** E.164; just the calling code when left blank */
+  phone: string;
+  address: Address;
+  taxRegime: TaxRegime;
+  tags: string[];
+}
+
+export type ClientSortField = 'name' | 'documentNumber' | 'createdAt';
+
+export interface ClientFilters {
+  /** Matches name, document number, email or phone */
+  search?: string;
+  tag?: string;
+  /** A saved segment */
+  segmentId?: string;
+  /** Unsaved conditions from the filter builder */
+  segment?: SegmentDefinition;
+}
+
+export type SegmentRule =
+  | { field: 'tags'; operator: 'any' | 'all' | 'none'; values: string[] }
+  /** DANE municipality codes */
+  | { field: 'municipality'; operator: 'in' | 'notIn'; values: string[] }
+  | { field: 'rfmSegment'; operator: 'in'; values: RfmSegment[] }
+  /** Days since the last purchase, number of purchases and lifetime spend */
+  | { field: 'recencyDays' | 'purchaseCount' | 'lifetimeValue'; operator: 'gte' | 'lte'; value: number };
+
+export type SegmentRuleField = SegmentRule['field'];
+
+export interface SegmentDefinition {
+  match: 'all' | 'any';
+  rules: SegmentRule[];
+}
+
+/** A filter saved by a user; other users don't see it */
+export interface ClientSegment {
+  id: string;
+  name: string;
+  definition: SegmentDefinition;
+  /** Clients matching right now */
+  clientCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Figures the backend aggregates from the client's sales and fiado account
+export interface ClientStats {
+  lifetimeValue: number;
+  purchaseCount: number;
+  averageTicket: number;
+  lastPurchaseAt?: Date;
+  /** Outstanding fiado (store credit) balance */
+  creditBalance: number;
+}
+
+export type ClientActivityType = 'sale' | 'payment' | 'note';
+
+export interface ClientActivity {
+  id: string;
+  type: ClientActivityType;
+  date: Date;
+  /** Sale total or payment received; absent for notes */
+  amount?: number;
+  description: string;
+  /** Sale or receipt number */
+  reference?: string;
+  createdByName?: string;
+}
+
+// Spreadsheet columns a client import can map
+export type ClientImportField =
+  | 'documentType'
+  | 'documentNumber'
+  | 'dv'
+  | 'name'
+  | 'email'
+  | 'phone'
+  | 'street'
+  | 'details'
+  | 'department'
+  | 'municipality'
+  | 'taxRegime'
+  | 'tags';
+
+/** Column index for each mapped field */
+export type ClientColumnMapping = Partial<Record<ClientImportField, number>>;
+
+export interface ClientImportError {
+  /** 1-based spreadsheet row, counting the header */
+  rowNumber: number;
+  field?: ClientImportField;
+  message: string;
+}
+
+export interface ClientImportRow {
+  rowNumber: number;
+  data: ClientFormData;
+  errors: ClientImportError[];
+}
+
+// What to do with rows whose document already belongs to a client
+export const ClientDuplicateStrategy = {
+  SKIP: 'skip',
+  UPDATE: 'update'
+} as const;
+
+export type ClientDuplicateStrategy = typeof ClientDuplicateStrategy[keyof typeof ClientDuplicateStrategy];
+
+export interface ClientImportResult {
+  dryRun: boolean;
+  created: number;
+  updated: number;
+  skipped: number;
+  /** Rows the server rejected */
+  errors: ClientImportError[];
+}
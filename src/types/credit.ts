@@ -0,0 +1,99 @@
+// Customer credit ("fiado"): sales on account and the payments against them
+
+export const CreditMovementType = {
+  CHARGE: 'charge',
+  PAYMENT: 'payment'
+} as const;
+
+export type CreditMovementType = typeof CreditMovementType[keyof typeof CreditMovementType];
+
+export const PaymentMethod = {
+  CASH: 'cash',
+  TRANSFER: 'transfer',
+  NEQUI: 'nequi',
+  DAVIPLATA: 'daviplata',
+  CARD: 'card'
+} as const;
+
+export type PaymentMethod = typeof PaymentMethod[keyof typeof PaymentMethod];
+
+// Days since a charge was made: 0-30, 31-60, 61-90 and over 90
+export type AgingBucket = 'current' | 'days31to60' | 'days61to90' | 'over90';
+
+/** Outstanding amount per bucket */
+export type CreditAging = Record<AgingBucket, number>;
+
+export interface CreditAccount {
+  clientId: string;
+  clientName: string;
+  /** 0 means the client can't buy on credit */
+  creditLimit: number;
+  balance: number;
+  aging: CreditAging;
+  /** Date of the oldest charge not fully paid */
+  oldestChargeAt?: Date;
+  lastPaymentAt?: Date;
+  updatedAt: Date;
+}
+
+export interface CreditMovement {
+  id: string;
+  type: CreditMovementType;
+  date: Date;
+  amount: number;
+  /** Account balance right after this movement */
+  balanceAfter: number;
+  description?: string;
+  /** Sale number, for charges */
+  saleReference?: string;
+  /** Still unpaid part of a charge; payments apply to the oldest charges first */
+  remaining?: number;
+  paymentMethod?: PaymentMethod;
+  /** Receipt or transfer number, for payments */
+  paymentReference?: string;
+  createdByName?: string;
+}
+
+export interface CreditChargeData {
+  amount: number;
+  /** The sale sold on credit */
+  saleReference: string;
+  description: string;
+}
+
+export interface CreditPaymentData {
+  amount: number;
+  method: PaymentMethod;
+  /** Empty when there's no receipt, e.g. cash */
+  reference: string;
+  note: string;
+}
+
+export interface CreditStatement {
+  account: CreditAccount;
+  from: Date;
+  to: Date;
+  /** Balance before the first movement in the period */
+  openingBalance: number;
+  /** Oldest first */
+  movements: CreditMovement[];
+  generatedAt: Date;
+}
+
+export interface CreditPortfolioSummary {
+  totalBalance: number;
+  accountCount: number;
+  aging: CreditAging;
+  /** Change of the total balance against the same day last month, as a fraction */
+  monthlyChange?: number;
+}
+
+export type CreditAccountSortField = 'clientName' | 'balance' | 'oldestChargeAt';
+
+export interface CreditAccountFilters {
+  search?: string;
+  /** Only accounts with money owed in this bucket or older */
+  agedOver?: AgingBucket;
+  /** A saved client segment */
+  segmentId?: string;
+}
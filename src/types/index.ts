@@ -1,4 +1,6 @@
 export * from './auth';
+export * from './client';
+export * from './credit';
 
 // API related types
 export interface PaginationParams {
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { toCsv } from './download';
+
+interface Row {
+  name: string;
+  balance: number;
+}
+
+const columns = [
+  { header: 'Nombre', value: (row: Row) => row.name },
+  { header: 'Saldo', value: (row: Row) => row.balance },
+];
+
+const dataLines = (csv: string) => csv.replace(/^\uFEFF/, '').split('\r\n').slice(1);
+
+describe('toCsv', () => {
+  it('neutralizes values a spreadsheet would run as a formula', () => {
+    const csv = toCsv([{ name: '=HYPERLINK("http://evil.example","Ver")', balance: 0 }], columns);
+
+    expect(dataLines(csv)).toEqual([`"'=HYPERLINK(""http://evil.example"",""Ver"")",0`]);
+  });
+
+  it.each(['+57 300', '-1+1', '@SUM(A1)', '\tcmd', '\rcmd'])('prefixes %j', (name) => {
+    const [line] = dataLines(toCsv([{ name, balance: 0 }], columns));
+
+    expect(line.replace(/^"/, '')).toMatch(/^'/);
+  });
+
+  it('keeps negative numbers and plain text as they are', () => {
+    const csv = toCsv([{ name: 'Tienda, La 14', balance: -1500 }], columns);
+
+    expect(dataLines(csv)).toEqual(['"Tienda, La 14",-1500']);
+  });
+});
@@ -0,0 +1,27 @@
+import type { FieldValues, Path, UseFormSetError } from 'react-hook-form';
+import { ApiError } from '@/services/apiErrors';
+
+/**
+ * Maps the server's field errors (`ApiResponse.errors[].field`) onto a
+ * react-hook-form form. `fieldMap` translates server field names that differ
+ * from the form's. Returns the form fields that received an error.
+ */
+export function applyServerFieldErrors<T extends FieldValues>(
+  error: unknown,
+  setError: UseFormSetError<T>,
+  fieldMap: Partial<Record<string, Path<T>>> = {}
+): Path<T>[] {
+  if (!(error instanceof ApiError)) {
+    return [];
+  }
+
+  return error.fieldErrors.map((fieldError, index) => {
+    const field = fieldMap[fieldError.field!] ?? (fieldError.field as Path<T>);
+    setError(field, { type: 'server', message: fieldError.message }, { shouldFocus: index === 0 });
+    return field;
+  });
+}
+
+export function getErrorMessage(error: unknown, fallback: string): string {
+  return error instanceof Error && error.message ? error.message : fallback;
+}
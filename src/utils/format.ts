@@ -0,0 +1,28 @@
+const currencyFormatter = new Intl.NumberFormat('es-CO', {
+  style: 'currency',
+  currency: 'COP',
+  maximumFractionDigits: 0,
+});
+
+/** Colombian pesos without decimals, e.g. `$ 1.230.000` */
+export function formatCurrency(value: number): string {
+  return currencyFormatter.format(value);
+}
+
+export function formatDate(value: Date | string, options: Intl.DateTimeFormatOptions = { dateStyle: 'medium' }): string {
+  return new Date(value).toLocaleString('es-CO', options);
+}
+
+/**
+ * Accent-, case- and punctuation-insensitive key for matching text typed by
+ * people, so "bogota dc" finds "Bogotá, D.C."
+ */
+export function toSearchKey(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9 ]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
@@ -0,0 +1,50 @@
+export interface CropArea {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export function readFileAsDataUrl(file: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error ?? new Error('Could not read the file'));
+    reader.readAsDataURL(file);
+  });
+}
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Could not load the image'));
+    image.src = src;
+  });
+}
+
+/**
+ * Cuts `area` (in source pixels) out of the image at `src` and scales it to a
+ * `size`×`size` JPEG.
+ */
+export async function cropImage(src: string, area: CropArea, size = 256, quality = 0.9): Promise<Blob> {
+  const image = await loadImage(src);
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas is not supported');
+  }
+
+  context.drawImage(image, area.x, area.y, area.width, area.height, 0, 0, size, size);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error('Could not export the image'))),
+      'image/jpeg',
+      quality
+    );
+  });
+}
@@ -0,0 +1,44 @@
+import { readSheet } from 'read-excel-file/web-worker';
+import type { ParsedSpreadsheet, SpreadsheetWorkerResponse } from '@/services/spreadsheetService';
+import { parseCsv } from '@/utils/csv';
+
+type CellValue = string | number | boolean | Date | null | undefined;
+
+function cellToText(cell: CellValue): string {
+  if (cell === null || cell === undefined) {
+    return '';
+  }
+  if (cell instanceof Date) {
+    return cell.toISOString().slice(0, 10);
+  }
+  return String(cell).trim();
+}
+
+function toSpreadsheet(table: CellValue[][]): ParsedSpreadsheet {
+  const rows = table
+    .map((row, index) => ({ rowNumber: index + 1, cells: row.map(cellToText) }))
+    .filter((row) => row.cells.some(Boolean));
+  const [header, ...data] = rows;
+
+  return { headers: header?.cells ?? [], rows: data };
+}
+
+async function parse(file: File): Promise<ParsedSpreadsheet> {
+  if (file.name.toLowerCase().endsWith('.csv')) {
+    return toSpreadsheet(parseCsv(await file.text()));
+  }
+
+  // Keep numbers as stored so long document numbers aren't rounded
+  const table = await readSheet<string>(file, { parseNumber: (value) => value });
+  return toSpreadsheet(table as CellValue[][]);
+}
+
+self.onmessage = async (event: MessageEvent<File>) => {
+  let response: SpreadsheetWorkerResponse;
+  try {
+    response = { sheet: await parse(event.data) };
+  } catch {
+    response = { error: 'El archivo está dañado o no tiene un formato válido' };
+  }
+  self.postMessage(response);
+};